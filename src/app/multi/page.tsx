@@ -0,0 +1,37 @@
+'use client';
+
+/**
+ * Multi-Instance Demo v1.0 — Two Scores, One Page
+ * Date: March 5th, 2026
+ *
+ * Lesson layout: the original score next to a simplified arrangement. Each
+ * ScoreInstance owns its AlphaTabApi, cursor, loop overlay and seek handler.
+ *
+ * Check by hand:
+ *   1. Play both — each cursor follows its own score and audio
+ *   2. Loop a bar on the left while the right keeps playing through
+ *   3. Click-to-seek on one score never moves the other
+ *   4. Console: window.__at.original / window.__at.simplified
+ *   5. DOM: every cursor has its own id (maestro-cursor-v4-<n>)
+ */
+
+import React from 'react';
+import ScoreInstance from '../../components/ScoreInstance';
+
+import '../alphaTab.css';
+
+const INSTANCES = [
+    { id: 'original', title: '🎸 Original — Extreme, Rise (GP5)', url: '/samples/extreme-rise/extreme-rise.gp5' },
+    { id: 'simplified', title: '🎼 Simplified — alternate endings fixture', url: '/samples/alternate-endings/alternate-endings.atex' },
+];
+
+export default function MultiInstancePage() {
+    return (
+        <div style={{ padding: '20px', fontFamily: 'monospace' }}>
+            <h2 style={{ margin: '0 0 10px 0' }}>🧪 Multi-instance — two scores, independent cursors + loops</h2>
+            <div style={{ display: 'flex', gap: '16px', alignItems: 'flex-start' }}>
+                {INSTANCES.map(i => <ScoreInstance key={i.id} instanceId={i.id} title={i.title} url={i.url} />)}
+            </div>
+        </div>
+    );
+}
@@ -1,39 +1,333 @@
 'use client';
 
 /**
- * AlphaTab Labs Page v5.30 — Stable Repeat + Loop Cursor Engine
- * Date: February 22nd, 2026
+ * AlphaTab Labs Page v5.55 — Rest Between Repetitions
+ * Date: March 5th, 2026
+ *
+ * 🔥 V5.55 CHANGES:
+ * ✅ ⏸️ Loop rest (LoopRest + LoopRestCountdown): an optional silent gap of
+ *    N beats or N seconds after each repetition — playback pauses, the
+ *    cursor parks on the loop start, a countdown runs over the loop, then
+ *    playback resumes by itself.
+ * ✅ The rest is not a manual toggle: the button stays "⏸️ Pause" through it
+ *    (a pause reports stopped=false). Pause during the rest cancels the
+ *    resume; seeks, section / playlist starts end it and play on.
+ *
+ * 🔥 V5.54 — Practice Playlist
+ * 🔥 V5.54 CHANGES:
+ * ✅ 📋 Practice playlist (PracticePlaylist + PracticePlaylistPanel): queue
+ *    loop regions from anywhere in the score, each with its own repetitions
+ *    and speed — "bars 5–8 ×4, then 21–24 ×4, then 5–24 ×2" — and playback
+ *    moves through them. Optionally repeats the whole list.
+ * ✅ Region changes happen inside the loop wrap (LoopController 'playlist'
+ *    source), like auto-advance — which the playlist stops while it runs.
+ * ✅ Every queued region is painted in its own colour (LoopOverlay v1.4
+ *    regions); the playing one is the loop, emphasised.
+ *
+ * 🔥 V5.53 — Grid Loop Snap
+ * 🔥 V5.53 CHANGES:
+ * ✅ "Loop drag: Grid" + resolution picker — quarter / 8th / 16th / 8th
+ *    triplet (LoopSnap v1.1 gridSnap). Edges land on grid ticks counted from
+ *    the expanded bar start, also inside one long beat (whammy sustain).
+ * ✅ Drags, handle resizes and the renderFinished rebuild all use the same
+ *    grid ticks — the highlight edge sits proportionally inside the beat.
+ *
+ * 🔥 V5.52 — Touch Loops
+ * 🔥 V5.52 CHANGES:
+ * ✅ Pointer Events throughout (LoopOverlay v1.3, ScorePointer): loops and
+ *    seeks work with mouse, pen and touch — iPad practice.
+ * ✅ Touch: tap = seek, long-press (then drag) = loop, one-finger swipe and
+ *    two-finger scroll / pinch stay native and never select.
+ * ✅ Pointer capture: a drag that leaves the surface still commits on release.
+ * ✅ Touch jitter inside the slop radius is not fed to the intent gate — a
+ *    long-press without a drag is a bar-snap, like trackpad drift.
+ *
+ * 🔥 V5.51 — Section Navigator
+ * 🔥 V5.51 CHANGES:
+ * ✅ 🧭 Section navigator (SectionNavigator + ScoreSections): the score's
+ *    Guitar Pro section markers with "🔁 Loop" and "▶️ Play" per section.
+ * ✅ One entry per pass through a section (expanded ticks from
+ *    tickCache.masterBars) — "Verse pass 2" loops the second time round, a
+ *    D.S. landing mid-section is a partial pass.
+ * ✅ Loop = LoopController.setRange, so the highlight is the usual
+ *    highlightRects. Play from a section outside the loop turns the loop off.
+ *
+ * 🔥 V5.50 — Loop Pre-Roll
+ * 🔥 V5.50 CHANGES:
+ * ✅ ⏮️ Pre-roll picker (off / 1, 2, 4 beats / 1 bar) + "every pass" or
+ *    "on play" + metronome count-in (LoopController v1.4 setPreRoll).
+ * ✅ The wrap targets the lead-in tick; api.playbackRange starts there
+ *    (alphaTab clamps seeks to it), while 'changed', the highlight and saved
+ *    loops keep the real range.
+ * ✅ ▶️ Play cues the lead-in first (cueStart) and snaps the cursor to it.
+ *
+ * 🔥 V5.49 — A-B Loop Keys
+ * 🔥 V5.49 CHANGES:
+ * ✅ [ / ] set loop in / out at the cursor while playing (A-B); \ toggles the
+ *    active edge (start ⇄ end), Shift+arrows nudge it by a beat (←→) or bar
+ *    (↑↓), Alt+arrows move the whole loop (LoopKeyboard → LoopController
+ *    v1.3). Expanded-tick steps — repeat-aware; playbackRange + rects update
+ *    through 'changed'.
+ * ✅ A / B use the latency-compensated tick (what the player hears).
+ *
+ * 🔥 V5.48 — Loop Resize Handles
+ * 🔥 V5.48 CHANGES:
+ * ✅ Grab handles on the loop's start / end edges (LoopOverlay v1.1) resize
+ *    a committed loop — no more clear-and-redraw. The moving edge follows
+ *    the "Loop drag" snap (bar / beat / liquid / 1/16), works across system
+ *    rows and stays in the loop's repeat pass (LoopController v1.2).
+ * ✅ Commit fires 'changed' with source 'resize' → saved-loop highlight,
+ *    tempo trainer and auto-advance see it like any other new range.
+ *
+ * 🔥 V5.47 — Loop Auto-Advance
+ * 🔥 V5.47 CHANGES:
+ * ✅ ⏭️ Auto-advance (LoopAutoAdvance + LoopAutoAdvancePanel): play the loop
+ *    N times, then move it to the next bar group or forward by its own
+ *    length — chunk through a solo hands-free. Playback order (expanded
+ *    ticks), so repeats and voltas are followed, never skipped endings.
+ * ✅ The move happens inside the wrap (LoopController v1.1): one seek into
+ *    the new range, cursor 'loop' snap, rects repaint on 'changed'.
+ *
+ * 🔥 V5.46 — Tempo Trainer
+ * 🔥 V5.46 CHANGES:
+ * ✅ 🐢 Tempo trainer (TempoTrainer + TempoTrainerPanel): starts the loop at
+ *    a % of the tempo and raises api.playbackSpeed by a step every N clean
+ *    repetitions, up to the target. "✗ Not clean" restarts the count.
+ * ✅ Repetitions = LoopController 'wrapped' — the enforcer's safety-margin
+ *    jump, counted once even with per-track cursors.
+ * ✅ A new loop range restarts the ramp; loop OFF stops the trainer and
+ *    restores the previous speed.
+ *
+ * 🔥 V5.45 — Saved Loops
+ * 🔥 V5.45 CHANGES:
+ * ✅ 📌 Saved loops sidebar (SavedLoopsPanel): name the current loop, rename,
+ *    delete, recall; export / import the set as JSON. Stored in IndexedDB,
+ *    keyed by the content hash of the loaded file (SavedLoops) — survives
+ *    reloads, follows the file rather than its URL.
+ * ✅ Recall = LoopController.setRange (playbackRange + rects via 'changed')
+ *    plus a seek to the cursor tick saved with the loop.
+ * ✅ Stale hashes from a superseded sample load are dropped (loadSeqRef).
+ *
+ * 🔥 V5.44 — Loop Controller
+ * 🔥 V5.44 CHANGES:
+ * ✅ One headless LoopController (src/lib) owns the loop: range, passes,
+ *    playbackRange/isLooping and the wrap. LoopOverlay only paints its rects —
+ *    CustomLoopOverlay + BeatCustomLoopOverlay and the page's manual loop
+ *    slicing are gone.
+ * ✅ CursorDriver enforces through the controller (options.loop) — one wrap,
+ *    one 'wrapped' event, however many per-track drivers see the edge.
+ * ✅ "Loop drag" snap picker: beat / bar / liquid / 1/16 (LoopSnap). A click
+ *    is still a bar-snap (LoopIntentGate).
+ * ✅ FollowScroll suspends on the controller's 'gesture' event.
+ *
+ * 🔥 V5.43 — Score Geometry
+ * 🔥 V5.43 CHANGES:
+ * ✅ Click-to-seek goes through ScoreGeometry.pointToTick (src/lib) with the
+ *    transport tick as pass hint — same resolution as the loop overlays.
+ * ✅ Click point = clientX/Y − surface rect (clientToScore). v5.42 added the
+ *    scroll offset on top, which getBoundingClientRect already contains.
+ *
+ * 🔥 V5.42 — Cursor Events
+ * 🔥 V5.42 CHANGES:
+ * ✅ Status box shows "Bar N · pass P" and the last wrap/jump snap from the
+ *    cursor's typed events (TrackCursors.on — MaestroCursor v5.0). Only the
+ *    primary cursor's events are shown in per-track layout.
+ *
+ * 🔥 V5.41 — Multi-Instance Safe
+ * 🔥 V5.41 CHANGES:
+ * ✅ Settings + sample loading moved to LabBootstrap (shared with ScoreInstance
+ *    and the /multi demo page — two scores side by side).
+ * ✅ Console handle is window.__at.main (registerDebugApi) — one entry per
+ *    instance instead of a single shared window.__at.
+ * ✅ Surface comes from this api's own canvas element (surfaceOf).
+ *
+ * 🔥 V5.40 — Line-Break Transition
+ * 🔥 V5.40 CHANGES:
+ * ✅ "Line break" picker: snap (default) / ghost on next row / fade out-in.
+ *    MaestroCursor v4.8 setTransition() on every cursor via TrackCursors —
+ *    driven by the same frozen expanded nextBeat, so repeats and voltas
+ *    preview the row the transport actually goes to.
+ *
+ * 🔥 V5.39 — Latency Compensation
+ * 🔥 V5.39 CHANGES:
+ * ✅ LatencyCompensation shifts cursors + note-head highlight back by the audio
+ *    output latency (ms → ticks at the current tempo × playback speed).
+ *    Seeks, tickPosition writes, the loop enforcer and manual loop wrap still
+ *    use raw engine ticks.
+ * ✅ Latency (ms) input + 🎧 tap-along calibration (LatencyCalibration) in the
+ *    debug panel. Stored per output device (localStorage), loaded on startup.
+ * ✅ Recorder stores the shifted tick so replays reproduce the live cursor.
+ *
+ * 🔥 V5.38 — Note-Head Highlighting
+ * 🔥 V5.38 CHANGES:
+ * ✅ NoteHeadHighlighter lights the note heads of the sounding beat, plus
+ *    let-ring / tied notes still ringing (outlined). Fed the same tick as the
+ *    cursors → repeat-aware through ExpandedTimeline (SoundingNotes).
+ * ✅ Cleared on pause/stop, seeks, loop wraps (backward tick) and re-render.
+ * ✅ "Note-head highlight" toggle in the debug panel (on by default).
+ *
+ * 🔥 V5.37 — Follow-Scroll
+ * 🔥 V5.37 CHANGES:
+ * ✅ FollowScroll (src/lib) replaces alphaTab's native scroller (still
+ *    ScrollMode.Off) — follows MaestroCursor.getPosition(), so repeat passes
+ *    never yank the page back to pass 1. Modes: off / upper third / page-flip /
+ *    horizontal. Picker in the debug panel.
+ * ✅ Suspended while BeatCustomLoopOverlay reports a drag (onDragStateChange).
+ * ✅ Recentres after repeat-aware click-seek, the seek button, loop wraps and
+ *    re-renders.
+ *
+ * 🔥 V5.36 — Per-Track Cursors
+ * 🔥 V5.36 CHANGES:
+ * ✅ TrackCursors replaces the single cursorRef/driverRef pair. 'per-track'
+ *    layout attaches one MaestroCursor per rendered track, each walking its own
+ *    track's beats (rests, voices) on the shared tick. 'shared' = v5.35.
+ * ✅ "Render all tracks" (api.renderTracks) + "Per-track cursors" toggles.
+ *    renderFinished → cursors.refresh() keeps pairs in sync with api.tracks.
+ * ✅ Recorder follows the primary (first) cursor.
+ *
+ * 🔥 V5.35 — Cursor Skins
+ * 🔥 V5.35 CHANGES:
+ * ✅ Skin picker + "Debug label" toggle in the debug panel. Both apply to the
+ *    live cursor via setSkin()/setDebugLabel() — no re-attach. The lab page
+ *    opts into the debug label (MaestroCursor v4.7 defaults it off).
+ *
+ * 🔥 V5.34 — Record / Replay Harness
+ * 🔥 V5.34 CHANGES:
+ * ✅ CURSOR ENGINE LOCK block moved verbatim into CursorDriver (src/lib) so the
+ *    page and PositionReplayer drive MaestroCursor through identical code.
+ *    The stable per-beat refs moved with it (driverRef.reset() on sample change).
+ * ✅ ⏺️ Record Positions: PositionRecorder captures ticks, seeks, play/pause,
+ *    loop range + wraps and the rendered bounds → downloaded as JSON.
+ * ✅ 🔁 Replay recording: PositionReplayer checks monotonic X within a beat,
+ *    no backward jerk, pause clamp and drift against the recorded X.
+ *
+ * 🔥 V5.33 — Typed AlphaTab Adapter
+ * 🔥 V5.33 CHANGES:
+ * ✅ apiRef is a typed AlphaTabApi; cursor/loop helpers take AlphaTabAdapter
+ *    (src/lib/AlphaTabAdapter.ts) so the same code paths run against FakeAlphaTab.
+ * ✅ The manual-toggle window is a page ref (markManualToggle) instead of a
+ *    function stashed on the api object.
+ *
+ * 🔥 V5.32 — Volta + Jump Fixtures
+ * 🔥 V5.32 CHANGES:
+ * ✅ Repeat-aware seek resolves the clicked bar via timeline.resolveOccurrence —
+ *    same playback segment as the transport first (voltas, D.S./D.C., Fine).
+ * ✅ Sample picker: extreme-rise.gp5 + alphaTex fixtures under /public/samples
+ *    for alternate endings, triple volta, D.S. al Coda and D.C. al Fine.
+ *
+ * 🔥 V5.31 — Precomputed Expanded Timeline
+ * 🔥 V5.31 CHANGES:
+ * ✅ ExpandedTimeline replaces the per-event masterBars/staffSystems traversal
+ *    and the per-beat backward (≤2000) / forward (≤4000) findBeat scans.
+ *    Built once per scoreLoaded/renderFinished, binary-search lookups.
  *
  * 🔒 Engine Architecture Locked
- * - Expanded beat resolution via masterBars traversal (occurrence-aware)
- * - isSameBeat() O(1) gate — both scans run once per beat entry only
- * - Backward + forward scans frozen in stable refs for beat duration
+ * - Cursor feed in CursorDriver.handlePosition (shared with PositionReplayer)
+ * - Expanded beat resolution via ExpandedTimeline (occurrence-aware)
+ * - isSameBeat() O(1) gate — per-beat work runs once per beat entry only
+ * - expandedBeatStart + nextBeat frozen in driver state for beat duration
  * - Loop safety margin prevents dead-zone exposure in audio worker
  * - Jump detection guards whammy re-sync / repeat / seek discontinuities
  *
  * See /docs/maestro-cursor-postmortem.md for full version history.
  */
 
-import React, { useEffect, useRef, useState } from 'react';
-import { attachMaestroCursor, MaestroCursor } from '../components/MaestroCursor';
-import BeatCustomLoopOverlay from '../components/BeatCustomLoopOverlay';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import LoopOverlay, { LoopOverlayRegion } from '../components/LoopOverlay';
+import { getExpandedTimeline, invalidateExpandedTimeline } from '../lib/ExpandedTimeline';
+import { surfaceOf } from '../lib/AlphaTabAdapter';
+import { CursorLayout, TrackCursors } from '../lib/TrackCursors';
+import { FOLLOW_SCROLL_MODES, FollowScroll, FollowScrollMode } from '../lib/FollowScroll';
+import { PositionRecorder, PositionRecording } from '../lib/PositionRecorder';
+import { formatReplayReport, replayRecording } from '../lib/PositionReplayer';
+import { CURSOR_SKINS, MAESTRO_SKIN } from '../lib/CursorSkin';
+import { invalidateSoundingNotes } from '../lib/SoundingNotes';
+import { NoteHeadHighlighter } from '../components/NoteHeadHighlighter';
+import { CROSS_SYSTEM_TRANSITIONS, CrossSystemTransition } from '../components/MaestroCursor';
+import { clientToScore, getScoreGeometry } from '../lib/ScoreGeometry';
+import { onScoreTap } from '../lib/ScorePointer';
+import { LoopController, LoopPreRoll } from '../lib/LoopController';
+import { GRID_RESOLUTIONS, GridResolutionId, gridSnap, LOOP_SNAP_STRATEGIES, LoopSnapId } from '../lib/LoopSnap';
+import LatencyCalibration from '../components/LatencyCalibration';
+import {
+    currentOutputDevice, DEFAULT_DEVICE_ID, LatencyCompensation, loadLatencyProfile, saveLatencyProfile,
+} from '../lib/LatencyCompensation';
+import { createLabSettings, loadSample, registerDebugApi } from '../lib/LabBootstrap';
+import { describeLoopRange, SavedLoop, scoreContentHash } from '../lib/SavedLoops';
+import SavedLoopsPanel from '../components/SavedLoopsPanel';
+import { TempoTrainer } from '../lib/TempoTrainer';
+import TempoTrainerPanel from '../components/TempoTrainerPanel';
+import { LoopAutoAdvance } from '../lib/LoopAutoAdvance';
+import LoopAutoAdvancePanel from '../components/LoopAutoAdvancePanel';
+import { PracticePlaylist, PracticePlaylistState } from '../lib/PracticePlaylist';
+import { LoopRest, LoopRestSetting } from '../lib/LoopRest';
+import LoopRestCountdown from '../components/LoopRestCountdown';
+import PracticePlaylistPanel from '../components/PracticePlaylistPanel';
+import type { ScoreSection, SectionPass } from '../lib/ScoreSections';
+import SectionNavigator from '../components/SectionNavigator';
+import type { AlphaTabApi } from '@coderline/alphatab';
 
 import './alphaTab.css';
 
 const DEBUG = false;
 
+// Loop lead-in lengths for the pre-roll picker ('off' = none).
+const PRE_ROLL_LENGTHS: { id: string; label: string; length: LoopPreRoll['length'] | null }[] = [
+    { id: 'off', label: 'off', length: null },
+    { id: '1', label: '1 beat', length: 1 },
+    { id: '2', label: '2 beats', length: 2 },
+    { id: '4', label: '4 beats', length: 4 },
+    { id: 'bar', label: '1 bar', length: 'bar' },
+];
+
+// Silent gaps between loop repetitions for the rest picker ('off' = none).
+const LOOP_RESTS: { id: string; label: string; setting: LoopRestSetting | null }[] = [
+    { id: 'off', label: 'off', setting: null },
+    { id: '1b', label: '1 beat', setting: { length: 1, unit: 'beats' } },
+    { id: '2b', label: '2 beats', setting: { length: 2, unit: 'beats' } },
+    { id: '4b', label: '4 beats', setting: { length: 4, unit: 'beats' } },
+    { id: '1s', label: '1 s', setting: { length: 1, unit: 'seconds' } },
+    { id: '2s', label: '2 s', setting: { length: 2, unit: 'seconds' } },
+    { id: '3s', label: '3 s', setting: { length: 3, unit: 'seconds' } },
+];
+
+// Test scores. .atex fixtures exercise constructs extreme-rise.gp5 doesn't have.
+const SAMPLES = [
+    { id: 'extreme-rise', label: 'Extreme – Rise (GP5, 3x repeats)', url: '/samples/extreme-rise/extreme-rise.gp5' },
+    { id: 'alternate-endings', label: 'Fixture: alternate endings', url: '/samples/alternate-endings/alternate-endings.atex' },
+    { id: 'triple-volta', label: 'Fixture: triple volta', url: '/samples/triple-volta/triple-volta.atex' },
+    { id: 'ds-al-coda', label: 'Fixture: D.S. al Coda', url: '/samples/ds-al-coda/ds-al-coda.atex' },
+    { id: 'dc-al-fine', label: 'Fixture: D.C. al Fine', url: '/samples/dc-al-fine/dc-al-fine.atex' },
+];
+
+function downloadRecording(recording: PositionRecording) {
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `${recording.label}-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+}
+
 export default function AlphaTabLabsPage() {
     const containerRef = useRef<HTMLDivElement>(null);
     const surfaceRef = useRef<HTMLElement | null>(null);
-    const cursorRef = useRef<MaestroCursor | null>(null);
-    const apiRef = useRef<any>(null);
-    const loopEnabledRef = useRef(false);               // 🔒 ref — closure in playerPositionChanged
-
-    // 🔒 Stable per-beat refs — all written once on beat entry, read every frame
-    const lastTickRef = useRef<number | null>(null);           // transport jump detection
-    const stableCurBeatRef = useRef<any>(null);                // beat identity — O(1) isSameBeat gate
-    const stableExpandedBeatStartRef = useRef<number>(0);      // frozen beat start tick
-    const stableNextBeatRef = useRef<any>(null);               // frozen next beat (null = Mode B)
+    const cursorsRef = useRef<TrackCursors | null>(null);  // shared or one MaestroCursor per track
+    const followRef = useRef<FollowScroll | null>(null);   // auto-scroll driven by the primary cursor
+    const notesRef = useRef<NoteHeadHighlighter | null>(null); // sounding note-head overlay
+    const latencyRef = useRef<LatencyCompensation | null>(null); // engine tick → heard tick (visuals only)
+    const apiRef = useRef<AlphaTabApi | null>(null);
+    const loopRef = useRef<LoopController | null>(null); // 🔒 sole owner of playbackRange / isLooping + wrap
+    const trainerRef = useRef<TempoTrainer | null>(null); // playbackSpeed ramp on loop wraps
+    const advanceRef = useRef<LoopAutoAdvance | null>(null); // N repetitions → next chunk
+    const playlistRef = useRef<PracticePlaylist | null>(null); // queued regions in sequence
+    const restRef = useRef<LoopRest | null>(null); // silent gap after each repetition
+
+    // 🔒 Per-beat state (lastTick, beat identity, expandedBeatStart, nextBeat) lives in
+    //    each TrackCursors driver (CursorDriver)
+    const recorderRef = useRef<PositionRecorder | null>(null);
+    const loadSeqRef = useRef(0); // latest sample load — stale content hashes are dropped
+    const lastManualToggleRef = useRef(0); // playerStateChanged this close to a toggle is ignored
 
     const [isRendered, setIsRendered] = useState(false);
     const [isPlaying, setIsPlaying] = useState(false);
@@ -42,78 +336,70 @@ export default function AlphaTabLabsPage() {
     const [surfaceReady, setSurfaceReady] = useState(false);
     const [soundfontStatus, setSoundfontStatus] = useState<'loading' | 'loaded' | 'error'>('loading');
     const [persistedLoop, setPersistedLoop] = useState<{ startTick: number; endTick: number } | null>(null);
-    const [loopEnabled, setLoopEnabled] = useState(false);
+    const [loopEnabled, setLoopEnabled] = useState(false);  // mirror of loopRef 'changed' events
+    const [loopSnap, setLoopSnap] = useState<LoopSnapId>('beat');
+    const [gridResolution, setGridResolution] = useState<GridResolutionId>('1/16');
+    const [playlistState, setPlaylistState] = useState<PracticePlaylistState | null>(null); // overlay colours
+    const [preRollLength, setPreRollLength] = useState('off');
+    const [preRollMode, setPreRollMode] = useState<LoopPreRoll['mode']>('every');
+    const [countIn, setCountIn] = useState(true);
+    const [loopRest, setLoopRest] = useState('off');
     const [boundsEpoch, setBoundsEpoch] = useState(0);
-
-    const manualLoopDisposerRef = useRef<any>(null);
+    const [sampleId, setSampleId] = useState(SAMPLES[0].id);
+    const [scoreHash, setScoreHash] = useState<string | null>(null); // SavedLoops key
+    const [isRecording, setIsRecording] = useState(false);
+    const [replaySummary, setReplaySummary] = useState<string | null>(null);
+    const [skinId, setSkinId] = useState(MAESTRO_SKIN.id);
+    const [debugLabel, setDebugLabel] = useState(true);
+    const [cursorLayout, setCursorLayout] = useState<CursorLayout>('shared');
+    const [allTracks, setAllTracks] = useState(false);
+    const [followMode, setFollowMode] = useState<FollowScrollMode>('off');
+    const [noteHighlight, setNoteHighlight] = useState(true);
+    const [lineTransition, setLineTransition] = useState<CrossSystemTransition>('off');
+    const [cursorBar, setCursorBar] = useState<{ barIndex: number; pass: number } | null>(null);
+    const [lastSnap, setLastSnap] = useState<string | null>(null);
+    const [latencyMs, setLatencyMs] = useState(0);
+    const [outputDevice, setOutputDevice] = useState({ deviceId: DEFAULT_DEVICE_ID, label: 'System default output' });
+
+    // Stable between playlist changes — LoopOverlay repaints when the array changes.
+    const playlistRegions = useMemo<LoopOverlayRegion[] | undefined>(() => playlistState?.entries.map((entry, i) => ({
+        range: entry.range,
+        color: entry.color,
+        active: playlistState.active && i === playlistState.current,
+    })), [playlistState]);
 
     // ─────────────────────────────────────────
     // Cursor Helpers
     // ─────────────────────────────────────────
 
-    // findBeat() is visual-first — returns pass-1 (structural) beat only.
-    // Only used for immediate snap (initial render, manual seek).
-    // Never used for walking resolution — playerPositionChanged owns that.
-    function updateCursorForTick(api: any, tick: number) {
-        if (!cursorRef.current || !api.renderer?.boundsLookup) return;
-        const trackIndices = api.tracks
-            ? new Set(api.tracks.map((t: any) => t.index))
-            : new Set([0]);
-        const tickCache = (api as any).tickCache;
-        if (!tickCache) return;
-        const beatResult = tickCache.findBeat(trackIndices, tick);
-        if (beatResult?.beat) {
-            cursorRef.current.setBeat(beatResult.beat);
-            cursorRef.current.setTick(tick);
-        }
+    // Play / pause the page set itself — the debounced playerStateChanged echo
+    // (a pause reports stopped=false) must not flip isPlaying back.
+    function markManualToggle() {
+        lastManualToggleRef.current = Date.now();
     }
 
-    // ─────────────────────────────────────────
-    // Manual Loop Control
-    // ─────────────────────────────────────────
-
-    function enableManualLoop(api: any) {
-        if (!api?.playbackRange) return;
-        const start = api.playbackRange.startTick;
-        const endExclusive = api.playbackRange.endTick;
-
-        // 🔒 MANUAL LOOP — DETERMINISTIC LAST-BEAT WRAP
-        //
-        // Why manual over native (api.isLooping = true):
-        //   Native loop causes an audio/cursor hiccup at M4–M5 boundary because
-        //   AlphaTab's internal scheduler can stall or emit a tick >= endExclusive
-        //   before wrapping, causing a 1-frame cursor poisoning and audible pause.
-        //
-        // lastValid is computed from the actual last resolvable beat inside the range —
-        // deterministic, tempo-independent, always correct. Never use a magic offset.
-        const trackIndices = api.tracks
-            ? new Set(api.tracks.map((t: any) => t.index))
-            : new Set([0]);
-
-        let lastValid = start;
-        for (let t = endExclusive - 1; t >= start; t--) {
-            const r = api.tickCache?.findBeat(trackIndices, t);
-            if (r?.beat) { lastValid = t; break; }
-        }
-
-        api.isLooping = false; // disable native — this handler is single source of truth
+    // Immediate snap (initial render, manual seek) — see CursorDriver.snapToTick.
+    function updateCursorForTick(tick: number) {
+        cursorsRef.current?.snapToTick(tick);
+    }
 
-        manualLoopDisposerRef.current = api.playerPositionChanged.on((e: any) => {
-            const tick = e.currentTick ?? e.tickPosition;
-            if (tick == null) return;
-            if (tick < start) { api.tickPosition = start; return; }
-            if (tick >= lastValid) { api.tickPosition = start; }
-        });
+    // Loads a sample and keys saved loops by its content hash.
+    async function loadScore(api: AlphaTabApi, url: string) {
+        const seq = ++loadSeqRef.current;
+        setScoreHash(null);
+        const hash = await scoreContentHash(await loadSample(api, url));
+        if (seq === loadSeqRef.current) setScoreHash(hash);
+    }
 
-        console.log(`🎼 Manual Loop Enabled: ${start}–${endExclusive}, lastValid=${lastValid}`);
+    // Seeks pause / play around the jump. Mid-rest the engine is paused but the
+    // loop is "playing" — the rest ends here and the seek resumes instead.
+    function wasPlayingBeforeSeek(api: AlphaTabApi): boolean {
+        return restRef.current?.cancel() === true || api.playerState !== 0;
     }
 
-    function disableManualLoop() {
-        if (manualLoopDisposerRef.current) {
-            manualLoopDisposerRef.current();
-            manualLoopDisposerRef.current = null;
-            console.log('🎼 Manual Loop Disabled');
-        }
+    // Latency compensation — visuals only. Identity until the api exists.
+    function visualTick(tick: number): number {
+        return latencyRef.current?.toVisualTick(tick) ?? tick;
     }
 
     // ─────────────────────────────────────────
@@ -124,45 +410,63 @@ export default function AlphaTabLabsPage() {
         if (!containerRef.current || apiRef.current) return;
 
         let destroyed = false;
+        let unregisterDebugApi = () => {};
 
         const init = async () => {
             const alphaTab = await import('@coderline/alphatab');
             if (destroyed || !containerRef.current) return;
 
-            const settings = new alphaTab.Settings();
-            settings.core.engine = 'svg';
-            settings.core.logLevel = alphaTab.LogLevel.Debug;
-            settings.core.fontDirectory =
-                'https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/font/';
-            settings.core.includeNoteBounds = true;
-            settings.core.enableLazyLoading = false;
-            settings.core.useWorkers = true;
-            settings.display.scale = 1.0;
-            settings.display.layoutMode = alphaTab.LayoutMode.Page;
-            settings.display.staveProfile = alphaTab.StaveProfile.Tab;
-            settings.player.enablePlayer = true;
-            settings.player.soundFont = '/soundfont/sonivox.sf2';
-            settings.player.scrollMode = alphaTab.ScrollMode.Off;
-            settings.player.playerMode = alphaTab.PlayerMode.EnabledSynthesizer;
-            settings.player.enableUserInteraction = false;
-            settings.player.enableCursor = true;
-            settings.player.enableAnimatedBeatCursor = true;
-
-            if (DEBUG) console.log('🔧 AlphaTab Labs v5.30 initializing...');
+            const settings = createLabSettings(alphaTab);
+
+            if (DEBUG) console.log('🔧 AlphaTab Labs v5.55 initializing...');
 
             const api = new alphaTab.AlphaTabApi(containerRef.current, settings);
             if (destroyed) { api.destroy(); return; }
 
             apiRef.current = api;
-            (window as any).__at = api;
+            unregisterDebugApi = registerDebugApi('main', api);
 
-            const response = await fetch('/samples/extreme-rise/extreme-rise.gp5');
-            const arrayBuffer = await response.arrayBuffer();
-            api.load(new Uint8Array(arrayBuffer));
+            latencyRef.current = new LatencyCompensation(api);
+
+            const loop = new LoopController(api);
+            loopRef.current = loop;
+            loop.on('changed', (e) => {
+                setLoopEnabled(e.enabled);
+                setPersistedLoop(e.range);
+            });
+            // Don't scroll the page out from under a loop drag.
+            loop.on('gesture', (e) => {
+                if (e.active) followRef.current?.suspend('loop-drag');
+                else followRef.current?.resume('loop-drag');
+            });
+            trainerRef.current = new TempoTrainer(api, loop);
+            advanceRef.current = new LoopAutoAdvance(api, loop);
+            // Before the playlist: its 'finished' pause (same wrap) cancels the rest.
+            restRef.current = new LoopRest(api, loop, { park: updateCursorForTick });
+            playlistRef.current = new PracticePlaylist(api, loop);
+            // One driver moves the loop on wraps — the playlist replaces auto-advance.
+            playlistRef.current.on('progress', (state) => {
+                setPlaylistState(state);
+                if (state.active) advanceRef.current?.stop();
+            });
+            // The playlist paused at its end — a pause keeps stopped=false, so the
+            // debounced playerStateChanged must not flip the button back.
+            playlistRef.current.on('finished', () => {
+                restRef.current?.cancel();
+                markManualToggle();
+                setIsPlaying(false);
+            });
+            currentOutputDevice(api).then(device => {
+                if (destroyed) return;
+                setOutputDevice(device);
+                setLatencyMs(loadLatencyProfile(device.deviceId)?.latencyMs ?? 0);
+            }).catch(console.error);
+
+            await loadScore(api, SAMPLES[0].url);
 
             setTimeout(() => {
                 if (!containerRef.current) return;
-                const surface = containerRef.current.querySelector('.at-surface') as HTMLElement;
+                const surface = surfaceOf(api);
                 if (surface) {
                     surfaceRef.current = surface;
                     setSurfaceReady(true);
@@ -170,11 +474,18 @@ export default function AlphaTabLabsPage() {
                 }
             }, 200);
 
-            api.scoreLoaded.on(() => { if (DEBUG) console.log('✅ Score loaded'); });
+            api.scoreLoaded.on(() => {
+                invalidateExpandedTimeline(api);
+                if (DEBUG) console.log('✅ Score loaded');
+            });
             api.renderStarted.on(() => { setBoundsReady(false); });
 
             api.renderFinished.on(() => {
                 setIsRendered(true);
+                invalidateExpandedTimeline(api);
+                invalidateSoundingNotes(api);
+                getExpandedTimeline(api);
+                notesRef.current?.clear();
                 setTimeout(() => {
                     if (!api.renderer?.boundsLookup?.staffSystems) {
                         console.warn('⚠️ Bounds not ready after delay');
@@ -183,13 +494,33 @@ export default function AlphaTabLabsPage() {
                     setBoundsReady(true);
                     setBoundsEpoch(e => e + 1);
 
-                    if (containerRef.current && !cursorRef.current) {
-                        cursorRef.current = attachMaestroCursor(api, containerRef.current);
+                    if (containerRef.current && !cursorsRef.current) {
+                        cursorsRef.current = new TrackCursors(api, containerRef.current, {
+                            loop,
+                            visualTick,
+                        });
+                        // Primary cursor only — per-track cursors enter the same bars in lockstep.
+                        const cursors = cursorsRef.current;
+                        const isPrimary = (trackIndex: number | null) =>
+                            trackIndex === null || trackIndex === (api.tracks[0]?.index ?? 0);
+                        cursors.on('barEntered', (e) => {
+                            if (isPrimary(e.trackIndex)) setCursorBar({ barIndex: e.barIndex, pass: e.pass });
+                        });
+                        cursors.on('loopWrapped', (e) => {
+                            if (isPrimary(e.trackIndex)) setLastSnap(`${e.reason} ${e.fromTick ?? '–'} → ${Math.round(e.tick)}`);
+                        });
+                        followRef.current = new FollowScroll(api, containerRef.current, {
+                            getCursorPosition: () => cursorsRef.current?.primary?.getPosition() ?? null,
+                        });
+                        notesRef.current = new NoteHeadHighlighter(api, containerRef.current);
                         if (DEBUG) console.log('✅ MaestroCursor attached');
-                        setTimeout(() => updateCursorForTick(api, 0), 300);
-                    } else if (cursorRef.current) {
+                        setTimeout(() => updateCursorForTick(0), 300);
+                    } else if (cursorsRef.current) {
+                        // Rendered track set may have changed (renderTracks) — per-track pairs follow.
+                        cursorsRef.current.refresh();
+                        followRef.current?.recenter();
                         const currentTick = api.tickPosition ?? 0;
-                        setTimeout(() => updateCursorForTick(api, currentTick), 100);
+                        setTimeout(() => updateCursorForTick(currentTick), 100);
                         if (DEBUG) console.log('🔄 Cursor position refreshed after bounds update');
                     }
 
@@ -207,16 +538,17 @@ export default function AlphaTabLabsPage() {
             });
 
             let stateChangeTimeout: NodeJS.Timeout;
-            let lastManualToggle = 0;
 
-            api.playerStateChanged.on((e: any) => {
+            api.playerStateChanged.on((e) => {
                 clearTimeout(stateChangeTimeout);
                 stateChangeTimeout = setTimeout(() => {
-                    if (Date.now() - lastManualToggle < 100) {
+                    // Any non-playing state (pause reports stopped=false) — even inside the toggle window.
+                    if (e.state !== 1) notesRef.current?.clear();
+                    if (Date.now() - lastManualToggleRef.current < 100) {
                         if (DEBUG) console.log('🎵 playerStateChanged: ignored (too close to manual toggle)');
-                        const snapTick = api.tickPosition ?? lastTickRef.current;
+                        const snapTick = api.tickPosition ?? cursorsRef.current?.lastTick;
                         if (snapTick != null) {
-                            requestAnimationFrame(() => updateCursorForTick(api, snapTick));
+                            requestAnimationFrame(() => updateCursorForTick(snapTick));
                         }
                         return;
                     }
@@ -226,203 +558,14 @@ export default function AlphaTabLabsPage() {
                 }, 50);
             });
 
-            (api as any)._lastManualToggle = () => { lastManualToggle = Date.now(); };
-
-            /**
-             * 🔒🔒🔒 CURSOR ENGINE LOCK — DO NOT MODIFY THIS BLOCK 🔒🔒🔒
-             *
-             * Proven stable as of v5.30. Drives Maestro v4.3.8 smooth walking cursor.
-             *
-             * Contract:
-             *   - masterBars occurrence traversal → correct expanded beat (not structural pass-1)
-             *   - isSameBeat() O(1) gate → both scans fire ONCE per beat entry
-             *   - Backward scan → expandedBeatStart (frozen in stableExpandedBeatStartRef)
-             *   - Forward scan → nextBeat (frozen in stableNextBeatRef)
-             *   - 3-arg cursor contract: setBeat() + setTick(tick, nextBeat, expandedBeatStart)
-             *
-             * DO NOT:
-             *   - Move either scan outside the isSameBeat gate (reintroduces 720k calls/beat)
-             *   - Use beat.nextBeat or beat.absolutePlaybackStart as authoritative values
-             *   - Simplify to cursor.setTick(tick) one-arg — drops repeat-aware walk
-             *   - Pass expandedBeatStart as FIRST arg to setTick() — zeros progress every frame
-             *   - Add interpolation math here — MaestroCursor owns all walking state
-             *   - Remove the isSameBeat() structural check — post-repeat instances differ
-             *   - Remove loopEnabledRef clamp — state is stale inside this closure
-             */
-            api.playerPositionChanged.on((e: any) => {
-                if (!cursorRef.current) return;
-
-                const tickRaw = e.currentTick ?? e.tickPosition;
-                if (tickRaw == null) return;
-
-                // 🔒 LOOP BOUNDARY ENFORCER — DO NOT REMOVE
-                // Intercepts ticks before endTick to prevent audio worker dead-zone exposure.
-                // SAFETY_MARGIN = 120 ticks (~1/16 note at 480 PPQ).
-                // This is NOT a cosmetic clamp — it prevents transport dead-zone stall.
-                const range = api.playbackRange;
-                if (loopEnabledRef.current && range) {
-                    const { startTick, endTick } = range;
-                    const SAFETY_MARGIN = 120;
-                    if (tickRaw >= endTick - SAFETY_MARGIN) {
-                        cursorRef.current?.requestSnap();
-                        api.tickPosition = startTick;
-                        return;
-                    }
-                }
-
-                const tick = tickRaw;
-
-                // 🔒 JUMP DETECTION — guards whammy re-sync, repeat wrap, seek discontinuities.
-                // Threshold: 2000 ticks (~2 beats at 480 PPQ).
-                const lastTick = lastTickRef.current;
-                const jumped = lastTick != null && Math.abs(tick - lastTick) > 2000;
-                lastTickRef.current = tick;
-                if (jumped) {
-                    cursorRef.current?.requestSnap();
-                    stableCurBeatRef.current = null;
-                    stableExpandedBeatStartRef.current = 0;
-                }
-
-                const trackIndices = api.tracks
-                    ? new Set(api.tracks.map((t: any) => t.index))
-                    : new Set([0]);
-
-                const tickCache = (api as any).tickCache;
-                if (!tickCache) return;
-
-                // ── Expanded Beat Resolution ─────────────────────────────────────────
-                // findBeat() is structurally biased — always returns pass-1 beat instance.
-                // masterBars traversal gives the correct occurrence for the current pass.
-                //
-                // Algorithm:
-                //   1. Walk masterBars → find entry [start, start+dur) owning tick
-                //      → gives ownerOccurrence + ownerExpandedStart
-                //   2. Walk boundsLookup.staffSystems → find Nth visual instance of masterBar
-                //   3. Walk BarBounds → VoiceBounds → BeatBounds → match by expanded offset
-                //   4. Fallback: findBeat() if masterBars unavailable or traversal fails
-                let curBeat: any = null;
-
-                const masterBarsArr = (tickCache as any).masterBars as any[];
-                if (masterBarsArr?.length) {
-                    const occurrenceMap = new Map<number, number>();
-                    let ownerMbIdx: number | null = null;
-                    let ownerOccurrence = 0;
-                    let ownerExpandedStart = 0;
-
-                    for (const mb of masterBarsArr) {
-                        const mbIdx = mb?.masterBar?.index;
-                        if (mbIdx == null) continue;
-                        const occ = occurrenceMap.get(mbIdx) ?? 0;
-                        occurrenceMap.set(mbIdx, occ + 1);
-                        const dur = mb.masterBar?.calculateDuration?.() ?? 0;
-                        if (tick >= mb.start && tick < mb.start + dur) {
-                            ownerMbIdx = mbIdx;
-                            ownerOccurrence = occ;
-                            ownerExpandedStart = mb.start;
-                        }
-                    }
-
-                    if (ownerMbIdx != null) {
-                        const systems = api.renderer?.boundsLookup?.staffSystems ?? [];
-                        const visualOccMap = new Map<number, number>();
-                        let targetMbb: any = null;
-
-                        outer2: for (const sys of systems) {
-                            for (const mbb of ((sys as any)?.bars ?? [])) {
-                                const vbIdx = (mbb as any)?.masterBar?.index ?? (mbb as any)?.index;
-                                if (vbIdx == null) continue;
-                                const vOcc = visualOccMap.get(vbIdx) ?? 0;
-                                visualOccMap.set(vbIdx, vOcc + 1);
-                                if (vbIdx === ownerMbIdx && vOcc === ownerOccurrence) {
-                                    targetMbb = mbb;
-                                    break outer2;
-                                }
-                            }
-                        }
-
-                        // 🔒 NO track filter here — matched correct masterBar occurrence in Step 2.
-                        // Track filtering at MasterBar level is sufficient; adding it here causes
-                        // silent fallthrough in solo/whammy bars where staff path differs.
-                        if (targetMbb) {
-                            outer3: for (const barBounds of ((targetMbb as any)?.bars ?? [])) {
-                                for (const voiceBounds of ((barBounds as any)?.voices ?? [])) {
-                                    for (const beatBounds of ((voiceBounds as any)?.beats ?? [])) {
-                                        const beat = (beatBounds as any)?.beat;
-                                        if (!beat) continue;
-                                        const bOffset = beat.playbackStart ?? 0;
-                                        const bDur = beat.playbackDuration ?? beat.duration ?? 0;
-                                        const beatExpandedStart = ownerExpandedStart + bOffset;
-                                        if (beatExpandedStart <= tick && tick < beatExpandedStart + bDur) {
-                                            curBeat = beat;
-                                            break outer3;
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                }
-
-                // Fallback: findBeat() — structurally biased, but better than null
-                if (!curBeat) {
-                    const beatResult = tickCache.findBeat(trackIndices, tick);
-                    if (!beatResult?.beat) return;
-                    curBeat = beatResult.beat;
-                }
-
-                // Structural equality — post-repeat, tickCache returns different Beat instances
-                // for the same structural beat. Reference equality is insufficient.
-                const isSameBeat = (a: any, b: any) => {
-                    if (!a || !b) return false;
-                    return (
-                        a.absolutePlaybackStart === b.absolutePlaybackStart &&
-                        a.voice?.bar?.masterBar?.index === b.voice?.bar?.masterBar?.index
-                    );
-                };
-
-                // 🔒 BEAT ENTRY GUARD — isSameBeat() is O(1), gates both expensive scans.
-                // Both scans run exactly once on beat entry; per-frame cost is O(1).
-                //
-                // Root cause of v5.27 solo freeze: both scans ran every frame.
-                // Beat 380160 (3840 ticks, ~4s): 120 frames × 6000 findBeat = 720,000 calls
-                // → main thread stall → audio catches up → cursor teleport.
-                if (!isSameBeat(curBeat, stableCurBeatRef.current) || jumped) {
-                    stableCurBeatRef.current = curBeat;
-
-                    // Backward scan: find expandedBeatStart.
-                    // 🔒 ONCE per beat — O(2000) on entry only, fatal if run per-frame.
-                    let expandedBeatStart = tick;
-                    for (let t = tick - 1; t >= tick - 2000; t--) {
-                        const r = tickCache.findBeat(trackIndices, t);
-                        if (!r?.beat || !isSameBeat(r.beat, curBeat)) {
-                            expandedBeatStart = t + 1;
-                            break;
-                        }
-                    }
-                    stableExpandedBeatStartRef.current = expandedBeatStart;
-
-                    // Forward scan: find nextBeat.
-                    // 🔒 ONCE per beat — same reasoning.
-                    // null result = Mode B (barline walk). Beat object = Mode A (nextBeat walk).
-                    let scannedNextBeat: any = null;
-                    for (let t = expandedBeatStart + 1; t <= expandedBeatStart + 4000; t++) {
-                        const r = tickCache.findBeat(trackIndices, t);
-                        if (r?.beat && !isSameBeat(r.beat, curBeat)) {
-                            scannedNextBeat = r.beat;
-                            break;
-                        }
-                    }
-                    stableNextBeatRef.current = scannedNextBeat;
-                    cursorRef.current.setBeat(curBeat);
-                }
-
-                // Per-frame: O(1) — frozen cached values only.
-                // 🔒 tick is ALWAYS first arg (real engine position).
-                //    expandedBeatStart is ALWAYS third arg (beat-start reference only).
-                //    Swapping them zeros progress every frame → stepping.
-                cursorRef.current.setTick(tick, stableNextBeatRef.current, stableExpandedBeatStartRef.current);
+            // 🔒 CURSOR ENGINE LOCK lives in CursorDriver.handlePosition (v5.34).
+            api.playerPositionChanged.on((e) => {
+                cursorsRef.current?.handlePosition(e.currentTick);
+                // After the cursor moved — follows its applied position, not the native cursor.
+                followRef.current?.update(e.currentTick);
+                // Same tick → same expanded occurrence as the cursor.
+                notesRef.current?.update(visualTick(e.currentTick));
             });
-            // 🔒🔒🔒 END CURSOR ENGINE LOCK 🔒🔒🔒
 
             const checkReady = () => {
                 if (api.isReadyForPlayback) {
@@ -453,12 +596,58 @@ export default function AlphaTabLabsPage() {
 
         return () => {
             destroyed = true;
-            disableManualLoop();
-            if (cursorRef.current) { cursorRef.current.destroy(); cursorRef.current = null; }
+            unregisterDebugApi();
+            if (playlistRef.current) { playlistRef.current.destroy(); playlistRef.current = null; }
+            if (restRef.current) { restRef.current.destroy(); restRef.current = null; }
+            if (advanceRef.current) { advanceRef.current.destroy(); advanceRef.current = null; }
+            if (trainerRef.current) { trainerRef.current.destroy(); trainerRef.current = null; }
+            if (loopRef.current) { loopRef.current.destroy(); loopRef.current = null; }
+            if (cursorsRef.current) { cursorsRef.current.destroy(); cursorsRef.current = null; }
+            followRef.current = null;
+            if (notesRef.current) { notesRef.current.destroy(); notesRef.current = null; }
+            latencyRef.current = null;
             if (apiRef.current) { apiRef.current.destroy(); apiRef.current = null; }
         };
     }, []);
 
+    // Skin + debug label are runtime-switchable — no cursor re-attach.
+    useEffect(() => {
+        const cursors = cursorsRef.current;
+        if (!cursors) return;
+        cursors.setLayout(cursorLayout);
+        cursors.setSkin(CURSOR_SKINS.find(s => s.id === skinId) ?? MAESTRO_SKIN);
+        cursors.setDebugLabel(debugLabel);
+        cursors.setTransition(lineTransition);
+        followRef.current?.setMode(followMode);
+        notesRef.current?.setEnabled(noteHighlight);
+    }, [skinId, debugLabel, cursorLayout, lineTransition, followMode, noteHighlight, boundsEpoch]);
+
+    useEffect(() => {
+        const snap = loopSnap === 'subdivision' ? gridSnap(gridResolution) : LOOP_SNAP_STRATEGIES.find(s => s.id === loopSnap);
+        if (snap) loopRef.current?.setSnap(snap);
+    }, [loopSnap, gridResolution, boundsEpoch]);
+
+    useEffect(() => {
+        const length = PRE_ROLL_LENGTHS.find(p => p.id === preRollLength)?.length ?? null;
+        loopRef.current?.setPreRoll(length != null ? { length, mode: preRollMode, countIn } : null);
+    }, [preRollLength, preRollMode, countIn, boundsEpoch]);
+
+    useEffect(() => {
+        restRef.current?.setRest(LOOP_RESTS.find(r => r.id === loopRest)?.setting ?? null);
+    }, [loopRest, boundsEpoch]);
+
+    useEffect(() => {
+        latencyRef.current?.setLatencyMs(latencyMs);
+    }, [latencyMs]);
+
+    // Manual entry and calibration both persist to the current device's profile.
+    const applyLatency = (ms: number) => {
+        setLatencyMs(ms);
+        saveLatencyProfile(outputDevice.deviceId, {
+            latencyMs: ms, label: outputDevice.label, calibratedAt: new Date().toISOString(),
+        });
+    };
+
     useEffect(() => {
         fetch('/soundfont/sonivox.sf2', { method: 'HEAD' })
             .then(r => r.ok
@@ -467,40 +656,25 @@ export default function AlphaTabLabsPage() {
             .catch(err => console.error('❌ Soundfont fetch failed:', err));
     }, []);
 
-    // Click-to-seek (native interaction disabled)
+    // Tap / click-to-seek (native interaction disabled) — pointerup, see ScorePointer
     useEffect(() => {
         const api = apiRef.current;
         const surface = surfaceRef.current;
         if (!api || !surface || !boundsReady) return;
 
-        const handleClick = (e: MouseEvent) => {
+        const handleTap = (e: PointerEvent) => {
             if (loopEnabled) return;
-            const rect = surface.getBoundingClientRect();
-            const scrollElement = api.renderer?.framer?.scrollElement as HTMLElement | undefined;
-            const scrollX = scrollElement?.scrollLeft ?? surface.scrollLeft ?? 0;
-            const scrollY = scrollElement?.scrollTop ?? surface.scrollTop ?? 0;
-            const x = (e.clientX - rect.left) + scrollX;
-            const y = (e.clientY - rect.top) + scrollY;
-            const beat = api.renderer?.boundsLookup?.getBeatAtPos?.(x, y);
-            const tickCache = (api as any).tickCache;
-            if (!beat || !tickCache?.masterBars) return;
-
-            const visualBarIndex = beat.voice?.bar?.masterBar?.index;
-            if (visualBarIndex == null) return;
-            const offsetInBar = beat.playbackStart ?? 0;
-            const currentTick = api.tickPosition ?? 0;
-
-            const instances = tickCache.masterBars.filter(
-                (mb: any) => mb.masterBar?.index === visualBarIndex
-            );
-            if (instances.length === 0) return;
-
-            const candidates = instances.map((mb: any) => mb.start + offsetInBar);
-            const trueTargetTick = candidates.reduce((prev: number, curr: number) =>
-                Math.abs(curr - currentTick) < Math.abs(prev - currentTick) ? curr : prev
-            );
+            const { x, y } = clientToScore(surface, e);
+            // Same playback segment as the transport first (voltas/jumps), nearest second.
+            const hit = getScoreGeometry(api).pointToTick(x, y, api.tickPosition ?? 0);
+            if (!hit) return;
+            const trueTargetTick = hit.beatStart;
+            const visualBarIndex = hit.bar.masterBarIndex;
 
             console.log(`🎯 Repeat-Aware Seek: Visual M${visualBarIndex} → Expanded ${trueTargetTick}`);
+            recorderRef.current?.markSeek(trueTargetTick);
+            followRef.current?.recenter();
+            notesRef.current?.clear();
             const wasPlaying = api.playerState !== 0;
             if (wasPlaying) api.pause();
             api.tickPosition = trueTargetTick;
@@ -509,8 +683,7 @@ export default function AlphaTabLabsPage() {
             if (wasPlaying) requestAnimationFrame(() => api.play());
         };
 
-        surface.addEventListener('click', handleClick);
-        return () => surface.removeEventListener('click', handleClick);
+        return onScoreTap(surface, handleTap);
     }, [boundsReady, loopEnabled]);
 
     // ─────────────────────────────────────────
@@ -521,24 +694,200 @@ export default function AlphaTabLabsPage() {
         const api = apiRef.current;
         if (!api || !boundsReady) return;
         const tick = 10000;
-        const wasPlaying = api.playerState !== 0;
+        const wasPlaying = wasPlayingBeforeSeek(api);
+        if (wasPlaying) api.pause();
+        recorderRef.current?.markSeek(tick);
+        followRef.current?.recenter();
+        notesRef.current?.clear();
+        api.tickPosition = tick;
+        updateCursorForTick(tick);
+        if (wasPlaying) requestAnimationFrame(() => api.play());
+    };
+
+    // Saved loop → same range, rects (LoopOverlay on 'changed') and cursor as when saved.
+    const handleRecallLoop = (saved: SavedLoop) => {
+        const api = apiRef.current;
+        const loop = loopRef.current;
+        if (!api || !loop || !boundsReady) return;
+        const wasPlaying = wasPlayingBeforeSeek(api);
+        if (wasPlaying) api.pause();
+        loop.setRange(saved);
+        recorderRef.current?.markSeek(saved.cursorTick);
+        followRef.current?.recenter();
+        notesRef.current?.clear();
+        api.tickPosition = saved.cursorTick;
+        updateCursorForTick(saved.cursorTick);
+        if (wasPlaying) requestAnimationFrame(() => api.play());
+    };
+
+    // Section navigator → loop that pass of the section, cursor on its first beat.
+    const handleLoopSection = (section: ScoreSection, pass: SectionPass) => {
+        const api = apiRef.current;
+        const loop = loopRef.current;
+        if (!api || !loop || !boundsReady) return;
+        console.log(`🧭 Loop section "${section.name}" pass ${pass.pass + 1}:`, pass.range);
+        const tick = pass.range.startTick;
+        const wasPlaying = wasPlayingBeforeSeek(api);
+        if (wasPlaying) api.pause();
+        loop.setRange(pass.range);
+        recorderRef.current?.markSeek(tick);
+        followRef.current?.recenter();
+        notesRef.current?.clear();
+        api.tickPosition = tick;
+        updateCursorForTick(tick);
+        if (wasPlaying) requestAnimationFrame(() => api.play());
+    };
+
+    // "Play from here" — a loop elsewhere would wrap straight back, so it goes off.
+    const handlePlaySection = (section: ScoreSection, pass: SectionPass) => {
+        const api = apiRef.current;
+        const loop = loopRef.current;
+        if (!api || !boundsReady) return;
+        const tick = pass.range.startTick;
+        const range = loop?.range;
+        // Before the loop goes off — that ends a rest, which still counts as playing.
+        const wasPlaying = wasPlayingBeforeSeek(api);
+        if (wasPlaying) api.pause();
+        if (loop?.enabled && range && (tick < range.startTick || tick >= range.endTick)) loop.setEnabled(false);
+        console.log(`🧭 Play from section "${section.name}" pass ${pass.pass + 1} @ ${tick}`);
+        recorderRef.current?.markSeek(tick);
+        followRef.current?.recenter();
+        notesRef.current?.clear();
+        api.tickPosition = tick;
+        updateCursorForTick(tick);
+        if (wasPlaying) requestAnimationFrame(() => api.play());
+        else handleTogglePlay();
+    };
+
+    // Playlist start / ▶️ on a region — the playlist sets the loop, we seek into it.
+    const handleStartPlaylist = (index: number) => {
+        const api = apiRef.current;
+        const playlist = playlistRef.current;
+        if (!api || !playlist || !boundsReady) return;
+        const wasPlaying = wasPlayingBeforeSeek(api);
         if (wasPlaying) api.pause();
+        // Regions carry their own speed — the trainer's ramp must not be the baseline.
+        trainerRef.current?.stop();
+        const tick = playlist.start(index);
+        if (tick == null) return;
+        recorderRef.current?.markSeek(tick);
+        followRef.current?.recenter();
+        notesRef.current?.clear();
         api.tickPosition = tick;
-        updateCursorForTick(api, tick);
+        updateCursorForTick(tick);
         if (wasPlaying) requestAnimationFrame(() => api.play());
+        else handleTogglePlay();
+    };
+
+    const handleSampleChange = (id: string) => {
+        const api = apiRef.current;
+        const sample = SAMPLES.find(s => s.id === id);
+        if (!api || !sample) return;
+        if (isPlaying) {
+            markManualToggle();
+            api.pause();
+            setIsPlaying(false);
+        }
+        // A recording is bound to one score layout — discard it.
+        if (recorderRef.current?.isRecording) {
+            recorderRef.current.stop();
+            setIsRecording(false);
+            console.warn('⏺️ Recording discarded — sample changed');
+        }
+        // Loop ticks belong to the old score — drop them before loading.
+        restRef.current?.cancel();
+        playlistRef.current?.clear();
+        loopRef.current?.setEnabled(false);
+        cursorsRef.current?.reset();
+        notesRef.current?.clear();
+        setCursorBar(null);
+        setLastSnap(null);
+        setAllTracks(false);
+        setSampleId(id);
+        console.log(`📂 Loading sample: ${sample.url}`);
+        loadScore(api, sample.url).catch(console.error);
     };
 
     const handleTogglePlay = () => {
         const api = apiRef.current;
         if (!api) return;
         if (!api.isReadyForPlayback && !forceReady) return;
-        if ((api as any)._lastManualToggle) (api as any)._lastManualToggle();
+        markManualToggle();
         const newState = !isPlaying;
         console.log(`🎵 Toggle play: ${isPlaying} → ${newState}`);
-        if (newState) { api.play(); } else { api.pause(); }
+        if (newState) {
+            // Loop pre-roll: start on the lead-in, not on the loop's first beat.
+            const cue = loopRef.current?.cueStart();
+            if (cue != null) {
+                recorderRef.current?.markSeek(cue);
+                followRef.current?.recenter();
+                updateCursorForTick(cue);
+            }
+            api.play();
+        } else {
+            // Mid-rest the engine is already paused — only the resume is left to stop.
+            restRef.current?.cancel();
+            api.pause();
+            notesRef.current?.clear();
+        }
         setIsPlaying(newState);
     };
 
+    // Stacked tracks (guitar / bass / drums) — needed to see per-track cursors.
+    const handleAllTracksChange = (enabled: boolean) => {
+        const api = apiRef.current;
+        if (!api?.score) return;
+        setAllTracks(enabled);
+        api.renderTracks(enabled ? api.score.tracks : [api.score.tracks[0]]);
+    };
+
+    // ─────────────────────────────────────────
+    // Record / Replay (cursor regression harness)
+    // ─────────────────────────────────────────
+
+    const handleToggleRecording = () => {
+        const api = apiRef.current;
+        if (!api) return;
+        const recorder = recorderRef.current;
+        if (recorder?.isRecording) {
+            const recording = recorder.stop();
+            setIsRecording(false);
+            if (recording) {
+                console.log(`⏺️ Recording stopped: ${recording.events.length} events`);
+                downloadRecording(recording);
+            }
+            return;
+        }
+        const next = new PositionRecorder(api, {
+            label: sampleId,
+            getCursorPosition: () => cursorsRef.current?.primary?.getPosition() ?? null,
+            isLoopEnabled: () => loopRef.current?.enabled ?? false,
+            visualTick,
+        });
+        if (!next.start()) {
+            console.warn('⏺️ Cannot record yet — bounds not ready');
+            return;
+        }
+        recorderRef.current = next;
+        setIsRecording(true);
+        console.log('⏺️ Recording started');
+    };
+
+    const handleReplayFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const recording = JSON.parse(await file.text()) as PositionRecording;
+            const report = replayRecording(recording);
+            const summary = formatReplayReport(report);
+            console.log(`🔁 ${summary}`);
+            if (!report.ok) console.table(report.violations);
+            setReplaySummary(summary);
+        } catch (err) {
+            console.error('🔁 Replay failed:', err);
+            setReplaySummary(`❌ ${file.name}: ${(err as Error).message}`);
+        }
+    };
+
     const playerReady = apiRef.current?.isReadyForPlayback || forceReady;
 
     // ─────────────────────────────────────────
@@ -553,9 +902,16 @@ export default function AlphaTabLabsPage() {
                 padding: '15px', zIndex: 10000, borderRadius: '8px', maxWidth: '300px',
             }}>
                 <h3 style={{ margin: '0 0 10px 0', fontSize: '14px' }}>
-                    🧪 v5.30 — Stable Repeat + Loop Cursor Engine
+                    🧪 v5.55 — Rest Between Repetitions
                 </h3>
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                    <select
+                        value={sampleId}
+                        onChange={(e) => handleSampleChange(e.target.value)}
+                        style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace' }}
+                    >
+                        {SAMPLES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                    </select>
                     <button onClick={handleSeek} disabled={!boundsReady} style={{
                         padding: '8px', fontSize: '12px',
                         cursor: boundsReady ? 'pointer' : 'not-allowed',
@@ -568,6 +924,164 @@ export default function AlphaTabLabsPage() {
                         background: playerReady ? '#2196f3' : '#ccc',
                         color: 'white', border: 'none', borderRadius: '4px',
                     }}>{isPlaying ? '⏸️ Pause' : '▶️ Play'}</button>
+                    <select
+                        value={skinId}
+                        onChange={(e) => setSkinId(e.target.value)}
+                        style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace' }}
+                    >
+                        {CURSOR_SKINS.map(s => <option key={s.id} value={s.id}>🎨 {s.label}</option>)}
+                    </select>
+                    <label style={{ fontSize: '11px' }}>
+                        <input
+                            type="checkbox"
+                            checked={debugLabel}
+                            onChange={(e) => setDebugLabel(e.target.checked)}
+                        />{' '}
+                        Debug label
+                    </label>
+                    <select
+                        value={lineTransition}
+                        onChange={(e) => setLineTransition(e.target.value as CrossSystemTransition)}
+                        style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace' }}
+                    >
+                        {CROSS_SYSTEM_TRANSITIONS.map(t => <option key={t.id} value={t.id}>↩️ Line break: {t.label}</option>)}
+                    </select>
+                    <div style={{ display: 'flex', gap: '4px' }}>
+                        <select
+                            value={loopSnap}
+                            onChange={(e) => setLoopSnap(e.target.value as LoopSnapId)}
+                            style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace', flex: 1 }}
+                        >
+                            {LOOP_SNAP_STRATEGIES.map(s => <option key={s.id} value={s.id}>🧲 Loop drag: {s.label}</option>)}
+                        </select>
+                        <select
+                            value={gridResolution}
+                            disabled={loopSnap !== 'subdivision'}
+                            onChange={(e) => setGridResolution(e.target.value as GridResolutionId)}
+                            style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace' }}
+                        >
+                            {GRID_RESOLUTIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                        </select>
+                    </div>
+                    <div style={{ display: 'flex', gap: '4px', alignItems: 'center', fontSize: '11px' }}>
+                        <select
+                            value={preRollLength}
+                            onChange={(e) => setPreRollLength(e.target.value)}
+                            style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace', flex: 1 }}
+                        >
+                            {PRE_ROLL_LENGTHS.map(p => <option key={p.id} value={p.id}>⏮️ Pre-roll: {p.label}</option>)}
+                        </select>
+                        <select
+                            value={preRollMode}
+                            disabled={preRollLength === 'off'}
+                            onChange={(e) => setPreRollMode(e.target.value as LoopPreRoll['mode'])}
+                            style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace' }}
+                        >
+                            <option value="every">every pass</option>
+                            <option value="first">on play</option>
+                        </select>
+                    </div>
+                    <label style={{ fontSize: '11px' }}>
+                        <input
+                            type="checkbox"
+                            checked={countIn}
+                            disabled={preRollLength === 'off'}
+                            onChange={(e) => setCountIn(e.target.checked)}
+                        />{' '}
+                        Metronome count-in during pre-roll
+                    </label>
+                    <select
+                        value={loopRest}
+                        onChange={(e) => setLoopRest(e.target.value)}
+                        title="Silent gap after each repetition — playback resumes by itself"
+                        style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace' }}
+                    >
+                        {LOOP_RESTS.map(r => <option key={r.id} value={r.id}>⏸️ Rest between reps: {r.label}</option>)}
+                    </select>
+                    <div style={{ fontSize: '10px', color: '#555' }}>
+                        ⌨️ [ ] A-B · \ start/end edge · Shift+←→ edge ±beat, ↑↓ ±bar · Alt+arrows move loop · Esc clear
+                    </div>
+                    {trainerRef.current && (
+                        <TempoTrainerPanel trainer={trainerRef.current} loopActive={persistedLoop != null} />
+                    )}
+                    {advanceRef.current && (
+                        <LoopAutoAdvancePanel advance={advanceRef.current} loopActive={persistedLoop != null} />
+                    )}
+                    {playlistRef.current && (
+                        <PracticePlaylistPanel
+                            playlist={playlistRef.current}
+                            currentRange={persistedLoop}
+                            describe={(range) => describeLoopRange(range, apiRef.current ? getExpandedTimeline(apiRef.current) : null)}
+                            onStart={handleStartPlaylist}
+                        />
+                    )}
+                    <label style={{ fontSize: '11px' }}>
+                        <input
+                            type="checkbox"
+                            checked={noteHighlight}
+                            onChange={(e) => setNoteHighlight(e.target.checked)}
+                        />{' '}
+                        Note-head highlight
+                    </label>
+                    <label style={{ fontSize: '11px' }} title={outputDevice.label}>
+                        🎧 Audio latency:{' '}
+                        <input
+                            type="number"
+                            min={0}
+                            max={1000}
+                            step={5}
+                            value={latencyMs}
+                            onChange={(e) => applyLatency(Number(e.target.value) || 0)}
+                            style={{ width: '60px', fontSize: '11px' }}
+                        />{' '}
+                        ms
+                    </label>
+                    <LatencyCalibration
+                        deviceId={outputDevice.deviceId}
+                        onCalibrated={(result) => applyLatency(result.latencyMs)}
+                    />
+                    <select
+                        value={followMode}
+                        onChange={(e) => setFollowMode(e.target.value as FollowScrollMode)}
+                        style={{ padding: '6px', fontSize: '12px', fontFamily: 'monospace' }}
+                    >
+                        {FOLLOW_SCROLL_MODES.map(m => <option key={m.id} value={m.id}>📜 Follow: {m.label}</option>)}
+                    </select>
+                    <label style={{ fontSize: '11px' }}>
+                        <input
+                            type="checkbox"
+                            checked={allTracks}
+                            disabled={!boundsReady}
+                            onChange={(e) => handleAllTracksChange(e.target.checked)}
+                        />{' '}
+                        Render all tracks
+                    </label>
+                    <label style={{ fontSize: '11px' }}>
+                        <input
+                            type="checkbox"
+                            checked={cursorLayout === 'per-track'}
+                            onChange={(e) => setCursorLayout(e.target.checked ? 'per-track' : 'shared')}
+                        />{' '}
+                        Per-track cursors
+                    </label>
+                    <button onClick={handleToggleRecording} disabled={!boundsReady} style={{
+                        padding: '8px', fontSize: '12px',
+                        cursor: boundsReady ? 'pointer' : 'not-allowed',
+                        background: !boundsReady ? '#ccc' : isRecording ? '#f44336' : '#607d8b',
+                        color: 'white', border: 'none', borderRadius: '4px',
+                    }}>{isRecording ? '⏹️ Stop + Save Recording' : '⏺️ Record Positions'}</button>
+                    <label style={{ fontSize: '11px' }}>
+                        🔁 Replay recording:{' '}
+                        <input
+                            type="file"
+                            accept="application/json,.json"
+                            onChange={(e) => { handleReplayFile(e.target.files?.[0]); e.target.value = ''; }}
+                            style={{ fontSize: '11px', width: '100%' }}
+                        />
+                    </label>
+                    {replaySummary && (
+                        <div style={{ fontSize: '11px', wordBreak: 'break-word' }}>{replaySummary}</div>
+                    )}
                     <div style={{
                         fontSize: '11px', marginTop: '10px', padding: '8px',
                         background: '#f5f5f5', borderRadius: '4px',
@@ -576,6 +1090,8 @@ export default function AlphaTabLabsPage() {
                         <div>Bounds: {boundsReady ? '✅' : '❌'}</div>
                         <div>Player: {apiRef.current?.isReadyForPlayback ? '✅' : forceReady ? '⚠️' : '⏳'}</div>
                         <div>Soundfont: {soundfontStatus === 'loaded' ? '✅' : soundfontStatus === 'error' ? '❌' : '⏳'}</div>
+                        <div>Cursor: {cursorBar ? `bar ${cursorBar.barIndex + 1} · pass ${cursorBar.pass}` : '–'}</div>
+                        {lastSnap && <div>Snap: {lastSnap}</div>}
                     </div>
                 </div>
             </div>
@@ -584,44 +1100,72 @@ export default function AlphaTabLabsPage() {
                 background: '#e8f5e9', border: '2px solid #4caf50',
                 padding: '15px', marginBottom: '20px', borderRadius: '8px',
             }}>
-                <h2 style={{ margin: '0 0 10px 0' }}>🎸 v5.30 — Stable Repeat + Loop Cursor Engine</h2>
+                <h2 style={{ margin: '0 0 10px 0' }}>🎸 v5.55 — Rest Between Repetitions</h2>
                 <div style={{ fontSize: '13px', lineHeight: '1.6' }}>
                     ✅ <strong>Smooth walk</strong> — no stepping, no drift<br />
-                    ✅ <strong>Repeat-aware</strong> — masterBars occurrence traversal<br />
-                    ✅ <strong>O(1) per frame</strong> — both scans gated by isSameBeat()<br />
-                    ✅ <strong>Zero-hiccup</strong> loop wrapping at boundaries
+                    ✅ <strong>Repeat-aware</strong> — precomputed expanded timeline<br />
+                    ✅ <strong>Volta + jump aware</strong> — alternate endings, D.S./D.C. al Coda, Fine<br />
+                    ✅ <strong>O(log n) per frame</strong> — binary search, no findBeat scans<br />
+                    ✅ <strong>Zero-hiccup</strong> loop wrapping at boundaries<br />
+                    ✅ <strong>Record / replay</strong> — cursor regressions checked against real streams<br />
+                    ✅ <strong>Cursor skins</strong> — teardrop, thin line, high contrast; switchable live<br />
+                    ✅ <strong>Per-track cursors</strong> — one cursor per stacked staff, lockstep on the shared tick<br />
+                    ✅ <strong>Follow-scroll</strong> — keeps your place on multi-page scores, pauses during loop drags<br />
+                    ✅ <strong>Note-head highlight</strong> — sounding notes lit, let-ring / ties outlined, repeat-aware<br />
+                    ✅ <strong>Latency compensation</strong> — cursor waits for Bluetooth audio; tap-along calibration per device<br />
+                    ✅ <strong>Line-break transition</strong> — ghost / fade at system ends instead of a hard right-to-left jump<br />
+                    ✅ <strong>Multi-instance</strong> — scores side by side, own cursor / loop / seek each (<a href="/multi">/multi</a>)<br />
+                    ✅ <strong>Cursor events</strong> — beatEntered / barEntered / passChanged / loopWrapped, typed<br />
+                    ✅ <strong>Score geometry</strong> — one tick ↔ pixel service for cursor, loops and click-to-seek<br />
+                    ✅ <strong>Loop controller</strong> — one headless loop; bar / beat / liquid / grid (1/4, 1/8, 1/16, 1/8T) drag snap; resize by the edge handles; [ ] A-B + arrow-key editing; pre-roll + count-in; rest between repetitions<br />
+                    ✅ <strong>Saved loops</strong> — named per score, survive reloads; JSON export / import for lessons<br />
+                    ✅ <strong>Tempo trainer</strong> — start slow, a step faster every N clean repetitions up to the target<br />
+                    ✅ <strong>Auto-advance</strong> — N repetitions, then the loop moves on to the next chunk by itself<br />
+                    ✅ <strong>Section navigator</strong> — loop or play any Guitar Pro section, per repeat pass<br />
+                    ✅ <strong>Touch</strong> — tap to seek, long-press + drag to loop; scrolling never selects<br />
+                    ✅ <strong>Practice playlist</strong> — queued loop regions with their own reps and speed, played in sequence
                 </div>
             </div>
 
+            {apiRef.current && surfaceReady && (
+                <SavedLoopsPanel
+                    api={apiRef.current}
+                    scoreHash={scoreHash}
+                    scoreTitle={apiRef.current.score?.title || sampleId}
+                    currentRange={persistedLoop}
+                    boundsEpoch={boundsEpoch}
+                    onRecall={handleRecallLoop}
+                />
+            )}
+
+            {apiRef.current && surfaceReady && (
+                <SectionNavigator
+                    key={sampleId}
+                    api={apiRef.current}
+                    currentRange={persistedLoop}
+                    boundsEpoch={boundsEpoch}
+                    onLoop={handleLoopSection}
+                    onPlayFrom={handlePlaySection}
+                />
+            )}
+
             <div ref={containerRef} style={{
                 position: 'relative', width: '100%',
                 minHeight: '600px', background: '#fff', overflow: 'visible',
             }}>
-                {apiRef.current && surfaceReady && (
-                    <BeatCustomLoopOverlay
+                {apiRef.current && loopRef.current && surfaceReady && (
+                    <LoopOverlay
+                        key={sampleId}
                         api={apiRef.current}
-                        loopEnabled={loopEnabled}
-                        onLoopToggle={(enabled) => {
-                            setLoopEnabled(enabled);
-                            loopEnabledRef.current = enabled;
-                            const api = apiRef.current;
-                            if (!api) return;
-                            if (enabled) {
-                                api.isLooping = true;
-                            } else {
-                                disableManualLoop();
-                                api.isLooping = false;
-                                api.playbackRange = null;
-                            }
-                        }}
-                        onLoopChange={(startTick, endTick) => {
-                            setPersistedLoop({ startTick, endTick });
-                        }}
-                        onLoopClear={() => {
-                            setPersistedLoop(null);
-                        }}
+                        controller={loopRef.current}
+                        controls
+                        cursorTick={() => visualTick(apiRef.current?.tickPosition ?? 0)}
+                        regions={playlistRegions}
                     />
                 )}
+                {restRef.current && loopRef.current && surfaceReady && (
+                    <LoopRestCountdown key={sampleId} rest={restRef.current} controller={loopRef.current} />
+                )}
             </div>
         </div>
     );
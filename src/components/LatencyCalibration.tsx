@@ -0,0 +1,157 @@
+'use client';
+
+/**
+ * LatencyCalibration v1.0 — Tap-Along Output Latency Measurement
+ * Date: March 5th, 2026
+ *
+ * Plays CLICK_COUNT clicks through a Web Audio context on the same output
+ * device alphaTab uses (setSinkId where supported) and records taps
+ * (button / Space). People tap on what they HEAR, so the median
+ * tap − scheduled-click delta is the output latency of the device.
+ *
+ * The math lives in LatencyCompensation.estimateLatency (headless); this
+ * component only schedules clicks and collects timestamps.
+ *
+ * ⚠️ Measures the device path (driver + Bluetooth). alphaTab's own synth buffer
+ *    adds a little on top — fine-tune with the ms input if the cursor still leads.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CalibrationResult, DEFAULT_DEVICE_ID, MAX_LATENCY_MS, estimateLatency } from '../lib/LatencyCompensation';
+
+const CLICK_COUNT = 12;
+const CLICK_INTERVAL_MS = 600; // 100 BPM — easy to tap along to
+const LEAD_IN_MS = 500;
+// Jitter above this means the taps were not locked to the clicks.
+const MAX_RELIABLE_JITTER_MS = 40;
+
+/** AudioContext.setSinkId — Chromium only, not in lib.dom yet. */
+interface SinkableAudioContext extends AudioContext {
+    setSinkId?(id: string): Promise<void>;
+}
+
+/** Safari < 14.1 only exposes the prefixed constructor. */
+interface WebkitAudioWindow extends Window {
+    webkitAudioContext?: typeof AudioContext;
+}
+
+interface Props {
+    /** Output device to calibrate — profiles are stored per device. */
+    deviceId: string;
+    onCalibrated: (result: CalibrationResult) => void;
+}
+
+type Phase = 'idle' | 'running' | 'done';
+
+export default function LatencyCalibration({ deviceId, onCalibrated }: Props) {
+    const [phase, setPhase] = useState<Phase>('idle');
+    const [tapCount, setTapCount] = useState(0);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const clicksRef = useRef<number[]>([]);
+    const tapsRef = useRef<number[]>([]);
+    const contextRef = useRef<AudioContext | null>(null);
+    const finishTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Ref — finish() runs from a timer, the prop may change.
+    const onCalibratedRef = useRef(onCalibrated);
+    onCalibratedRef.current = onCalibrated;
+
+    const stopAudio = () => {
+        if (finishTimerRef.current) clearTimeout(finishTimerRef.current);
+        finishTimerRef.current = null;
+        contextRef.current?.close().catch(() => {});
+        contextRef.current = null;
+    };
+
+    useEffect(() => stopAudio, []);
+
+    const finish = () => {
+        stopAudio();
+        const result = estimateLatency(clicksRef.current, tapsRef.current);
+        setPhase('done');
+        if (!result) {
+            setMessage('❌ Not enough taps on the clicks — try again');
+            return;
+        }
+        if (result.jitterMs > MAX_RELIABLE_JITTER_MS) {
+            setMessage(`⚠️ Taps too uneven (±${result.jitterMs}ms) — try again`);
+            return;
+        }
+        setMessage(`✅ ${result.latencyMs}ms (±${result.jitterMs}ms, ${result.samples} taps)`);
+        onCalibratedRef.current(result);
+    };
+
+    const start = async () => {
+        const Ctor = window.AudioContext ?? (window as WebkitAudioWindow).webkitAudioContext;
+        if (!Ctor) { setMessage('❌ Web Audio not available'); return; }
+        stopAudio();
+        const ctx: SinkableAudioContext = new Ctor();
+        contextRef.current = ctx;
+        if (deviceId !== DEFAULT_DEVICE_ID && ctx.setSinkId) {
+            await ctx.setSinkId(deviceId).catch(() => {});
+        }
+        await ctx.resume();
+
+        // Audio clock → performance.now() clock (taps use event.timeStamp).
+        const perfAtStart = performance.now();
+        const ctxAtStart = ctx.currentTime;
+        const clicks: number[] = [];
+        for (let i = 0; i < CLICK_COUNT; i++) {
+            const at = ctxAtStart + (LEAD_IN_MS + i * CLICK_INTERVAL_MS) / 1000;
+            scheduleClick(ctx, at, i % 4 === 0);
+            clicks.push(perfAtStart + (at - ctxAtStart) * 1000);
+        }
+        clicksRef.current = clicks;
+        tapsRef.current = [];
+        setTapCount(0);
+        setMessage(null);
+        setPhase('running');
+        finishTimerRef.current = setTimeout(finish, LEAD_IN_MS + (CLICK_COUNT - 1) * CLICK_INTERVAL_MS + MAX_LATENCY_MS);
+    };
+
+    const tap = (timeStamp: number) => {
+        if (phase !== 'running') return;
+        tapsRef.current.push(timeStamp);
+        setTapCount(tapsRef.current.length);
+    };
+
+    // Space taps — easier to keep steady than mouse clicks.
+    useEffect(() => {
+        if (phase !== 'running') return;
+        const onKey = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || e.repeat) return;
+            e.preventDefault();
+            tap(e.timeStamp);
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    });
+
+    return (
+        <div style={{ fontSize: '11px', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {phase === 'running' ? (
+                <button onPointerDown={(e) => tap(e.timeStamp)} style={{
+                    padding: '8px', fontSize: '12px', cursor: 'pointer',
+                    background: '#ff9800', color: 'white', border: 'none', borderRadius: '4px',
+                }}>👆 Tap on each click (or Space) — {tapCount}</button>
+            ) : (
+                <button onClick={() => { start().catch(console.error); }} style={{
+                    padding: '6px', fontSize: '11px', cursor: 'pointer',
+                    background: '#795548', color: 'white', border: 'none', borderRadius: '4px',
+                }}>🎧 Calibrate latency (tap along)</button>
+            )}
+            {message && <div>{message}</div>}
+        </div>
+    );
+}
+
+function scheduleClick(ctx: AudioContext, at: number, accent: boolean): void {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = accent ? 1500 : 1000;
+    gain.gain.setValueAtTime(0.6, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + 0.05);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(at);
+    osc.stop(at + 0.06);
+}
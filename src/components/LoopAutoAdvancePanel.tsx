@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * LoopAutoAdvancePanel v1.0 — Auto-Advance Controls
+ * Date: March 5th, 2026
+ *
+ * Repeats per chunk, advance mode, On/Off and the readout (repetition of
+ * this chunk, chunks done). Logic lives in LoopAutoAdvance (src/lib).
+ */
+
+import React, { useEffect, useState } from 'react';
+import { LOOP_ADVANCE_MODES, LoopAdvanceMode, LoopAutoAdvance, LoopAutoAdvanceState } from '../lib/LoopAutoAdvance';
+
+interface Props {
+    advance: LoopAutoAdvance;
+    /** A loop range is set — nothing to advance otherwise. */
+    loopActive: boolean;
+}
+
+export default function LoopAutoAdvancePanel({ advance, loopActive }: Props) {
+    const [state, setState] = useState<LoopAutoAdvanceState>(advance.state);
+
+    useEffect(() => {
+        setState(advance.state);
+        return advance.on('progress', setState);
+    }, [advance]);
+
+    const canStart = state.active || loopActive;
+
+    return (
+        <div style={{ fontSize: '11px', padding: '6px', border: '1px solid #ddd', borderRadius: '4px' }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>⏭️ Auto-advance</div>
+            <label>
+                Play{' '}
+                <input
+                    type="number"
+                    min={1}
+                    max={99}
+                    value={state.repeats}
+                    onChange={(e) => { if (Number(e.target.value) > 0) advance.configure({ repeats: Number(e.target.value) }); }}
+                    style={{ width: '42px', fontSize: '11px' }}
+                />{' '}
+                ×, then{' '}
+            </label>
+            <select
+                value={state.mode}
+                onChange={(e) => advance.configure({ mode: e.target.value as LoopAdvanceMode })}
+                style={{ fontSize: '11px', fontFamily: 'monospace' }}
+            >
+                {LOOP_ADVANCE_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            </select>
+            <button
+                onClick={() => (state.active ? advance.stop() : advance.start())}
+                disabled={!canStart}
+                title={loopActive ? undefined : 'Set a loop first'}
+                style={{
+                    width: '100%', marginTop: '6px', padding: '6px', fontSize: '11px',
+                    color: 'white', border: 'none', borderRadius: '4px',
+                    cursor: canStart ? 'pointer' : 'not-allowed',
+                    background: state.active ? '#f44336' : canStart ? '#3f51b5' : '#ccc',
+                }}
+            >{state.active ? '⏹️ Stop auto-advance' : '▶️ Start auto-advance'}</button>
+            {state.active && (
+                <div style={{ marginTop: '6px' }}>
+                    Rep {Math.min(state.repetition + 1, state.repeats)}/{state.repeats} · {state.advanced} chunk{state.advanced === 1 ? '' : 's'} done
+                    {state.finished ? ' · end of score ✅' : ''}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,411 @@
+'use client';
+
+/**
+ * LoopOverlay v1.4 — Thin Renderer for LoopController
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.4: `regions` — extra ranges painted in their own colour (practice
+ *    playlist), same controller.highlightRects geometry. The active region
+ *    is the loop: its rects take the region colour with a heavier border;
+ *    queued ones are faint and dashed.
+ *
+ * 🔥 V1.3: Pointer Events (mouse, pen, touch — iPad). Touch starts a loop on
+ *    long-press (ScorePointer.TouchPressTracker); a quick move is a native
+ *    scroll and a second finger drops the gesture. Pointer capture keeps a
+ *    drag that leaves the surface alive until it is released, and
+ *    pointercancel cancels instead of committing.
+ *
+ * 🔥 V1.2: keyboard loop editing — [ / ] A-B points, \ toggles the active
+ *    edge, Shift+arrows nudge it, Alt+arrows move the loop (LoopKeyboard).
+ *    Same ownership as Escape: the overlay pressed last gets the keys. A
+ *    pending A point is drawn as a marker; the active edge's handle is
+ *    emphasised.
+ *
+ * 🔥 V1.1: grab handles on the loop's start / end edges
+ *    (controller.edgeHandles). pointerdown on a handle → beginResize; the
+ *    handle captures the pointer and the window pointermove / pointerup /
+ *    pointercancel listeners below drive it like any other gesture.
+ *
+ * Replaces CustomLoopOverlay v2.11 + BeatCustomLoopOverlay v1.7.10. All loop
+ * logic (intent gate, snapping, passes, playbackRange, wrap) lives in the
+ * headless LoopController (src/lib). This component only:
+ *   - feeds pointer events on THIS surface to the controller (clientToScore)
+ *   - paints controller.highlightRects() on changed / preview
+ *   - rebuilds rects after renderFinished (double RAF — layout settles first)
+ *   - Escape clears the loop of the overlay pressed last (v2.11 ownership)
+ *   - optional 🔁 / 🧹 buttons (controls)
+ *
+ * 🔒 No setState in the pointerdown path — rects appear on the first preview
+ *    (beat crossed) or on commit. No single-beat flash (v1.7.5 zero fan-out).
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AdapterBounds, AlphaTabAdapter, surfaceOf } from '../lib/AlphaTabAdapter';
+import type { LoopController, LoopEdgeHandle } from '../lib/LoopController';
+import type { LoopRange } from '../lib/LoopSnap';
+import { isEditableTarget, loopKeyCommand, runLoopKeyCommand } from '../lib/LoopKeyboard';
+import { clientToScore } from '../lib/ScoreGeometry';
+import { LONG_PRESS_MS, TouchPressTracker } from '../lib/ScorePointer';
+
+interface Props {
+    api: AlphaTabAdapter;
+    controller: LoopController;
+    /** Scopes the .at-surface lookup (multi-instance pages). */
+    container?: HTMLElement | null;
+    /** Render the fixed Loop ON/OFF + Clear buttons. */
+    controls?: boolean;
+    /** Tick for [ / ] — the one the player hears. Default api.tickPosition. */
+    cursorTick?: () => number;
+    /** Coloured ranges under the loop (PracticePlaylist regions). */
+    regions?: LoopOverlayRegion[];
+}
+
+export interface LoopOverlayRegion {
+    range: LoopRange;
+    color: string;
+    /** Playing now — drawn as the loop itself. */
+    active: boolean;
+}
+
+/** '#rrggbb' + alpha → rgba(). */
+function withAlpha(hex: string, alpha: number): string {
+    const n = parseInt(hex.slice(1), 16);
+    return `rgba(${(n >> 16) & 255}, ${(n >> 8) & 255}, ${n & 255}, ${alpha})`;
+}
+
+function sameRange(a: LoopRange | null, b: LoopRange): boolean {
+    return a != null && a.startTick === b.startTick && a.endTick === b.endTick;
+}
+
+// Overlay instance that owns Escape — the last one whose surface was pressed.
+// Module-level on purpose: "last pressed" is a page-wide fact.
+let keyboardOwner: object | null = null;
+
+// Grab area around the edge; the visible grip is 4px.
+const HANDLE_W = 12;
+
+export default function LoopOverlay({ api, controller, container, controls = false, cursorTick, regions }: Props) {
+    const ownerToken = useRef({});
+    const [rects, setRects] = useState<AdapterBounds[]>([]);
+    const [handles, setHandles] = useState<LoopEdgeHandle[]>([]);
+    const [marker, setMarker] = useState<LoopEdgeHandle | null>(null);
+    // Ref — the key listener is bound once per controller, the prop may change.
+    const cursorTickRef = useRef(cursorTick);
+    cursorTickRef.current = cursorTick;
+    const [enabled, setEnabled] = useState(controller.enabled);
+    const [regionRects, setRegionRects] = useState<{ color: string; rects: AdapterBounds[] }[]>([]);
+    const [activeColor, setActiveColor] = useState<string | null>(null);
+    const regionsRef = useRef(regions);
+    regionsRef.current = regions;
+
+    // ─────────────────────────────────────────
+    // Controller → rects
+    // ─────────────────────────────────────────
+
+    // Active region = the loop's own rects in the region colour; the rest are drawn here.
+    const paintRegions = () => {
+        const list = regionsRef.current ?? [];
+        const active = list.find(r => r.active && sameRange(controller.range, r.range));
+        setActiveColor(active?.color ?? null);
+        setRegionRects(list
+            .filter(r => r !== active)
+            .map(r => ({ color: r.color, rects: controller.highlightRects(r.range) })));
+    };
+
+    useEffect(paintRegions, [controller, regions]);
+
+    useEffect(() => {
+        const paint = () => {
+            setRects(controller.highlightRects());
+            setHandles(controller.edgeHandles());
+            setMarker(controller.pendingInMarker());
+            paintRegions();
+        };
+        paint();
+        setEnabled(controller.enabled);
+        const offChanged = controller.on('changed', (e) => {
+            setEnabled(e.enabled);
+            paint();
+        });
+        const offPreview = controller.on('preview', paint);
+        const offMarked = controller.on('marked', paint);
+        const offEdge = controller.on('edge', paint);
+        return () => { offChanged(); offPreview(); offMarked(); offEdge(); };
+    }, [controller]);
+
+    // Re-render (resize, zoom, dev tools) — every coordinate moved.
+    // Frame 1: DOM resized, alphaTab reflows. Frame 2: boundsLookup is final.
+    useEffect(() => {
+        let frame = 0;
+        const handleRenderFinished = () => {
+            cancelAnimationFrame(frame);
+            frame = requestAnimationFrame(() => {
+                frame = requestAnimationFrame(() => {
+                    const next = controller.highlightRects();
+                    // Transitional geometry yields zero-width rects — keep the old ones.
+                    if (next.every(r => r.w > 0)) {
+                        setRects(next);
+                        setHandles(controller.edgeHandles());
+                        setMarker(controller.pendingInMarker());
+                        paintRegions();
+                    }
+                });
+            });
+        };
+        const dispose = api.renderer.renderFinished.on(handleRenderFinished);
+        return () => { cancelAnimationFrame(frame); dispose(); };
+    }, [api, controller]);
+
+    // ─────────────────────────────────────────
+    // Pointer → controller
+    // ─────────────────────────────────────────
+
+    useEffect(() => {
+        // 🔒 Scoped to THIS instance — never document.querySelector.
+        const surface = (container?.querySelector('.at-surface') as HTMLElement | null) ?? surfaceOf(api);
+        if (!surface) { console.error('❌ LoopOverlay: .at-surface not found'); return; }
+
+        const touch = new TouchPressTracker();
+        let pressTimer: ReturnType<typeof setTimeout> | null = null;
+        const stopPressTimer = () => {
+            if (pressTimer) clearTimeout(pressTimer);
+            pressTimer = null;
+        };
+        // Drag leaving the surface (or the window) still ends on this surface.
+        const capture = (pointerId: number) => {
+            try { surface.setPointerCapture(pointerId); } catch { /* pointer already gone */ }
+        };
+
+        const onDown = (e: PointerEvent) => {
+            keyboardOwner = ownerToken.current;
+            if (e.pointerType === 'touch') {
+                if (touch.down(e.pointerId, e.clientX, e.clientY) === 'scroll') {
+                    // Two fingers — scroll / pinch, never a selection.
+                    stopPressTimer();
+                    controller.cancelGesture();
+                    return;
+                }
+                const { x, y } = clientToScore(surface, e);
+                const pointerId = e.pointerId;
+                stopPressTimer();
+                pressTimer = setTimeout(() => {
+                    pressTimer = null;
+                    if (!touch.longPress()) return;
+                    if (controller.pointerDown(x, y, e.clientX, e.clientY)) capture(pointerId);
+                }, LONG_PRESS_MS);
+                return;
+            }
+            if (e.button !== 0) return;
+            const { x, y } = clientToScore(surface, e);
+            if (controller.pointerDown(x, y, e.clientX, e.clientY)) {
+                capture(e.pointerId);
+                e.preventDefault();
+            }
+        };
+        const onMove = (e: PointerEvent) => {
+            if (e.pointerType === 'touch' && !controller.resizing) {
+                const forLoop = touch.move(e.pointerId, e.clientX, e.clientY);
+                if (touch.phase === 'scroll') stopPressTimer();
+                if (!forLoop) return;
+            }
+            if (!controller.gestureActive) return;
+            const { x, y } = clientToScore(surface, e);
+            controller.pointerMove(x, y);
+        };
+        const onUp = (e: PointerEvent) => {
+            if (e.pointerType === 'touch') {
+                const phase = touch.up(e.pointerId);
+                stopPressTimer();
+                // Resize handles are touch too — they never went through the tracker.
+                if (phase !== 'loop' && !controller.resizing) return;
+            }
+            controller.pointerUp(e.clientX, e.clientY);
+        };
+        const onCancel = (e: PointerEvent) => {
+            if (e.pointerType === 'touch') {
+                // Another finger's scroll ending — not our gesture.
+                if (touch.up(e.pointerId) === 'idle' && !controller.resizing) return;
+                stopPressTimer();
+            }
+            controller.cancelGesture();
+        };
+        // Once a touch loop gesture runs, the finger must not scroll the page.
+        const onTouchMove = (e: TouchEvent) => {
+            if (touch.phase === 'loop' || controller.resizing) e.preventDefault();
+        };
+        // Android's long-press menu / iOS callout.
+        const onContextMenu = (e: Event) => {
+            if (touch.phase === 'pressing' || touch.phase === 'loop') e.preventDefault();
+        };
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (isEditableTarget(e.target)) return;
+            if (keyboardOwner && keyboardOwner !== ownerToken.current) return;
+            const command = loopKeyCommand(e);
+            if (!command) return;
+            e.preventDefault(); // Alt+← is "back" in most browsers
+            runLoopKeyCommand(controller, command, cursorTickRef.current?.() ?? api.tickPosition ?? 0);
+        };
+
+        // Pan + pinch stay native; no double-tap zoom, no text-selection callout on hold.
+        const previousStyle = surface.style.cssText;
+        surface.style.touchAction = 'manipulation';
+        surface.style.userSelect = 'none';
+        surface.style.setProperty('-webkit-user-select', 'none');
+        surface.style.setProperty('-webkit-touch-callout', 'none');
+
+        surface.addEventListener('pointerdown', onDown);
+        surface.addEventListener('touchmove', onTouchMove, { passive: false });
+        surface.addEventListener('contextmenu', onContextMenu);
+        window.addEventListener('pointermove', onMove);
+        window.addEventListener('pointerup', onUp);
+        window.addEventListener('pointercancel', onCancel);
+        window.addEventListener('keydown', onKeyDown);
+        return () => {
+            stopPressTimer();
+            surface.style.cssText = previousStyle;
+            surface.removeEventListener('pointerdown', onDown);
+            surface.removeEventListener('touchmove', onTouchMove);
+            surface.removeEventListener('contextmenu', onContextMenu);
+            window.removeEventListener('pointermove', onMove);
+            window.removeEventListener('pointerup', onUp);
+            window.removeEventListener('pointercancel', onCancel);
+            window.removeEventListener('keydown', onKeyDown);
+            if (keyboardOwner === ownerToken.current) keyboardOwner = null;
+        };
+    }, [api, controller, container]);
+
+    // Handles sit outside .at-surface — their pointerdown never starts a new loop.
+    // Touch grabs a handle at once (touch-action: none) — it is an explicit grip.
+    const onHandleDown = (e: React.PointerEvent, handle: LoopEdgeHandle) => {
+        keyboardOwner = ownerToken.current;
+        if (e.button !== 0) return;
+        if (controller.beginResize(handle.edge)) {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            e.preventDefault();
+            e.stopPropagation();
+        }
+    };
+
+    // ─────────────────────────────────────────
+    // Render
+    // ─────────────────────────────────────────
+
+    return (
+        <>
+            <style>{`
+                .loop-highlight {
+                    position: absolute;
+                    background: rgba(33, 150, 243, 0.25);
+                    border: 2px solid rgba(33, 150, 243, 0.65);
+                    pointer-events: none;
+                    z-index: 900;
+                    box-sizing: border-box;
+                    transition: none !important;
+                }
+                .loop-region {
+                    position: absolute;
+                    border: 2px dashed;
+                    pointer-events: none;
+                    z-index: 899;
+                    box-sizing: border-box;
+                }
+                .loop-handle {
+                    position: absolute;
+                    width: ${HANDLE_W}px;
+                    cursor: ew-resize;
+                    touch-action: none;
+                    z-index: 901;
+                    display: flex;
+                    justify-content: center;
+                }
+                .loop-handle::after {
+                    content: '';
+                    width: 4px;
+                    height: 100%;
+                    border-radius: 2px;
+                    background: rgba(33, 150, 243, 0.9);
+                    opacity: 0.6;
+                }
+                .loop-handle:hover::after, .loop-handle.active::after { opacity: 1; }
+                .loop-marker {
+                    position: absolute;
+                    width: 2px;
+                    background: rgba(33, 150, 243, 0.9);
+                    pointer-events: none;
+                    z-index: 901;
+                }
+                .loop-marker::before {
+                    content: 'A';
+                    position: absolute;
+                    top: -14px;
+                    left: -4px;
+                    font: bold 11px monospace;
+                    color: rgba(33, 150, 243, 1);
+                }
+            `}</style>
+
+            {regionRects.map((region, i) => region.rects.map((r, j) => (
+                <div key={`${i}-${j}`} className="loop-region" style={{
+                    left: r.x, top: r.y, width: r.w, height: r.h,
+                    background: withAlpha(region.color, 0.12),
+                    borderColor: withAlpha(region.color, 0.7),
+                }} />
+            )))}
+
+            {rects.map((r, i) => (
+                <div key={i} className="loop-highlight" style={{
+                    left: r.x, top: r.y, width: r.w, height: r.h,
+                    ...(activeColor && {
+                        background: withAlpha(activeColor, 0.28),
+                        border: `3px solid ${activeColor}`,
+                    }),
+                }} />
+            ))}
+
+            {enabled && handles.map(h => (
+                <div
+                    key={h.edge}
+                    className={h.edge === controller.activeEdge ? 'loop-handle active' : 'loop-handle'}
+                    title={h.edge === 'start' ? 'Drag to move the loop start' : 'Drag to move the loop end'}
+                    onPointerDown={(e) => onHandleDown(e, h)}
+                    style={{ left: h.x - HANDLE_W / 2, top: h.y, height: h.h }}
+                />
+            ))}
+
+            {marker && (
+                <div className="loop-marker" style={{ left: marker.x - 1, top: marker.y, height: marker.h }} />
+            )}
+
+            {controls && (
+                <div style={{
+                    position: 'fixed', bottom: 20, right: 20,
+                    display: 'flex', gap: '10px', zIndex: 10001,
+                }}>
+                    <button
+                        onClick={() => controller.setEnabled(!enabled)}
+                        style={{
+                            padding: '10px 15px', fontSize: '14px', cursor: 'pointer',
+                            background: enabled ? '#4caf50' : '#ff9800',
+                            color: 'white', border: 'none', borderRadius: '4px', fontWeight: 'bold',
+                        }}
+                    >
+                        {enabled ? '🔁 Loop: ON' : '🔁 Loop: OFF'}
+                    </button>
+
+                    <button
+                        onClick={() => controller.clear()}
+                        disabled={!enabled}
+                        style={{
+                            padding: '10px 15px', fontSize: '14px',
+                            cursor: enabled ? 'pointer' : 'not-allowed',
+                            background: enabled ? '#f44336' : '#ccc',
+                            color: 'white', border: 'none', borderRadius: '4px', fontWeight: 'bold',
+                        }}
+                    >
+                        🧹 Clear
+                    </button>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+/**
+ * LoopRestCountdown v1.0 — Rest Between Repetitions, Visible
+ * Date: March 5th, 2026
+ *
+ * While LoopRest pauses between repetitions: a "⏸️ 3" badge on the loop's
+ * first highlight rect (controller.highlightRects — same coordinates as
+ * LoopOverlay, so it renders inside the score container) and a bar that
+ * drains until playback resumes. Nothing is rendered outside a rest.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { AdapterBounds } from '../lib/AlphaTabAdapter';
+import type { LoopController } from '../lib/LoopController';
+import type { LoopRest, LoopRestEvent } from '../lib/LoopRest';
+
+interface Props {
+    rest: LoopRest;
+    controller: LoopController;
+}
+
+// Redraw rate of the remaining time — a tenth of a second is smooth enough.
+const TICK_MS = 100;
+
+export default function LoopRestCountdown({ rest, controller }: Props) {
+    const [state, setState] = useState<LoopRestEvent | null>(null);
+    const [anchor, setAnchor] = useState<AdapterBounds | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => rest.on('rest', (e) => {
+        setState(e.active ? e : null);
+        setAnchor(e.active ? controller.highlightRects(controller.range)[0] ?? null : null);
+        setNow(Date.now());
+    }), [rest, controller]);
+
+    useEffect(() => {
+        if (!state) return;
+        const id = setInterval(() => setNow(Date.now()), TICK_MS);
+        return () => clearInterval(id);
+    }, [state]);
+
+    if (!state || !anchor) return null;
+
+    const remainingMs = Math.max(0, state.endsAt - now);
+    const fraction = state.totalMs > 0 ? remainingMs / state.totalMs : 0;
+
+    return (
+        <div style={{
+            position: 'absolute', left: anchor.x, top: Math.max(0, anchor.y - 34),
+            minWidth: '64px', padding: '4px 8px', zIndex: 902, pointerEvents: 'none',
+            background: 'rgba(33, 33, 33, 0.85)', color: 'white', borderRadius: '4px',
+            font: 'bold 14px monospace', textAlign: 'center',
+        }}>
+            ⏸️ {Math.ceil(remainingMs / 1000)}
+            <div style={{ height: '3px', marginTop: '3px', background: 'rgba(255, 255, 255, 0.25)' }}>
+                <div style={{ height: '100%', width: `${fraction * 100}%`, background: '#4caf50' }} />
+            </div>
+        </div>
+    );
+}
@@ -1,14 +1,64 @@
 'use client';
 
 /**
- * MaestroCursor v4.5 — Production Master
+ * MaestroCursor v5.0 — Typed Events
  * ⚠️ API VERSION: setTick(tick, nextBeat?, overrideBeatStart?) — THREE args
  * page.tsx must call: cursor.setTick(authorityTick, nextBeat, expandedBeatStart)
  *
- * Date: February 22nd, 2026
+ * Date: March 5th, 2026
  *
  * 🔒🔒🔒 CURSOR ENGINE LOCK — DO NOT SIMPLIFY 🔒🔒🔒
  *
+ * 🔥 V5.0 CHANGES:
+ * ✅ on(type, handler) / off() — typed events (src/lib/CursorEvents.ts):
+ *    beatEntered, barEntered, passChanged, loopWrapped. Payloads carry
+ *    expanded ticks, master bar index and 1-based pass.
+ * ✅ requestSnap(reason?) — 'loop' (enforcer) or 'jump' (jump detection),
+ *    reported by the next setTick() as loopWrapped. Default 'jump'.
+ * ✅ Events are derived at beat ENTRY only (first setTick after setBeat, when
+ *    the expanded beat start is known) — one timeline findBar per beat. The
+ *    per-frame path is unchanged; no walk state is read back from handlers.
+ *
+ * 🔥 V4.9 — Multi-Instance Safe
+ * 🔥 V4.9 CHANGES:
+ * ✅ Element id is unique per cursor (maestro-cursor-v4-<n>) — v4.8 gave every
+ *    cursor id "maestro-cursor-v4", so two scores (or per-track cursors) on one
+ *    page produced duplicate DOM ids. The skin's SVG filter id is unique per
+ *    render for the same reason (CursorSkin).
+ *
+ * 🔥 V4.8 — Cross-System Transition
+ * 🔥 V4.8 CHANGES:
+ * ✅ options.transition / setTransition(): optional line-break transition when
+ *    the next EXPANDED beat (setTick's nextBeat arg) sits on another row.
+ *      'off'   — v4.7: walk to the barline, snap to the next row (default)
+ *      'ghost' — a faint copy of the cursor fades in on the next row's first
+ *                note head during the last 20% of the beat
+ *      'fade'  — the cursor fades out at the barline and back in on the new row
+ * ✅ Mode B only, read-only: crossRowTarget is resolved like nextBeatCenterX
+ *    (set-if-null, cleared only by setBeat()/requestSnap()) and never writes
+ *    walk state — no mid-beat mode switch (v4.3.5), interpolation untouched.
+ * ✅ Hidden while paused — the pause clamp parks on the note head, no ghost.
+ *
+ * 🔥 V4.7 — Pluggable Skins
+ * 🔥 V4.7 CHANGES:
+ * ✅ CursorSkin (src/lib/CursorSkin.ts) supplies width, overhangs, colors and SVG.
+ *    renderSVG() delegates to skin.render(). MAESTRO_SKIN is the v3.3 look — same
+ *    coordinates and colors: 14px teardrop, white dot, drop shadow.
+ * ✅ setSkin(skin) at runtime — re-renders in place and keeps the cursor centred
+ *    on the same note head. No re-attach, no walk state touched.
+ * ✅ Debug label is opt-in: options.debugLabel / setDebugLabel(). Off by default.
+ *    The label is its own layer — skin re-renders no longer wipe it.
+ *
+ * 🔥 V4.6 CHANGES:
+ * ✅ api typed as AlphaTabAdapter (src/lib/AlphaTabAdapter.ts).
+ * ✅ PAUSE CLAMP FIX: v4.5 read `api.player.isPlaying`, which IAlphaSynth does
+ *    not have → always undefined → isPlaying was always false and the clamp
+ *    also fired DURING playback at progress ≥ 0.999. Now reads
+ *    `api.playerState !== 0` (PlayerState.Paused = 0). Clamp math unchanged.
+ * ✅ Element is created via container.ownerDocument — a stub container lets
+ *    FakeAlphaTab tests construct the cursor in Node.
+ * ✅ getPosition(): last applied cursor X/Y (note-head centre) for tests/tools.
+ *
  * 🔥 V4.5 CHANGES:
  * ✅ PAUSE CLAMP: When playback is stopped and progress >= 0.999, interpolatedX
  *    is clamped to currentNoteX instead of walking to the barline.
@@ -76,25 +126,52 @@
  *   page.tsx → NEVER computes interpolation math
  */
 
-interface Beat {
-    absolutePlaybackStart?: number;
-    playbackStart?: number;
-    playbackDuration?: number;
-    duration?: number;
-    nextBeat?: Beat | null;
-    voice?: any;
-    [key: string]: any;
+import type { AlphaTabAdapter, AdapterBeat } from '../lib/AlphaTabAdapter';
+import { CursorSkin, MAESTRO_SKIN } from '../lib/CursorSkin';
+import { getExpandedTimeline } from '../lib/ExpandedTimeline';
+import {
+    CursorBarInfo, CursorEventEmitter, CursorEventHandler, CursorEventType, SnapReason,
+} from '../lib/CursorEvents';
+
+type Beat = AdapterBeat & { duration?: number };
+
+export type CrossSystemTransition = 'off' | 'ghost' | 'fade';
+
+export const CROSS_SYSTEM_TRANSITIONS: { id: CrossSystemTransition; label: string }[] = [
+    { id: 'off', label: 'Snap' },
+    { id: 'ghost', label: 'Ghost on next row' },
+    { id: 'fade', label: 'Fade out / in' },
+];
+
+export interface MaestroCursorOptions {
+    /** Defaults to MAESTRO_SKIN (v3.3 look). */
+    skin?: CursorSkin;
+    /** Red X / progress label above the cursor. Off by default. */
+    debugLabel?: boolean;
+    /** Line-break transition. Off by default (v4.7 snap). */
+    transition?: CrossSystemTransition;
 }
 
+// Unique element ids across every cursor on the page (v4.9).
+let cursorSeq = 0;
+
+// Transition runs over the last 20% of the beat before the line break.
+const TRANSITION_START = 0.8;
+const GHOST_MAX_OPACITY = 0.6;
+const FADE_MIN_OPACITY = 0.3;
+
 export class MaestroCursor {
     private element: HTMLElement;
-    private api: any;
+    private skinLayer: HTMLElement;
+    private label: HTMLElement | null = null;
+    private api: AlphaTabAdapter;
 
-    // Cursor styling — v3.3 dimensions (DO NOT change to 12px — affects color/shape)
-    private readonly cursorWidth = 14;
-    private readonly topOverhang = 26;
-    private readonly bottomOverhang = 12;
-    private readonly bottomPointBaseShift = 2;
+    // Cursor styling — width / overhangs / SVG come from the skin (v3.3 = MAESTRO_SKIN)
+    private skin: CursorSkin;
+    private debugLabelEnabled: boolean;
+    private transition: CrossSystemTransition;
+    private ghost: HTMLElement | null = null;
+    private ghostRenderedHeight = -1;
 
     // Current beat geometry
     private currentBeat: Beat | null = null;
@@ -104,6 +181,8 @@ export class MaestroCursor {
     private currentVbW: number = 0;
     // 🔒 Frozen at setBeat(). setTick() may only SET if null, NEVER clear.
     private nextBeatCenterX: number | null = null;
+    // 🔒 Same freeze rule — next expanded beat on ANOTHER row (Mode B line break).
+    private crossRowTarget: { x: number; y: number; h: number } | null = null;
 
     // Beat timing
     private beatStart: number = 0;
@@ -121,20 +200,35 @@ export class MaestroCursor {
     private lastLogBeat = -1;
     private lastDebugUpdate = 0;
 
-    constructor(api: any, container: HTMLElement) {
+    // Typed events (v5.0) — written at beat entry / snap only
+    private readonly events = new CursorEventEmitter();
+    private beatEntryPending = false;
+    private pendingSnap: SnapReason | null = null;
+    private currentBar: CursorBarInfo | null = null;
+    private readonly barPasses = new Map<number, number>();
+    private lastEventTick: number | null = null;
+
+    constructor(api: AlphaTabAdapter, container: HTMLElement, options: MaestroCursorOptions = {}) {
         this.api = api;
-        this.element = document.createElement('div');
-        this.element.id = 'maestro-cursor-v4';
+        this.skin = options.skin ?? MAESTRO_SKIN;
+        this.debugLabelEnabled = options.debugLabel ?? false;
+        this.transition = options.transition ?? 'off';
+        const doc = container.ownerDocument ?? document;
+        this.element = doc.createElement('div');
+        this.element.id = `maestro-cursor-v4-${++cursorSeq}`;
         this.element.className = 'maestro-cursor-icursor';
         Object.assign(this.element.style, {
             position: 'absolute', top: '0', left: '0',
             pointerEvents: 'none', zIndex: '99999',
-            willChange: 'transform', width: `${this.cursorWidth}px`,
+            willChange: 'transform', width: `${this.skin.width}px`,
             overflow: 'visible', visibility: 'hidden', opacity: '0',
             transform: 'translate3d(-100vw, 0px, 0px)',
         });
+        this.skinLayer = doc.createElement('div');
+        this.skinLayer.className = 'maestro-cursor-skin';
+        this.element.appendChild(this.skinLayer);
         container.appendChild(this.element);
-        console.log('✅ MaestroCursor v4.5: Ready');
+        console.log('✅ MaestroCursor v5.0: Ready');
     }
 
     // ─────────────────────────────────────────
@@ -150,6 +244,7 @@ export class MaestroCursor {
         if (!beat) { this.hide(); return; }
 
         this.currentBeat = beat;
+        this.beatEntryPending = true;
         this.beatStart = beat.absolutePlaybackStart ?? beat.playbackStart ?? 0;
         this.beatDuration = beat.playbackDuration ?? beat.duration ?? 0;
         this.beatStartToUse = this.beatStart;
@@ -169,6 +264,8 @@ export class MaestroCursor {
         // 🔒 nextBeatCenterX is locked here for the entire beat duration.
         // setTick() may only fill it if null; it never clears an established value.
         this.nextBeatCenterX = null;
+        this.crossRowTarget = null;
+        this.hideGhost();
         const structuralNext = beat.nextBeat;
         if (structuralNext) {
             const nb = this.api?.renderer?.boundsLookup?.findBeat(structuralNext);
@@ -186,9 +283,9 @@ export class MaestroCursor {
         }
 
         // Snap to beat-start position immediately
-        const finalX = this.currentNoteX - this.cursorWidth / 2;
-        const totalH = vb.h + this.topOverhang + this.bottomOverhang + this.bottomPointBaseShift;
-        const finalY = vb.y - this.topOverhang;
+        const finalX = this.currentNoteX - this.skin.width / 2;
+        const totalH = this.totalHeightFor(vb.h);
+        const finalY = vb.y - this.skin.topOverhang;
         this.applyTransform(finalX, finalY, totalH, !this.hasInitialPosition);
         this.hasInitialPosition = true;
         this.show();
@@ -197,8 +294,83 @@ export class MaestroCursor {
     // ─────────────────────────────────────────
     // Transport Snap (Loop + Jump Safety)
     // ─────────────────────────────────────────
-    public requestSnap(): void {
+    /** Last applied cursor centre (note-head X, staff top Y), or null before first beat. */
+    public getPosition(): { x: number; y: number } | null {
+        if (!this.hasInitialPosition) return null;
+        return { x: this.lastFinalX + this.skin.width / 2, y: this.lastFinalY + this.skin.topOverhang };
+    }
+
+    // ─────────────────────────────────────────
+    // Skin + Debug Label
+    // ─────────────────────────────────────────
+
+    getSkin(): CursorSkin {
+        return this.skin;
+    }
+
+    /**
+     * Swaps the look at runtime. Keeps the current centre (note-head X, staff top)
+     * and re-renders in place — walk state (beat, mode, nextBeatCenterX) untouched.
+     */
+    setSkin(skin: CursorSkin): void {
+        if (skin === this.skin) return;
+        const centre = this.getPosition();
+        this.skin = skin;
+        this.element.style.width = `${skin.width}px`;
+        this.svgRendered = false;
+        this.ghostRenderedHeight = -1;
+        this.hideGhost();
+        if (!centre) return;
+        // Force applyTransform past its <0.5px early-out — geometry changed.
+        this.lastFinalX = -1;
+        this.lastFinalY = -1;
+        this.applyTransform(
+            centre.x - skin.width / 2,
+            centre.y - skin.topOverhang,
+            this.totalHeightFor(this.currentHeight),
+            true,
+        );
+    }
+
+    setDebugLabel(enabled: boolean): void {
+        this.debugLabelEnabled = enabled;
+        if (!enabled && this.label) {
+            this.element.removeChild(this.label);
+            this.label = null;
+        }
+    }
+
+    getTransition(): CrossSystemTransition {
+        return this.transition;
+    }
+
+    setTransition(transition: CrossSystemTransition): void {
+        if (transition === this.transition) return;
+        this.transition = transition;
+        this.hideGhost();
+        this.element.style.opacity = this.element.style.visibility === 'hidden' ? '0' : '1';
+    }
+
+    // ─────────────────────────────────────────
+    // Events (v5.0)
+    // ─────────────────────────────────────────
+
+    /** Subscribe to a cursor event. Returns a disposer. */
+    on<K extends CursorEventType>(type: K, handler: CursorEventHandler<K>): () => void {
+        return this.events.on(type, handler);
+    }
+
+    off<K extends CursorEventType>(type: K, handler: CursorEventHandler<K>): void {
+        this.events.off(type, handler);
+    }
+
+    /** reason: 'loop' from the loop enforcer, 'jump' from jump detection. */
+    public requestSnap(reason: SnapReason = 'jump'): void {
+        // First reason wins — the enforcer's wrap is usually followed by a jump snap.
+        if (this.pendingSnap === null) this.pendingSnap = reason;
         this.nextBeatCenterX = null;
+        this.crossRowTarget = null;
+        this.hideGhost();
         this.beatStartToUse = this.beatStart;
         this.lastFinalX = -1;
         this.lastFinalY = -1;
@@ -286,46 +458,62 @@ export class MaestroCursor {
         //
         // 🔒 DO NOT move above interpolatedX calculation.
         // 🔒 DO NOT modify walkDistance, nextBeatCenterX, or beatStartToUse here.
-        const isPlaying = this.api?.player?.isPlaying ?? false;
+        // v4.6: playerState (0 = paused) — IAlphaSynth has no isPlaying.
+        const isPlaying = (this.api?.playerState ?? 0) !== 0;
         if (!isPlaying && progress >= 0.999) {
             interpolatedX = this.currentNoteX;
         }
 
-        const finalX = interpolatedX - this.cursorWidth / 2;
-        const totalH = this.currentHeight + this.topOverhang + this.bottomOverhang + this.bottomPointBaseShift;
-        const finalY = this.currentY - this.topOverhang;
+        const finalX = interpolatedX - this.skin.width / 2;
+        const totalH = this.totalHeightFor(this.currentHeight);
+        const finalY = this.currentY - this.skin.topOverhang;
 
         this.applyTransform(finalX, finalY, totalH, false);
 
+        // ✅ V4.8 — Line-break transition. Runs AFTER the walk; reads mode, never writes it.
+        this.updateTransition(nextBeat, progress, isPlaying);
+
+        // ✅ V5.0 — Events. O(1) unless a beat was just entered or a snap is pending.
+        if (this.beatEntryPending || this.pendingSnap !== null) this.emitEntryEvents(tick);
+        this.lastEventTick = tick;
+
         // Throttled log — once per expanded beat pass (beatStartToUse, not beatStart)
         // 🔒 beatStart is structural — same value every repeat pass → logs only fire once.
         //    beatStartToUse is expanded — unique per pass → each pass logs independently.
         if (this.beatStartToUse !== this.lastLogBeat) {
             this.lastLogBeat = this.beatStartToUse;
             const mode = this.nextBeatCenterX !== null ? 'A→nextBeat' : 'B→barline';
-            console.log(`[Maestro v4.5] Beat ${this.beatStartToUse} | ${mode} Walk ${walkDistance.toFixed(1)}px`, {
+            console.log(`[Maestro v5.0] Beat ${this.beatStartToUse} | ${mode} Walk ${walkDistance.toFixed(1)}px`, {
                 tick, overrideBeatStart, progress: progress.toFixed(3),
                 nextBeatCenterX: this.nextBeatCenterX?.toFixed(1) ?? null,
             });
         }
 
-        // Throttled debug label (10fps)
+        // Throttled debug label (10fps) — opt-in
         const now = performance.now();
-        if (now - this.lastDebugUpdate > 100) {
+        if (this.debugLabelEnabled && now - this.lastDebugUpdate > 100) {
             this.lastDebugUpdate = now;
             this.updateDebugLabel(finalX, progress);
         }
     }
 
     destroy(): void {
+        this.events.clear();
         if (this.element.parentElement) this.element.parentElement.removeChild(this.element);
-        console.log('🧹 MaestroCursor v4.5: Destroyed');
+        if (this.ghost?.parentElement) this.ghost.parentElement.removeChild(this.ghost);
+        this.ghost = null;
+        console.log('🧹 MaestroCursor v5.0: Destroyed');
     }
 
     // ─────────────────────────────────────────
     // Helpers
     // ─────────────────────────────────────────
 
+    private totalHeightFor(staffHeight: number): number {
+        const { topOverhang, bottomOverhang, bottomPointBaseShift } = this.skin;
+        return staffHeight + topOverhang + bottomOverhang + bottomPointBaseShift;
+    }
+
     private applyTransform(x: number, y: number, h: number, snap: boolean): void {
         if (Math.abs(x - this.lastFinalX) < 0.5 && Math.abs(y - this.lastFinalY) < 0.5) return;
         this.lastFinalX = x;
@@ -345,58 +533,153 @@ export class MaestroCursor {
         this.element.style.opacity = '1';
     }
 
+    // ─────────────────────────────────────────
+    // Event derivation (v5.0)
+    // ─────────────────────────────────────────
+
+    private emitEntryEvents(tick: number): void {
+        const bar = this.barInfoAt(this.beatStartToUse);
+
+        if (this.pendingSnap !== null) {
+            this.events.emit('loopWrapped', { reason: this.pendingSnap, fromTick: this.lastEventTick, tick, bar });
+            this.pendingSnap = null;
+            // After a snap the next bar is a fresh entry, not a continuation.
+            this.currentBar = null;
+        }
+
+        if (!this.beatEntryPending) return;
+        this.beatEntryPending = false;
+        if (!bar || !this.currentBeat) return;
+
+        if (!this.currentBar || this.currentBar.barStart !== bar.barStart) {
+            this.events.emit('barEntered', { ...bar, tick, previous: this.currentBar });
+            const previousPass = this.barPasses.get(bar.barIndex) ?? null;
+            this.barPasses.set(bar.barIndex, bar.pass);
+            // First entry on pass 1 is not a pass change; first entry on a later pass is.
+            if (previousPass !== bar.pass && (previousPass !== null || bar.pass > 1)) {
+                this.events.emit('passChanged', { ...bar, tick, previousPass });
+            }
+            this.currentBar = bar;
+        }
+
+        this.events.emit('beatEntered', {
+            ...bar,
+            beat: this.currentBeat,
+            beatStart: this.beatStartToUse,
+            beatEnd: this.beatStartToUse + this.beatDuration,
+            tick,
+        });
+    }
+
+    /** Bar occurrence containing an expanded tick — structural pass 1 without a timeline. */
+    private barInfoAt(expandedTick: number): CursorBarInfo | null {
+        const bar = getExpandedTimeline(this.api)?.findBar(expandedTick);
+        if (bar) {
+            return { barIndex: bar.masterBarIndex, pass: bar.occurrence + 1, barStart: bar.expandedStart, barEnd: bar.expandedEnd };
+        }
+        const masterBar = this.currentBeat?.voice?.bar?.masterBar;
+        if (!masterBar) return null;
+        const barStart = expandedTick - (this.currentBeat?.playbackStart ?? 0);
+        return { barIndex: masterBar.index, pass: 1, barStart, barEnd: barStart + masterBar.calculateDuration() };
+    }
+
+    // ─────────────────────────────────────────
+    // Cross-system transition (v4.8)
+    // ─────────────────────────────────────────
+
+    /**
+     * 🔒 Mode B only (nextBeatCenterX === null) and read-only w.r.t. walk state.
+     * crossRowTarget follows the nextBeatCenterX rule: set if null, never cleared
+     * here — a later nextBeat arg cannot flip the transition on/off mid-beat.
+     */
+    private updateTransition(nextBeat: Beat | null, progress: number, isPlaying: boolean): void {
+        if (this.transition === 'off') return;
+
+        if (this.crossRowTarget === null && nextBeat && this.nextBeatCenterX === null) {
+            const nb = this.api?.renderer?.boundsLookup?.findBeat(nextBeat);
+            if (nb?.visualBounds && Math.abs(nb.visualBounds.y - this.currentY) >= 5) {
+                const vb = nb.visualBounds;
+                const x = typeof nb.onNotesX === 'number' ? nb.onNotesX : vb.x + vb.w / 2;
+                this.crossRowTarget = { x, y: vb.y, h: vb.h };
+            }
+        }
+
+        const target = this.nextBeatCenterX === null ? this.crossRowTarget : null;
+        const amount = target && isPlaying
+            ? Math.max(0, Math.min(1, (progress - TRANSITION_START) / (1 - TRANSITION_START)))
+            : 0;
+
+        if (this.transition === 'fade') {
+            this.element.style.transition = 'opacity 120ms linear';
+            this.element.style.opacity = String(1 - (1 - FADE_MIN_OPACITY) * amount);
+            return;
+        }
+
+        if (!target || amount <= 0) { this.hideGhost(); return; }
+        const ghost = this.ghostElement();
+        const totalH = this.totalHeightFor(target.h);
+        if (Math.abs(totalH - this.ghostRenderedHeight) > 5) {
+            ghost.innerHTML = this.skin.render(totalH, target.h);
+            this.ghostRenderedHeight = totalH;
+        }
+        ghost.style.width = `${this.skin.width}px`;
+        ghost.style.height = `${totalH}px`;
+        ghost.style.transform =
+            `translate3d(${target.x - this.skin.width / 2}px, ${target.y - this.skin.topOverhang}px, 0px)`;
+        ghost.style.opacity = String(GHOST_MAX_OPACITY * amount);
+        ghost.style.visibility = 'visible';
+    }
+
+    private ghostElement(): HTMLElement {
+        if (this.ghost) return this.ghost;
+        const ghost = (this.element.ownerDocument ?? document).createElement('div');
+        ghost.className = 'maestro-cursor-ghost';
+        Object.assign(ghost.style, {
+            position: 'absolute', top: '0', left: '0',
+            pointerEvents: 'none', zIndex: '99999',
+            overflow: 'visible', visibility: 'hidden', opacity: '0',
+        });
+        this.element.parentElement?.appendChild(ghost);
+        this.ghost = ghost;
+        return ghost;
+    }
+
+    private hideGhost(): void {
+        if (!this.ghost) return;
+        this.ghost.style.visibility = 'hidden';
+        this.ghost.style.opacity = '0';
+    }
+
     private hide(): void {
         this.element.style.visibility = 'hidden';
         this.element.style.opacity = '0';
     }
 
     private renderSVG(totalHeight: number, beatHeight: number): void {
-        // 🔒 v3.3 SVG — DO NOT replace with dynamic variable geometry.
-        // Hardcoded coordinates match cursorWidth=14 exactly.
-        this.element.innerHTML = `
-            <svg width="${this.cursorWidth}" height="${totalHeight}"
-                 viewBox="0 0 ${this.cursorWidth} ${totalHeight}"
-                 style="display:block;overflow:visible;filter:drop-shadow(0px 2px 4px rgba(0,0,0,0.5));">
-                <defs>
-                    <filter id="maestroCursorShadow">
-                        <feGaussianBlur in="SourceAlpha" stdDeviation="2"/>
-                        <feOffset dx="0" dy="2"/>
-                        <feComponentTransfer><feFuncA type="linear" slope="0.5"/></feComponentTransfer>
-                        <feMerge><feMergeNode/><feMergeNode in="SourceGraphic"/></feMerge>
-                    </filter>
-                </defs>
-                <!-- Purple cursor body -->
-                <path d="M 0,7 Q 0,0 7,0 Q 14,0 14,7
-                         V ${beatHeight + this.topOverhang}
-                         L 7 ${totalHeight + 2}
-                         L 0 ${beatHeight + this.topOverhang} Z"
-                      fill="rgba(168, 85, 247, 0.45)"
-                      filter="url(#maestroCursorShadow)"/>
-                <!-- White dot -->
-                <path d="M 3.5 6 C 3.5 4.3 5 3 7 3
-                         C 9 3 10.5 4.3 10.5 6
-                         C 10.5 8.5 8 12 7 12
-                         C 6 12 3.5 8.5 3.5 6 Z"
-                      fill="white"/>
-            </svg>`;
+        // 🔒 Geometry lives in the skin. MAESTRO_SKIN keeps the v3.3 hardcoded
+        // coordinates — DO NOT replace with dynamic variable geometry.
+        this.skinLayer.innerHTML = this.skin.render(totalHeight, beatHeight);
     }
 
     private updateDebugLabel(x: number, progress: number): void {
-        let label = this.element.querySelector('.debug-label') as HTMLElement;
-        if (!label) {
-            label = document.createElement('div');
-            label.className = 'debug-label';
+        if (!this.label) {
+            this.label = (this.element.ownerDocument ?? document).createElement('div');
+            this.label.className = 'debug-label';
             // ✅ Red label
-            label.style.cssText = `position:absolute;top:-40px;left:20px;
+            this.label.style.cssText = `position:absolute;top:-40px;left:20px;
                 background:rgba(255,0,0,0.9);color:white;padding:6px 10px;
                 font-size:11px;border-radius:4px;white-space:nowrap;font-weight:bold;`;
-            this.element.appendChild(label);
+            this.element.appendChild(this.label);
         }
-        label.innerHTML = `🎯 v4.5<br/>X:${x.toFixed(1)} P:${(progress * 100).toFixed(1)}%`;
+        this.label.innerHTML = `🎯 v5.0 · ${this.skin.id}<br/>X:${x.toFixed(1)} P:${(progress * 100).toFixed(1)}%`;
     }
 }
 
-export function attachMaestroCursor(api: any, container: HTMLElement): MaestroCursor {
-    const cursor = new MaestroCursor(api, container);
+export function attachMaestroCursor(
+    api: AlphaTabAdapter,
+    container: HTMLElement,
+    options: MaestroCursorOptions = {},
+): MaestroCursor {
+    const cursor = new MaestroCursor(api, container, options);
     return cursor;
 }
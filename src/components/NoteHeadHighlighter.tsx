@@ -0,0 +1,147 @@
+'use client';
+
+/**
+ * NoteHeadHighlighter v1.0 — Lights Up Sounding Note Heads
+ * Date: March 5th, 2026
+ *
+ * Overlay layer on top of the alphaTab container: one absolutely positioned
+ * box per sounding note head, fed the SAME tick as the cursor from the same
+ * playerPositionChanged handler.
+ *
+ *   'active'  → notes of the beat under the tick (accent fill)
+ *   'ringing' → let-ring tails / tie destinations still sounding (outline)
+ *
+ * Which notes sound is SoundingNotes (src/lib/SoundingNotes.ts) — repeat-aware
+ * through ExpandedTimeline, like CursorDriver. This class only draws.
+ *
+ * Clearing:
+ *   - clear() on pause / stop, seek and renderFinished (page.tsx)
+ *   - update() clears by itself when the tick moves backward or jumps
+ *     (loop wrap, repeat jump, seek it was not told about) — same 2000-tick
+ *     threshold as CursorDriver
+ *   - update() while paused draws nothing — a parked transport has no
+ *     sounding notes even if the tick sits inside a beat
+ *
+ * 🔒 update() is O(notes in bar) and touches the DOM only when the set of
+ *    sounding note heads changes (key list), not on every position event.
+ * 🔒 Boxes are pooled — hidden, never removed, until destroy().
+ */
+
+import type { AlphaTabAdapter } from '../lib/AlphaTabAdapter';
+import { getSoundingNotesIndex, NoteState, SoundingNote } from '../lib/SoundingNotes';
+
+// Same threshold as CursorDriver jump detection.
+const JUMP_THRESHOLD = 2000;
+
+export interface NoteHeadHighlighterOptions {
+    /** Fill for notes struck by the current beat. */
+    activeColor?: string;
+    /** Outline for let-ring / tied notes still sounding. */
+    ringingColor?: string;
+    /** Extra px around the note head box. */
+    padding?: number;
+}
+
+export class NoteHeadHighlighter {
+    private readonly api: AlphaTabAdapter;
+    private readonly layer: HTMLElement;
+    private readonly activeColor: string;
+    private readonly ringingColor: string;
+    private readonly padding: number;
+    private readonly pool: HTMLElement[] = [];
+    private enabled = true;
+    private lastKeys = '';
+    private lastTick: number | null = null;
+
+    constructor(api: AlphaTabAdapter, container: HTMLElement, options: NoteHeadHighlighterOptions = {}) {
+        this.api = api;
+        this.activeColor = options.activeColor ?? 'rgba(168, 85, 247, 0.55)';
+        this.ringingColor = options.ringingColor ?? 'rgba(168, 85, 247, 0.9)';
+        this.padding = options.padding ?? 2;
+        const doc = container.ownerDocument ?? document;
+        this.layer = doc.createElement('div');
+        this.layer.className = 'note-head-highlights';
+        Object.assign(this.layer.style, {
+            position: 'absolute', top: '0', left: '0', width: '0', height: '0',
+            pointerEvents: 'none', zIndex: '99998', overflow: 'visible',
+        });
+        container.appendChild(this.layer);
+    }
+
+    get isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+        if (!enabled) this.clear();
+    }
+
+    /** Call with the same tick the cursor got (after TrackCursors.handlePosition). */
+    update(tick: number | null | undefined): void {
+        if (!this.enabled || tick == null) return;
+        // PlayerState.Paused = 0 — nothing sounds while parked.
+        if ((this.api?.playerState ?? 0) === 0) { this.clear(); return; }
+
+        const last = this.lastTick;
+        if (last != null && (tick < last || tick - last > JUMP_THRESHOLD)) this.clear();
+        this.lastTick = tick;
+
+        const notes = getSoundingNotesIndex(this.api)?.at(tick) ?? [];
+        const keys = notes.map(n => `${n.key}/${n.state}`).join(',');
+        if (keys === this.lastKeys) return;
+        this.lastKeys = keys;
+        this.render(notes);
+    }
+
+    /** Hides every box — pause, seek, loop wrap, re-render. */
+    clear(): void {
+        this.lastKeys = '';
+        this.lastTick = null;
+        for (const box of this.pool) box.style.display = 'none';
+    }
+
+    destroy(): void {
+        this.clear();
+        if (this.layer.parentElement) this.layer.parentElement.removeChild(this.layer);
+        this.pool.length = 0;
+    }
+
+    // ─────────────────────────────────────────
+    // Rendering
+    // ─────────────────────────────────────────
+
+    private render(notes: SoundingNote[]): void {
+        notes.forEach((n, i) => {
+            const box = this.pool[i] ?? this.createBox();
+            const b = n.bounds;
+            const p = this.padding;
+            Object.assign(box.style, {
+                display: 'block',
+                transform: `translate3d(${b.x - p}px, ${b.y - p}px, 0px)`,
+                width: `${b.w + p * 2}px`,
+                height: `${b.h + p * 2}px`,
+                ...this.stateStyle(n.state),
+            });
+        });
+        for (let i = notes.length; i < this.pool.length; i++) this.pool[i].style.display = 'none';
+    }
+
+    private stateStyle(state: NoteState): Partial<CSSStyleDeclaration> {
+        return state === 'active'
+            ? { background: this.activeColor, border: '0', opacity: '1' }
+            : { background: 'transparent', border: `2px solid ${this.ringingColor}`, opacity: '0.8' };
+    }
+
+    private createBox(): HTMLElement {
+        const box = (this.layer.ownerDocument ?? document).createElement('div');
+        box.className = 'note-head-highlight';
+        Object.assign(box.style, {
+            position: 'absolute', top: '0', left: '0', boxSizing: 'border-box',
+            borderRadius: '40%', display: 'none',
+        });
+        this.layer.appendChild(box);
+        this.pool.push(box);
+        return box;
+    }
+}
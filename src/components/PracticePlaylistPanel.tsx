@@ -0,0 +1,125 @@
+'use client';
+
+/**
+ * PracticePlaylistPanel v1.0 — Loop Queue Controls
+ * Date: March 5th, 2026
+ *
+ * "➕ Add current loop", then per region: colour, bars, repetitions, speed
+ * (blank = unchanged), reorder / remove and ▶️ play from there. Start–Stop,
+ * "Repeat playlist" and the readout. Logic lives in PracticePlaylist
+ * (src/lib); the seek on start is the caller's (onStart).
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { LoopRange } from '../lib/LoopSnap';
+import type { PracticePlaylist, PracticePlaylistState } from '../lib/PracticePlaylist';
+
+interface Props {
+    playlist: PracticePlaylist;
+    /** Current LoopController range — what ➕ queues. */
+    currentRange: LoopRange | null;
+    /** Label for a queued range ("Bars 5–8"). */
+    describe: (range: LoopRange) => string;
+    /** Start from region `index` — the caller seeks and plays. */
+    onStart: (index: number) => void;
+}
+
+export default function PracticePlaylistPanel({ playlist, currentRange, describe, onStart }: Props) {
+    const [state, setState] = useState<PracticePlaylistState>(playlist.state);
+
+    useEffect(() => {
+        setState(playlist.state);
+        return playlist.on('progress', setState);
+    }, [playlist]);
+
+    const small: React.CSSProperties = {
+        padding: '1px 4px', fontSize: '11px', cursor: 'pointer',
+        border: '1px solid #bbb', borderRadius: '3px', background: 'white',
+    };
+    const hasEntries = state.entries.length > 0;
+    const current = state.entries[state.current];
+
+    return (
+        <div style={{ fontSize: '11px', padding: '6px', border: '1px solid #ddd', borderRadius: '4px' }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>📋 Practice playlist</div>
+            <button
+                onClick={() => currentRange && playlist.add(currentRange, describe(currentRange))}
+                disabled={!currentRange}
+                title={currentRange ? undefined : 'Set a loop first'}
+                style={{ ...small, width: '100%', padding: '4px', cursor: currentRange ? 'pointer' : 'not-allowed' }}
+            >➕ Add current loop</button>
+            {state.entries.map((entry, i) => {
+                const playing = state.active && i === state.current;
+                return (
+                    <div key={entry.id} style={{
+                        display: 'flex', gap: '4px', alignItems: 'center', marginTop: '4px',
+                        padding: '2px 4px', borderLeft: `4px solid ${entry.color}`,
+                        background: playing ? '#fff8e1' : 'transparent',
+                        fontWeight: playing ? 'bold' : 'normal',
+                    }}>
+                        <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {i + 1}. {entry.label}
+                        </span>
+                        ×
+                        <input
+                            type="number"
+                            min={1}
+                            max={99}
+                            value={entry.repeats}
+                            onChange={(e) => { if (Number(e.target.value) > 0) playlist.update(entry.id, { repeats: Number(e.target.value) }); }}
+                            style={{ width: '36px', fontSize: '11px' }}
+                        />
+                        {/* Commit on blur / Enter — "7" of "70" is below the minimum. */}
+                        <input
+                            key={`${entry.id}-${entry.speedPercent}`}
+                            type="number"
+                            min={25}
+                            max={300}
+                            placeholder="—"
+                            title="Speed % (blank = unchanged)"
+                            defaultValue={entry.speedPercent ?? ''}
+                            onBlur={(e) => playlist.update(entry.id, { speedPercent: e.target.value ? Number(e.target.value) : null })}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            style={{ width: '42px', fontSize: '11px' }}
+                        />%
+                        <button onClick={() => onStart(i)} title="Play from this region" style={small}>▶️</button>
+                        <button onClick={() => playlist.move(entry.id, -1)} disabled={i === 0} style={small}>↑</button>
+                        <button onClick={() => playlist.move(entry.id, 1)} disabled={i === state.entries.length - 1} style={small}>↓</button>
+                        <button onClick={() => playlist.remove(entry.id)} title="Remove" style={small}>✕</button>
+                    </div>
+                );
+            })}
+            <label style={{ display: 'block', marginTop: '6px' }}>
+                <input
+                    type="checkbox"
+                    checked={state.loopPlaylist}
+                    onChange={(e) => playlist.setLoopPlaylist(e.target.checked)}
+                />{' '}
+                Repeat playlist
+            </label>
+            <div style={{ display: 'flex', gap: '4px', marginTop: '6px' }}>
+                <button
+                    onClick={() => (state.active ? playlist.stop() : onStart(0))}
+                    disabled={!state.active && !hasEntries}
+                    style={{
+                        flex: 1, padding: '6px', fontSize: '11px', color: 'white', border: 'none', borderRadius: '4px',
+                        cursor: state.active || hasEntries ? 'pointer' : 'not-allowed',
+                        background: state.active ? '#f44336' : hasEntries ? '#009688' : '#ccc',
+                    }}
+                >{state.active ? '⏹️ Stop playlist' : '▶️ Play playlist'}</button>
+                <button
+                    onClick={() => playlist.clear()}
+                    disabled={!hasEntries}
+                    style={{ ...small, cursor: hasEntries ? 'pointer' : 'not-allowed' }}
+                >🧹</button>
+            </div>
+            {state.active && current && (
+                <div style={{ marginTop: '6px' }}>
+                    Region {state.current + 1}/{state.entries.length} · rep {Math.min(state.repetition + 1, current.repeats)}/{current.repeats}
+                    {current.speedPercent != null ? ` · ${current.speedPercent}%` : ''}
+                </div>
+            )}
+            {!state.active && state.finished && <div style={{ marginTop: '6px' }}>Playlist done ✅</div>}
+        </div>
+    );
+}
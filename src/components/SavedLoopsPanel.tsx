@@ -0,0 +1,215 @@
+'use client';
+
+/**
+ * SavedLoopsPanel v1.0 — Named Loops Sidebar
+ * Date: March 5th, 2026
+ *
+ * Lists the saved loops of the loaded score (SavedLoops, keyed by content
+ * hash) and lets you save the current loop under a name, rename, delete,
+ * recall, and export / import the whole set as JSON.
+ *
+ * Storage and validation live in src/lib/SavedLoops.ts (headless). Recall is
+ * the caller's job (onRecall) — it owns the LoopController and the cursors.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AlphaTabAdapter } from '../lib/AlphaTabAdapter';
+import { getExpandedTimeline } from '../lib/ExpandedTimeline';
+import type { LoopRange } from '../lib/LoopSnap';
+import {
+    createSavedLoop, describeLoopRange, exportLoopSet, fitsTimeline, getSavedLoopStore, importLoopSet, parseLoopSet,
+    SavedLoop,
+} from '../lib/SavedLoops';
+
+interface Props {
+    api: AlphaTabAdapter;
+    /** Content hash of the loaded file — null while hashing / loading. */
+    scoreHash: string | null;
+    /** Export file name + the "made for a different file" prompt. */
+    scoreTitle: string;
+    /** Current LoopController range (what 💾 saves). */
+    currentRange: LoopRange | null;
+    /** Bumped after a re-render — the bar labels re-read the rebuilt timeline. */
+    boundsEpoch: number;
+    onRecall: (loop: SavedLoop) => void;
+}
+
+function sameRange(a: LoopRange | null, b: LoopRange): boolean {
+    return a != null && a.startTick === b.startTick && a.endTick === b.endTick;
+}
+
+function downloadJson(data: unknown, fileName: string) {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(a.href);
+}
+
+export default function SavedLoopsPanel({ api, scoreHash, scoreTitle, currentRange, boundsEpoch, onRecall }: Props) {
+    const store = getSavedLoopStore();
+    const [loops, setLoops] = useState<SavedLoop[]>([]);
+    const [name, setName] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editName, setEditName] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+
+    const fail = (err: unknown) => {
+        console.error('❌ SavedLoops:', err);
+        setMessage(`❌ ${(err as Error).message}`);
+    };
+
+    const reload = (hash: string | null) => {
+        if (!hash) { setLoops([]); return; }
+        store.list(hash).then(setLoops).catch(fail);
+    };
+
+    useEffect(() => {
+        setEditingId(null);
+        setMessage(null);
+        reload(scoreHash);
+    }, [scoreHash]);
+
+    const timeline = useMemo(() => getExpandedTimeline(api), [api, boundsEpoch]);
+
+    // ─────────────────────────────────────────
+    // Actions
+    // ─────────────────────────────────────────
+
+    const handleSave = async () => {
+        if (!scoreHash || !currentRange) return;
+        const loop = createSavedLoop(scoreHash, name || describeLoopRange(currentRange, timeline), currentRange, api.tickPosition ?? 0);
+        try {
+            await store.put(loop);
+            setName('');
+            setMessage(`💾 Saved "${loop.name}"`);
+            reload(scoreHash);
+        } catch (err) { fail(err); }
+    };
+
+    const commitRename = async (loop: SavedLoop) => {
+        const next = editName.trim();
+        setEditingId(null);
+        if (!next || next === loop.name) return;
+        await store.put({ ...loop, name: next }).then(() => reload(scoreHash), fail);
+    };
+
+    const handleDelete = async (loop: SavedLoop) => {
+        if (!window.confirm(`Delete loop "${loop.name}"?`)) return;
+        await store.remove(loop.id).then(() => reload(scoreHash), fail);
+    };
+
+    const handleExport = () => {
+        if (!scoreHash || !loops.length) return;
+        downloadJson(exportLoopSet(scoreHash, scoreTitle, loops), `${scoreTitle}-loops.json`);
+    };
+
+    const handleImport = async (file: File | undefined) => {
+        if (!file || !scoreHash) return;
+        try {
+            const set = parseLoopSet(JSON.parse(await file.text()));
+            if (set.scoreHash !== scoreHash
+                && !window.confirm(`These loops were made for a different file ("${set.scoreTitle}"). Import anyway?`)) {
+                return;
+            }
+            const imported = importLoopSet(set, scoreHash);
+            await store.put(...imported);
+            setMessage(`📥 Imported ${imported.length} loop${imported.length === 1 ? '' : 's'}`);
+            reload(scoreHash);
+        } catch (err) {
+            fail(new Error(`${file.name}: ${(err as Error).message}`));
+        }
+    };
+
+    // ─────────────────────────────────────────
+    // Render
+    // ─────────────────────────────────────────
+
+    const small: React.CSSProperties = { fontSize: '11px', padding: '2px 6px', cursor: 'pointer' };
+
+    return (
+        <div style={{
+            position: 'fixed', bottom: 20, left: 20, width: '260px', maxHeight: '45vh', overflowY: 'auto',
+            background: '#fff', border: '2px solid #000', borderRadius: '8px', padding: '12px',
+            zIndex: 10000, fontFamily: 'monospace', fontSize: '12px',
+        }}>
+            <h3 style={{ margin: '0 0 8px 0', fontSize: '14px' }}>📌 Saved loops</h3>
+
+            <div style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+                <input
+                    value={name}
+                    placeholder={currentRange ? describeLoopRange(currentRange, timeline) : 'Set a loop first'}
+                    disabled={!currentRange || !scoreHash}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    style={{ flex: 1, minWidth: 0, fontSize: '11px' }}
+                />
+                <button onClick={handleSave} disabled={!currentRange || !scoreHash} style={small}>💾 Save</button>
+            </div>
+
+            {!loops.length && <div style={{ color: '#777' }}>No saved loops for this score.</div>}
+
+            {loops.map(loop => {
+                const usable = fitsTimeline(loop, timeline);
+                const active = sameRange(currentRange, loop);
+                return (
+                    <div key={loop.id} style={{
+                        display: 'flex', alignItems: 'center', gap: '4px', padding: '4px',
+                        borderRadius: '4px', background: active ? '#e3f2fd' : 'transparent',
+                    }}>
+                        {editingId === loop.id ? (
+                            <input
+                                autoFocus
+                                value={editName}
+                                onChange={(e) => setEditName(e.target.value)}
+                                onBlur={() => commitRename(loop)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') commitRename(loop);
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                style={{ flex: 1, minWidth: 0, fontSize: '11px' }}
+                            />
+                        ) : (
+                            <button
+                                onClick={() => onRecall(loop)}
+                                disabled={!usable}
+                                title={usable ? describeLoopRange(loop, timeline) : 'Outside this score — imported from another file?'}
+                                style={{
+                                    flex: 1, minWidth: 0, textAlign: 'left', fontSize: '11px',
+                                    cursor: usable ? 'pointer' : 'not-allowed',
+                                    background: 'none', border: 'none', padding: 0,
+                                    overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+                                }}
+                            >
+                                {active ? '🔁' : '▶️'} {loop.name}{' '}
+                                <span style={{ color: '#777' }}>{describeLoopRange(loop, timeline)}</span>
+                            </button>
+                        )}
+                        <button
+                            onClick={() => { setEditingId(loop.id); setEditName(loop.name); }}
+                            title="Rename"
+                            style={small}
+                        >✏️</button>
+                        <button onClick={() => handleDelete(loop)} title="Delete" style={small}>🗑️</button>
+                    </div>
+                );
+            })}
+
+            <div style={{ display: 'flex', gap: '4px', marginTop: '8px', alignItems: 'center' }}>
+                <button onClick={handleExport} disabled={!loops.length} style={small}>📤 Export</button>
+                <label style={{ ...small, border: '1px solid #767676', borderRadius: '2px', background: '#efefef' }}>
+                    📥 Import
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        disabled={!scoreHash}
+                        onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+                        style={{ display: 'none' }}
+                    />
+                </label>
+            </div>
+            {message && <div style={{ fontSize: '11px', marginTop: '6px', wordBreak: 'break-word' }}>{message}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+/**
+ * ScoreInstance v1.3 — One Self-Contained AlphaTab + Cursor + Loop
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.3: seek on a tap (ScorePointer.onScoreTap — Pointer Events) instead
+ *    of 'click'; LoopOverlay v1.3 handles touch loops.
+ * 🔥 V1.2: LoopController + LoopOverlay replace BeatCustomLoopOverlay — the
+ *    controller owns playbackRange / isLooping and the cursor drivers' wrap.
+ * 🔥 V1.1: click-to-seek through ScoreGeometry.pointToTick (pass hint =
+ *    transport tick) — the page.tsx v5.43 path.
+ *
+ * The page.tsx wiring reduced to what a lesson page needs, with NO page-wide
+ * state: its own AlphaTabApi, TrackCursors, LoopController + LoopOverlay (bound to
+ * this container), click-to-seek on this surface and transport buttons.
+ * Render two of them side by side and they play, seek and loop independently
+ * — see src/app/multi/page.tsx.
+ *
+ * Isolation checklist (what used to be shared):
+ *   - MaestroCursor element ids are unique (v4.9), skin filter ids too
+ *   - window.__at[instanceId] instead of window.__at (registerDebugApi)
+ *   - surface = surfaceOf(api), overlay gets `container` — no document lookups
+ *   - ExpandedTimeline / SoundingNotes caches are keyed per api (WeakMap)
+ *
+ * 🔒 Same cursor feed as page.tsx — TrackCursors → CursorDriver.handlePosition.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import LoopOverlay from './LoopOverlay';
+import { getExpandedTimeline, invalidateExpandedTimeline } from '../lib/ExpandedTimeline';
+import { surfaceOf } from '../lib/AlphaTabAdapter';
+import { TrackCursors } from '../lib/TrackCursors';
+import { createLabSettings, loadSample, registerDebugApi } from '../lib/LabBootstrap';
+import { clientToScore, getScoreGeometry } from '../lib/ScoreGeometry';
+import { onScoreTap } from '../lib/ScorePointer';
+import { LoopController } from '../lib/LoopController';
+import type { AlphaTabApi } from '@coderline/alphatab';
+
+interface Props {
+    /** Unique per page — console handle window.__at[instanceId]. */
+    instanceId: string;
+    title: string;
+    url: string;
+}
+
+export default function ScoreInstance({ instanceId, title, url }: Props) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const apiRef = useRef<AlphaTabApi | null>(null);
+    const cursorsRef = useRef<TrackCursors | null>(null);
+    const loopRef = useRef<LoopController | null>(null); // 🔒 owns playbackRange / isLooping + wrap
+
+    const [surface, setSurface] = useState<HTMLElement | null>(null);
+    const [boundsReady, setBoundsReady] = useState(false);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [playerReady, setPlayerReady] = useState(false);
+    const [loopEnabled, setLoopEnabled] = useState(false);
+
+    // ─────────────────────────────────────────
+    // Initialize this instance
+    // ─────────────────────────────────────────
+
+    useEffect(() => {
+        if (!containerRef.current || apiRef.current) return;
+
+        let destroyed = false;
+        let unregisterDebugApi = () => {};
+
+        const init = async () => {
+            const alphaTab = await import('@coderline/alphatab');
+            if (destroyed || !containerRef.current) return;
+
+            const api = new alphaTab.AlphaTabApi(containerRef.current, createLabSettings(alphaTab));
+            apiRef.current = api;
+            unregisterDebugApi = registerDebugApi(instanceId, api);
+            const loop = new LoopController(api);
+            loopRef.current = loop;
+            loop.on('changed', (e) => setLoopEnabled(e.enabled));
+
+            api.scoreLoaded.on(() => invalidateExpandedTimeline(api));
+            api.renderStarted.on(() => setBoundsReady(false));
+            api.renderFinished.on(() => {
+                invalidateExpandedTimeline(api);
+                getExpandedTimeline(api);
+                setTimeout(() => {
+                    if (destroyed || !api.renderer?.boundsLookup?.staffSystems) return;
+                    setSurface(surfaceOf(api));
+                    setBoundsReady(true);
+                    if (containerRef.current && !cursorsRef.current) {
+                        cursorsRef.current = new TrackCursors(api, containerRef.current, {
+                            loop,
+                        });
+                    } else {
+                        cursorsRef.current?.refresh();
+                    }
+                    cursorsRef.current?.snapToTick(api.tickPosition ?? 0);
+                }, 200);
+            });
+
+            api.playerReady.on(() => setPlayerReady(true));
+            api.playerStateChanged.on((e) => setIsPlaying(!e.stopped && e.state !== 0));
+            // 🔒 CURSOR ENGINE LOCK lives in CursorDriver.handlePosition.
+            api.playerPositionChanged.on((e) => cursorsRef.current?.handlePosition(e.currentTick));
+
+            await loadSample(api, url);
+        };
+
+        init().catch(console.error);
+
+        return () => {
+            destroyed = true;
+            unregisterDebugApi();
+            if (loopRef.current) { loopRef.current.destroy(); loopRef.current = null; }
+            if (cursorsRef.current) { cursorsRef.current.destroy(); cursorsRef.current = null; }
+            if (apiRef.current) { apiRef.current.destroy(); apiRef.current = null; }
+        };
+    }, [instanceId, url]);
+
+    // Tap / click-to-seek on THIS surface only — ScoreGeometry, same as page.tsx.
+    useEffect(() => {
+        const api = apiRef.current;
+        if (!api || !surface || !boundsReady) return;
+
+        const handleTap = (e: PointerEvent) => {
+            if (loopEnabled) return;
+            const { x, y } = clientToScore(surface, e);
+            const hit = getScoreGeometry(api).pointToTick(x, y, api.tickPosition ?? 0);
+            if (!hit) return;
+            const wasPlaying = api.playerState !== 0;
+            if (wasPlaying) api.pause();
+            api.tickPosition = hit.beatStart;
+            if (wasPlaying) requestAnimationFrame(() => api.play());
+        };
+
+        return onScoreTap(surface, handleTap);
+    }, [surface, boundsReady, loopEnabled]);
+
+    const buttonStyle = (enabled: boolean, color: string): React.CSSProperties => ({
+        padding: '6px 10px', fontSize: '12px',
+        cursor: enabled ? 'pointer' : 'not-allowed',
+        background: enabled ? color : '#ccc',
+        color: 'white', border: 'none', borderRadius: '4px',
+    });
+
+    return (
+        <section style={{ flex: 1, minWidth: 0, border: '2px solid #ddd', borderRadius: '8px', padding: '10px' }}>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+                <strong style={{ fontSize: '13px', flex: 1 }}>{title}</strong>
+                <button
+                    disabled={!playerReady}
+                    onClick={() => apiRef.current?.playPause()}
+                    style={buttonStyle(playerReady, '#2196f3')}
+                >{isPlaying ? '⏸️ Pause' : '▶️ Play'}</button>
+                <button
+                    disabled={!boundsReady}
+                    onClick={() => loopRef.current?.setEnabled(!loopEnabled)}
+                    style={buttonStyle(boundsReady, loopEnabled ? '#f44336' : '#607d8b')}
+                >{loopEnabled ? '🔁 Loop on' : '🔁 Loop off'}</button>
+            </div>
+            <div ref={containerRef} style={{ position: 'relative', width: '100%', minHeight: '400px', background: '#fff' }}>
+                {apiRef.current && loopRef.current && surface && (
+                    <LoopOverlay
+                        api={apiRef.current}
+                        controller={loopRef.current}
+                        container={containerRef.current}
+                    />
+                )}
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+/**
+ * SectionNavigator v1.0 — Loop / Play by Section Marker
+ * Date: March 5th, 2026
+ *
+ * Lists the score's Guitar Pro sections (ScoreSections) with a pass picker
+ * when a section is played more than once, "🔁 Loop" and "▶️ Play from here".
+ * Both actions are the caller's (it owns the LoopController and the seek);
+ * the loop highlight is LoopOverlay's, repainted on 'changed'.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { AlphaTabAdapter } from '../lib/AlphaTabAdapter';
+import { getExpandedTimeline } from '../lib/ExpandedTimeline';
+import type { LoopRange } from '../lib/LoopSnap';
+import { getScoreSections, ScoreSection, SectionPass } from '../lib/ScoreSections';
+
+interface Props {
+    api: AlphaTabAdapter;
+    /** Current LoopController range — marks the looped section. */
+    currentRange: LoopRange | null;
+    /** Re-read the sections after a re-render (new score, tracks). */
+    boundsEpoch: number;
+    onLoop: (section: ScoreSection, pass: SectionPass) => void;
+    onPlayFrom: (section: ScoreSection, pass: SectionPass) => void;
+}
+
+function sameRange(a: LoopRange | null, b: LoopRange): boolean {
+    return a != null && a.startTick === b.startTick && a.endTick === b.endTick;
+}
+
+/** "Bars 5–12" — 1-based, structural. */
+function describeBars(section: ScoreSection): string {
+    const first = section.masterBarIndex + 1;
+    const last = section.lastMasterBarIndex + 1;
+    return first === last ? `Bar ${first}` : `Bars ${first}–${last}`;
+}
+
+export default function SectionNavigator({ api, currentRange, boundsEpoch, onLoop, onPlayFrom }: Props) {
+    const sections = useMemo(() => {
+        const timeline = getExpandedTimeline(api);
+        return timeline ? getScoreSections(timeline) : [];
+    }, [api, boundsEpoch]);
+    // Picked pass per section index (default: first).
+    const [passBySection, setPassBySection] = useState<Record<number, number>>({});
+
+    const button: React.CSSProperties = {
+        padding: '2px 6px', fontSize: '11px', cursor: 'pointer',
+        border: '1px solid #bbb', borderRadius: '3px', background: 'white',
+    };
+
+    return (
+        <div style={{
+            fontSize: '11px', padding: '8px', marginBottom: '20px',
+            border: '1px solid #ddd', borderRadius: '8px', background: '#fafafa',
+        }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '6px' }}>🧭 Sections</div>
+            {!sections.length && <div style={{ color: '#777' }}>No section markers in this score.</div>}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                {sections.map(section => {
+                    const pass = section.passes[passBySection[section.index] ?? 0] ?? section.passes[0];
+                    const looped = section.passes.some(p => sameRange(currentRange, p.range));
+                    return (
+                        <div key={section.index} style={{
+                            padding: '4px 6px', borderRadius: '4px',
+                            border: `1px solid ${looped ? '#4caf50' : '#ddd'}`,
+                            background: looped ? '#e8f5e9' : 'white',
+                        }}>
+                            <div>
+                                <strong>{section.marker ? `${section.marker} · ` : ''}{section.name}</strong>{' '}
+                                <span style={{ color: '#777' }}>{describeBars(section)}</span>
+                            </div>
+                            <div style={{ display: 'flex', gap: '4px', marginTop: '4px', alignItems: 'center' }}>
+                                {section.passes.length > 1 && (
+                                    <select
+                                        value={pass?.pass ?? 0}
+                                        onChange={(e) => setPassBySection({ ...passBySection, [section.index]: Number(e.target.value) })}
+                                        style={{ fontSize: '11px' }}
+                                    >
+                                        {section.passes.map(p => (
+                                            <option key={p.pass} value={p.pass}>
+                                                Pass {p.pass + 1}{p.partial ? ' (partial)' : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                )}
+                                <button
+                                    disabled={!pass}
+                                    onClick={() => pass && onLoop(section, pass)}
+                                    title="Loop this section"
+                                    style={button}
+                                >🔁 Loop</button>
+                                <button
+                                    disabled={!pass}
+                                    onClick={() => pass && onPlayFrom(section, pass)}
+                                    title="Play from the start of this section"
+                                    style={button}
+                                >▶️ Play</button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+/**
+ * TempoTrainerPanel v1.0 — Speed Trainer Controls
+ * Date: March 5th, 2026
+ *
+ * Start / target / step / reps inputs, Start–Stop, "✗ Not clean", and the
+ * live readout (speed, repetitions at this speed, target). All logic is in
+ * TempoTrainer (src/lib) — this only mirrors its 'progress' events.
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { TempoTrainer, TempoTrainerSettings, TempoTrainerState } from '../lib/TempoTrainer';
+
+interface Props {
+    trainer: TempoTrainer;
+    /** A loop range is set — nothing to repeat otherwise. */
+    loopActive: boolean;
+}
+
+const FIELDS: { key: keyof TempoTrainerSettings; label: string; suffix: string }[] = [
+    { key: 'startPercent', label: 'Start', suffix: '%' },
+    { key: 'targetPercent', label: 'Target', suffix: '%' },
+    { key: 'stepPercent', label: 'Step', suffix: '%' },
+    { key: 'repsPerStep', label: 'Every', suffix: 'reps' },
+];
+
+export default function TempoTrainerPanel({ trainer, loopActive }: Props) {
+    const [state, setState] = useState<TempoTrainerState>(trainer.state);
+
+    useEffect(() => {
+        setState(trainer.state);
+        return trainer.on('progress', setState);
+    }, [trainer]);
+
+    const button: React.CSSProperties = {
+        padding: '6px', fontSize: '11px', color: 'white', border: 'none', borderRadius: '4px',
+    };
+
+    return (
+        <div style={{ fontSize: '11px', padding: '6px', border: '1px solid #ddd', borderRadius: '4px' }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>🐢 Tempo trainer</div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px' }}>
+                {FIELDS.map(f => (
+                    <label key={f.key}>
+                        {f.label}{' '}
+                        {/* Commit on blur / Enter — clamping per keystroke would eat "7" of "70". */}
+                        <input
+                            key={`${f.key}-${state[f.key]}`}
+                            type="number"
+                            min={1}
+                            defaultValue={state[f.key]}
+                            onBlur={(e) => {
+                                const value = Number(e.target.value);
+                                if (value > 0 && value !== state[f.key]) trainer.configure({ [f.key]: value });
+                                else e.target.value = String(state[f.key]);
+                            }}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            style={{ width: '42px', fontSize: '11px' }}
+                        />{' '}
+                        {f.suffix}
+                    </label>
+                ))}
+            </div>
+            <div style={{ display: 'flex', gap: '4px', marginTop: '6px' }}>
+                <button
+                    onClick={() => (state.active ? trainer.stop() : trainer.start())}
+                    disabled={!state.active && !loopActive}
+                    title={loopActive ? undefined : 'Set a loop first'}
+                    style={{
+                        ...button, flex: 1,
+                        cursor: state.active || loopActive ? 'pointer' : 'not-allowed',
+                        background: state.active ? '#f44336' : loopActive ? '#795548' : '#ccc',
+                    }}
+                >{state.active ? '⏹️ Stop trainer' : '▶️ Start trainer'}</button>
+                <button
+                    onClick={() => trainer.markMiss()}
+                    disabled={!state.active}
+                    title="Last repetition wasn't clean — count again at this speed"
+                    style={{
+                        ...button,
+                        cursor: state.active ? 'pointer' : 'not-allowed',
+                        background: state.active ? '#ff9800' : '#ccc',
+                    }}
+                >✗ Not clean</button>
+            </div>
+            {state.active && (
+                <div style={{ marginTop: '6px' }}>
+                    <div>Speed: <strong>{state.speedPercent}%</strong> → target {state.targetPercent}%{state.reachedTarget ? ' ✅' : ''}</div>
+                    <div>Reps: {state.repsAtSpeed}/{state.repsPerStep} at this speed · {state.totalReps} total</div>
+                </div>
+            )}
+        </div>
+    );
+}
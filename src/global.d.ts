@@ -2,3 +2,8 @@ declare module "*.css" {
   const content: { [className: string]: string };
   export default content;
 }
+
+// Console handles per AlphaTab instance — LabBootstrap.registerDebugApi.
+interface Window {
+  __at?: Record<string, import("@coderline/alphatab").AlphaTabApi>;
+}
@@ -0,0 +1,286 @@
+/**
+ * AlphaTabAdapter v1.6 — Typed AlphaTab Surface
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.6: AdapterBeat.notes — SoundingNotes walks the score tree down to the
+ *    notes without `any`.
+ * 🔥 V1.5: AdapterMasterBar.section (Guitar Pro section markers — ScoreSections).
+ * 🔥 V1.4: metronomeVolume + optional AdapterMasterBar.timeSignatureDenominator
+ *    for the loop pre-roll count-in (LoopController v1.4).
+ * 🔥 V1.3: surfaceOf(api) — per-instance .at-surface (multi-instance pages),
+ *    read through the typed canvasElement (AdapterContainer).
+ * 🔥 V1.2: AdapterMasterBarTickLookup.tempoChanges + optional getOutputDevice()
+ *    for latency compensation (LatencyCompensation). Both optional — the fake
+ *    has a fixed tempo and no audio output.
+ * 🔥 V1.1: AdapterBeatBounds.notes (NoteBounds) + AdapterNote for note-head
+ *    highlighting (SoundingNotes / NoteHeadHighlighter).
+ *
+ * Every component used to take `api: any` and reach into tickCache,
+ * renderer.boundsLookup, playbackRange and tickPosition via optional chaining.
+ * AlphaTabAdapter describes EXACTLY the surface MaestroCursor, both loop
+ * overlays, ExpandedTimeline and page.tsx use — nothing more. The score tree
+ * (AdapterScore tracks → staves → bars → voices → beats) is typed too, so
+ * ExpandedTimeline walks it without `any`.
+ *
+ * Two implementations:
+ *   - The real AlphaTabApi (structurally assignable — see fromAlphaTabApi)
+ *   - FakeAlphaTab (src/lib/FakeAlphaTab.ts) — deterministic, in-memory, Node-safe
+ *
+ * 🔒 Keep this a SUBSET of AlphaTabApi. If fromAlphaTabApi stops compiling,
+ *    the adapter drifted from the engine — fix the adapter, not the cast.
+ */
+
+import type { AlphaTabApi } from '@coderline/alphatab';
+
+// ─────────────────────────────────────────────
+// Geometry
+// ─────────────────────────────────────────────
+
+export interface AdapterBounds {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// ─────────────────────────────────────────────
+// Score model
+// ─────────────────────────────────────────────
+
+/** Guitar Pro section marker ("A" / "Intro"). */
+export interface AdapterSection {
+    marker: string;
+    text: string;
+}
+
+export interface AdapterMasterBar {
+    index: number;
+    start: number;
+    /** Owning score — ExpandedTimeline reaches the beats through score.tracks. */
+    score: AdapterScore;
+    /** Set on the first bar of a section, null elsewhere. Optional — older fakes have none. */
+    section?: AdapterSection | null;
+    /** Beat unit of the bar (4 = quarter). Optional — the fake is always 4/4. */
+    timeSignatureDenominator?: number;
+    calculateDuration(): number;
+}
+
+export interface AdapterBar {
+    index: number;
+    masterBar: AdapterMasterBar;
+    voices: AdapterVoice[];
+}
+
+export interface AdapterVoice {
+    bar: AdapterBar;
+    beats: AdapterBeat[];
+    isEmpty: boolean;
+}
+
+export interface AdapterStaff {
+    /** One bar per master bar — staff.bars[masterBar.index]. */
+    bars: AdapterBar[];
+}
+
+export interface AdapterTrack {
+    index: number;
+    staves: AdapterStaff[];
+}
+
+export interface AdapterScore {
+    masterBars: AdapterMasterBar[];
+    tracks: AdapterTrack[];
+}
+
+export interface AdapterNote {
+    index: number;
+    string: number;
+    fret: number;
+    isTieDestination: boolean;
+    isLetRing: boolean;
+    isDead: boolean;
+}
+
+export interface AdapterBeat {
+    /** Structural (pass-1) start — NEVER authoritative in repeats. */
+    absolutePlaybackStart: number;
+    /** Offset inside the bar. */
+    playbackStart: number;
+    playbackDuration: number;
+    /** Empty for rests. */
+    notes: AdapterNote[];
+    voice: AdapterVoice;
+    nextBeat: AdapterBeat | null;
+    previousBeat: AdapterBeat | null;
+}
+
+// ─────────────────────────────────────────────
+// Tick cache (MidiTickLookup)
+// ─────────────────────────────────────────────
+
+export interface AdapterTempoChange {
+    /** Expanded tick inside [start, end) of the owning lookup. */
+    tick: number;
+    /** Quarter notes per minute. */
+    tempo: number;
+}
+
+export interface AdapterMasterBarTickLookup {
+    /** Expanded start tick of this playback occurrence. */
+    start: number;
+    end: number;
+    masterBar: AdapterMasterBar;
+    readonly tempoChanges?: AdapterTempoChange[];
+}
+
+export interface AdapterFindBeatResult {
+    beat: AdapterBeat;
+    /** Expanded start tick of the found beat. */
+    readonly start: number;
+    nextBeat: AdapterFindBeatResult | null;
+}
+
+export interface AdapterTickCache {
+    readonly masterBars: AdapterMasterBarTickLookup[];
+    findBeat(trackLookup: Set<number>, tick: number): AdapterFindBeatResult | null;
+    getBeatStart(beat: AdapterBeat): number;
+}
+
+// ─────────────────────────────────────────────
+// Bounds lookup
+// ─────────────────────────────────────────────
+
+export interface AdapterNoteBounds {
+    note: AdapterNote;
+    noteHeadBounds: AdapterBounds;
+}
+
+export interface AdapterBeatBounds {
+    beat: AdapterBeat;
+    visualBounds: AdapterBounds;
+    onNotesX: number;
+    /** Only filled with settings.core.includeNoteBounds = true. */
+    notes?: AdapterNoteBounds[] | null;
+}
+
+/** One staff of a master bar. Beats are flat — there is no voices level. */
+export interface AdapterBarBounds {
+    bar: AdapterBar;
+    visualBounds: AdapterBounds;
+    beats: AdapterBeatBounds[];
+}
+
+export interface AdapterMasterBarBounds {
+    index: number;
+    visualBounds: AdapterBounds;
+    bars: AdapterBarBounds[];
+}
+
+export interface AdapterStaffSystemBounds {
+    visualBounds: AdapterBounds;
+    bars: AdapterMasterBarBounds[];
+}
+
+export interface AdapterBoundsLookup {
+    readonly staffSystems: AdapterStaffSystemBounds[];
+    findBeat(beat: AdapterBeat): AdapterBeatBounds | null;
+    findMasterBar(masterBar: AdapterMasterBar): AdapterMasterBarBounds | null;
+    getBeatAtPos(x: number, y: number): AdapterBeat | null;
+}
+
+// ─────────────────────────────────────────────
+// Events + transport
+// ─────────────────────────────────────────────
+
+export interface AdapterEvent<T> {
+    /** Returns a disposer. */
+    on(handler: (arg: T) => void): () => void;
+    off(handler: (arg: T) => void): void;
+}
+
+export interface AdapterPositionChangedArgs {
+    currentTick: number;
+    endTick: number;
+    currentTime: number;
+    endTime: number;
+}
+
+export interface AdapterPlayerStateChangedArgs {
+    state: number;
+    stopped: boolean;
+}
+
+export interface AdapterOutputDevice {
+    readonly deviceId: string;
+    readonly label: string;
+    readonly isDefault: boolean;
+}
+
+/** IContainer — browser builds wrap the .at-surface element (HtmlElementContainer). */
+export interface AdapterContainer {
+    readonly isVisible: boolean;
+    /** HtmlElementContainer only — absent in the fake and non-browser builds. */
+    readonly element?: HTMLElement;
+}
+
+export interface AdapterPlaybackRange {
+    startTick: number;
+    endTick: number;
+}
+
+export interface AlphaTabAdapter {
+    readonly tickCache: AdapterTickCache | null;
+    readonly renderer: {
+        readonly boundsLookup: AdapterBoundsLookup | null;
+        readonly renderFinished: AdapterEvent<unknown>;
+    };
+    readonly tracks: { index: number }[];
+    readonly score: AdapterScore | null;
+    /** Optional — the fake has no DOM. */
+    readonly canvasElement?: AdapterContainer | null;
+    readonly settings: { display: { scale: number } };
+    /** 0 = paused, 1 = playing (PlayerState). IAlphaSynth has no isPlaying. */
+    readonly playerState: number;
+    readonly isReadyForPlayback: boolean;
+
+    tickPosition: number;
+    playbackRange: AdapterPlaybackRange | null;
+    isLooping: boolean;
+    playbackSpeed: number;
+    /** 0 = metronome off. */
+    metronomeVolume: number;
+
+    readonly playerPositionChanged: AdapterEvent<AdapterPositionChangedArgs>;
+    readonly playerStateChanged: AdapterEvent<AdapterPlayerStateChangedArgs>;
+
+    play(): unknown;
+    pause(): void;
+    /** null = default device (never changed via setOutputDevice). */
+    getOutputDevice?(): Promise<AdapterOutputDevice | null>;
+}
+
+/**
+ * Compile-time proof that the real engine satisfies the adapter. No runtime
+ * wrapping — the api object IS the adapter.
+ */
+export function fromAlphaTabApi(api: AlphaTabApi): AlphaTabAdapter {
+    return api;
+}
+
+/** Track filter shared by every findBeat() call site (all rendered tracks). */
+export function trackIndicesOf(api: Pick<AlphaTabAdapter, 'tracks'> | null | undefined): Set<number> {
+    return api?.tracks
+        ? new Set<number>(api.tracks.map(t => t.index))
+        : new Set([0]);
+}
+
+/**
+ * The .at-surface element of THIS api (browser canvasElement is an
+ * HtmlElementContainer wrapping it). null for FakeAlphaTab — pass a container.
+ * Never use a document-wide '.at-surface' query: with two instances on one
+ * page it returns the first score's surface.
+ */
+export function surfaceOf(api: AlphaTabAdapter | null | undefined): HTMLElement | null {
+    const element = api?.canvasElement?.element;
+    return element && typeof element.addEventListener === 'function' ? element : null;
+}
@@ -0,0 +1,248 @@
+/**
+ * CursorDriver v1.4 — Headless playerPositionChanged → MaestroCursor Feed
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.4 CHANGES:
+ * ✅ options.loop — the enforcer asks LoopController.enforce(tick) whether to
+ *    wrap (it writes tickPosition). Without it, isLoopEnabled + playbackRange
+ *    go through the same loopWrapTarget() rule — SAFETY_MARGIN lives in
+ *    LoopController now, one wrap rule for the page, ScoreInstance and replays.
+ *
+ * 🔥 V1.3 CHANGES:
+ * ✅ requestSnap('loop' | 'jump') — tells the cursor WHY it was snapped so it
+ *    can emit loopWrapped (MaestroCursor v5.0 events). Call sites unchanged
+ *    otherwise.
+ *
+ * 🔥 V1.2 CHANGES:
+ * ✅ options.visualTick — maps the engine tick to the tick the listener hears
+ *    (LatencyCompensation). Applied AFTER the loop enforcer, so the enforcer
+ *    and api.tickPosition writes still see raw engine ticks. One line in the
+ *    locked block (`const tick = ...`); everything below it is unchanged.
+ *
+ * 🔥 V1.1 CHANGES:
+ * ✅ options.trackIndices — resolve beats from a subset of tracks (per-track
+ *    cursors, see TrackCursors). Omitted = all rendered tracks (v1.0 behaviour).
+ *    Only the beat SOURCE changes; the locked block below is untouched.
+ *
+ * 🔥 V1.0 — Extracted from page.tsx v5.33
+ *
+ * The CURSOR ENGINE LOCK block from page.tsx v5.33, moved verbatim into a
+ * class so the live page and PositionReplayer drive the cursor through the
+ * SAME code. page.tsx keeps no per-beat refs of its own any more — the
+ * stable refs (lastTick, curBeat, expandedBeatStart, nextBeat) live here.
+ *
+ * Two entry points, same as before:
+ *   handlePosition(tick) — every playerPositionChanged (walking resolution)
+ *   snapToTick(tick)     — immediate snap (initial render, manual seek, pause)
+ *
+ * 🔒 Behaviour is unchanged from page.tsx v5.33. Any change here is a cursor
+ *    engine change — replay the recordings (PositionReplayer) before merging.
+ */
+
+import type { AlphaTabAdapter, AdapterBeat, AdapterFindBeatResult } from './AlphaTabAdapter';
+import { trackIndicesOf } from './AlphaTabAdapter';
+import type { ExpandedBeat } from './ExpandedTimeline';
+import { getExpandedTimeline } from './ExpandedTimeline';
+import type { SnapReason } from './CursorEvents';
+import { LoopEnforcer, loopWrapTarget } from './LoopController';
+
+/** The three calls the driver makes — MaestroCursor satisfies this. */
+export interface CursorSink {
+    setBeat(beat: AdapterBeat | null): void;
+    setTick(tick: number, nextBeat?: AdapterBeat | null, overrideBeatStart?: number | null): void;
+    requestSnap(reason?: SnapReason): void;
+}
+
+export interface CursorDriverOptions {
+    /** Owns the loop wrap (LoopController). Takes precedence over isLoopEnabled. */
+    loop?: LoopEnforcer;
+    /** Read on every event — replays keep the loop toggle outside a controller. */
+    isLoopEnabled?: () => boolean;
+    /** Tracks whose beats this cursor walks. Omitted = all rendered tracks. */
+    trackIndices?: Set<number>;
+    /** Engine tick → displayed tick (latency compensation). Omitted = identity. */
+    visualTick?: (tick: number) => number;
+}
+
+// Timeline entry (exact pass) or, on the findBeat fallback, the engine beat.
+type BeatIdentity = ExpandedBeat | AdapterBeat;
+
+// 🔒 JUMP DETECTION threshold — 2000 ticks (~2 beats at 480 PPQ).
+const JUMP_THRESHOLD = 2000;
+
+export class CursorDriver {
+    private readonly api: AlphaTabAdapter;
+    private readonly loop: LoopEnforcer;
+    private readonly trackIndices: Set<number> | undefined;
+    private readonly visualTick: (tick: number) => number;
+    private cursor: CursorSink | null = null;
+
+    // 🔒 Stable per-beat state — all written once on beat entry, read every frame
+    private lastTickValue: number | null = null;     // transport jump detection
+    private stableCurBeat: BeatIdentity | null = null; // beat identity — O(1) isSameBeat gate
+    private stableExpandedBeatStart = 0;             // frozen beat start tick
+    private stableNextBeat: AdapterBeat | null = null; // frozen next beat (null = Mode B)
+
+    constructor(api: AlphaTabAdapter, options: CursorDriverOptions = {}) {
+        this.api = api;
+        const isLoopEnabled = options.isLoopEnabled ?? (() => false);
+        this.loop = options.loop ?? {
+            enforce: tick => {
+                const target = isLoopEnabled() ? loopWrapTarget(api.playbackRange, tick) : null;
+                if (target == null) return false;
+                api.tickPosition = target;
+                return true;
+            },
+        };
+        this.trackIndices = options.trackIndices;
+        this.visualTick = options.visualTick ?? (tick => tick);
+    }
+
+    /** Cursor is attached after the first renderFinished — events before that are dropped. */
+    attach(cursor: CursorSink | null): void {
+        this.cursor = cursor;
+    }
+
+    /** Last (displayed) tick seen by handlePosition(), null after reset(). */
+    get lastTick(): number | null {
+        return this.lastTickValue;
+    }
+
+    /** Drops all per-beat state (score change). */
+    reset(): void {
+        this.lastTickValue = null;
+        this.stableCurBeat = null;
+        this.stableExpandedBeatStart = 0;
+        this.stableNextBeat = null;
+    }
+
+    // findBeat() is visual-first — returns pass-1 (structural) beat only.
+    // Only used for immediate snap (initial render, manual seek).
+    // Never used for walking resolution — handlePosition() owns that.
+    snapToTick(tick: number): void {
+        const api = this.api;
+        if (!this.cursor || !api.renderer?.boundsLookup) return;
+        const tickCache = api.tickCache;
+        if (!tickCache) return;
+        const beatResult = tickCache.findBeat(this.trackLookup(), tick);
+        if (beatResult?.beat) {
+            this.cursor.setBeat(beatResult.beat);
+            this.cursor.setTick(tick);
+        }
+    }
+
+    /**
+     * 🔒🔒🔒 CURSOR ENGINE LOCK — DO NOT MODIFY THIS BLOCK 🔒🔒🔒
+     *
+     * Proven stable as of page.tsx v5.30, timeline-backed as of v5.31,
+     * extracted from page.tsx in v5.34. Drives Maestro v5.0.
+     *
+     * Contract:
+     *   - ExpandedTimeline.findBeat → correct expanded beat (not structural pass-1)
+     *   - isSameBeat() O(1) gate → per-beat work fires ONCE per beat entry
+     *   - entry.expandedStart → expandedBeatStart (frozen in stableExpandedBeatStart)
+     *   - entry.nextExpandedBeat → nextBeat (frozen in stableNextBeat)
+     *   - 3-arg cursor contract: setBeat() + setTick(tick, nextBeat, expandedBeatStart)
+     *
+     * DO NOT:
+     *   - Reintroduce per-tick findBeat scans (v5.27: 720k calls/beat)
+     *   - Use beat.nextBeat or beat.absolutePlaybackStart as authoritative values
+     *   - Simplify to cursor.setTick(tick) one-arg — drops repeat-aware walk
+     *   - Pass expandedBeatStart as FIRST arg to setTick() — zeros progress every frame
+     *   - Add interpolation math here — MaestroCursor owns all walking state
+     *   - Remove the isSameBeat() structural check — post-repeat instances differ
+     *   - Remove the loop.enforce() clamp — React state is stale inside closures
+     */
+    handlePosition(tickRaw: number | null | undefined): void {
+        const api = this.api;
+        const cursor = this.cursor;
+        if (!cursor) return;
+        if (tickRaw == null) return;
+
+        // 🔒 LOOP BOUNDARY ENFORCER — DO NOT REMOVE
+        // Intercepts ticks before endTick to prevent audio worker dead-zone exposure.
+        // This is NOT a cosmetic clamp — it prevents transport dead-zone stall.
+        // v1.4: the wrap rule + tickPosition write live in LoopController.enforce.
+        if (this.loop.enforce(tickRaw)) {
+            cursor.requestSnap('loop');
+            return;
+        }
+
+        // v1.2: latency compensation — visuals only, never the enforcer above.
+        const tick = this.visualTick(tickRaw);
+
+        // 🔒 JUMP DETECTION — guards whammy re-sync, repeat wrap, seek discontinuities.
+        const lastTick = this.lastTickValue;
+        const jumped = lastTick != null && Math.abs(tick - lastTick) > JUMP_THRESHOLD;
+        this.lastTickValue = tick;
+        if (jumped) {
+            cursor.requestSnap('jump');
+            this.stableCurBeat = null;
+            this.stableExpandedBeatStart = 0;
+        }
+
+        const tickCache = api.tickCache;
+        if (!tickCache) return;
+
+        // ── Expanded Beat Resolution ─────────────────────────────────────────
+        // findBeat() is structurally biased — always returns pass-1 beat instance.
+        // ExpandedTimeline (built once per scoreLoaded/renderFinished) maps every
+        // expanded beat occurrence → (masterBar, occurrence, beat, expandedStart,
+        // expandedEnd, nextExpandedBeat). Lookup is a binary search — O(log n).
+        //
+        // Fallback: findBeat() if timeline is empty or tick falls in a gap.
+        const entry = getExpandedTimeline(api, this.trackIndices)?.findBeat(tick) ?? null;
+
+        let curBeat: AdapterBeat | null = entry?.beat ?? null;
+        let fallback: AdapterFindBeatResult | null = null;
+        if (!curBeat) {
+            fallback = tickCache.findBeat(this.trackLookup(), tick);
+            if (!fallback?.beat) return;
+            curBeat = fallback.beat;
+        }
+
+        // Identity — timeline entries are unique per expanded pass, so reference
+        // equality is exact. Fallback path keeps the v5.30 structural check
+        // (post-repeat, tickCache returns different Beat instances).
+        const isSameBeat = (a: BeatIdentity | null, b: BeatIdentity | null) => {
+            if (!a || !b) return false;
+            if (entry) return a === b;
+            // A timeline entry from an earlier frame never matches an engine beat.
+            if ('expandedStart' in a || 'expandedStart' in b) return false;
+            return (
+                a.absolutePlaybackStart === b.absolutePlaybackStart &&
+                a.voice?.bar?.masterBar?.index === b.voice?.bar?.masterBar?.index
+            );
+        };
+        const identity = entry ?? curBeat;
+
+        // 🔒 BEAT ENTRY GUARD — isSameBeat() is O(1), gates all per-beat work.
+        //
+        // Root cause of v5.27 solo freeze: per-tick scans ran every frame.
+        // v5.31: backward/forward findBeat scans are gone — expandedStart and
+        // nextExpandedBeat are precomputed in the timeline.
+        if (!isSameBeat(identity, this.stableCurBeat) || jumped) {
+            this.stableCurBeat = identity;
+            if (entry) {
+                this.stableExpandedBeatStart = entry.expandedStart;
+                // null result = Mode B (barline walk). Beat object = Mode A (nextBeat walk).
+                this.stableNextBeat = entry.nextExpandedBeat?.beat ?? null;
+            } else {
+                this.stableExpandedBeatStart = fallback?.start ?? tick;
+                this.stableNextBeat = fallback?.nextBeat?.beat ?? null;
+            }
+            cursor.setBeat(curBeat);
+        }
+
+        // Per-frame: O(1) — frozen cached values only.
+        // 🔒 tick is ALWAYS first arg (real engine position).
+        //    expandedBeatStart is ALWAYS third arg (beat-start reference only).
+        //    Swapping them zeros progress every frame → stepping.
+        cursor.setTick(tick, this.stableNextBeat, this.stableExpandedBeatStart);
+    }
+    // 🔒🔒🔒 END CURSOR ENGINE LOCK 🔒🔒🔒
+
+    private trackLookup(): Set<number> {
+        return this.trackIndices ?? trackIndicesOf(this.api);
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * CursorEvents v1.0 — Typed MaestroCursor Events
+ * Date: March 5th, 2026
+ *
+ * What the cursor learns while walking, as typed events instead of console
+ * logs — for practice tracking, lyrics and fretboard views that must stay in
+ * step with the cursor without re-resolving beats themselves.
+ *
+ *   beatEntered  — a new EXPANDED beat (each repeat pass fires again)
+ *   barEntered   — a new bar occurrence (bar 3 pass 2 ≠ bar 3 pass 1)
+ *   passChanged  — a bar is entered on a different pass than the last time
+ *                  this cursor entered it (repeat pass 2, D.S., seek back)
+ *   loopWrapped  — the cursor was snapped by the loop enforcer ('loop') or by
+ *                  jump detection ('jump': repeat wrap, seek, whammy re-sync)
+ *
+ * Ticks are EXPANDED (playback order). `pass` is 1-based.
+ * `barIndex` is the master bar index (score order, 0-based).
+ *
+ * 🔒 Events are emitted from inside setTick() — handlers run on the
+ *    playerPositionChanged path. Keep them cheap; never call back into
+ *    the cursor (setBeat/setTick) from a handler.
+ */
+
+import type { AdapterBeat } from './AlphaTabAdapter';
+
+export type SnapReason = 'loop' | 'jump';
+
+export interface CursorBarInfo {
+    /** Master bar index (score order). */
+    barIndex: number;
+    /** 1-based playback pass of this bar. */
+    pass: number;
+    barStart: number;
+    barEnd: number;
+}
+
+export interface BeatEnteredEvent extends CursorBarInfo {
+    beat: AdapterBeat;
+    /** Expanded start / end of the beat. */
+    beatStart: number;
+    beatEnd: number;
+    tick: number;
+}
+
+export interface BarEnteredEvent extends CursorBarInfo {
+    tick: number;
+    /** Previous bar occurrence this cursor was in, null after a snap / first bar. */
+    previous: CursorBarInfo | null;
+}
+
+export interface PassChangedEvent extends CursorBarInfo {
+    tick: number;
+    /** Pass this cursor last entered the bar on, null on first entry. */
+    previousPass: number | null;
+}
+
+export interface LoopWrappedEvent {
+    reason: SnapReason;
+    /** Last tick before the snap. */
+    fromTick: number | null;
+    /** First tick after the snap. */
+    tick: number;
+    /** Bar the cursor landed in — null if the tick is outside the timeline. */
+    bar: CursorBarInfo | null;
+}
+
+export interface CursorEventMap {
+    beatEntered: BeatEnteredEvent;
+    barEntered: BarEnteredEvent;
+    passChanged: PassChangedEvent;
+    loopWrapped: LoopWrappedEvent;
+}
+
+export type CursorEventType = keyof CursorEventMap;
+export type CursorEventHandler<K extends CursorEventType> = (event: CursorEventMap[K]) => void;
+
+/** Minimal typed emitter. on() returns a disposer (same shape as alphaTab events). */
+export class CursorEventEmitter<M extends { [K in keyof M]: unknown } = CursorEventMap> {
+    private handlers: { [K in keyof M]?: Set<(event: M[K]) => void> } = {};
+
+    on<K extends keyof M>(type: K, handler: (event: M[K]) => void): () => void {
+        const set = this.handlers[type] ?? (this.handlers[type] = new Set());
+        set.add(handler);
+        return () => this.off(type, handler);
+    }
+
+    off<K extends keyof M>(type: K, handler: (event: M[K]) => void): void {
+        this.handlers[type]?.delete(handler);
+    }
+
+    has<K extends keyof M>(type: K): boolean {
+        return (this.handlers[type]?.size ?? 0) > 0;
+    }
+
+    emit<K extends keyof M>(type: K, event: M[K]): void {
+        const set = this.handlers[type];
+        if (!set) return;
+        for (const handler of [...set]) {
+            try {
+                handler(event);
+            } catch (err) {
+                // A broken listener must never stall the cursor feed.
+                console.error(`❌ Cursor event handler (${String(type)}) failed:`, err);
+            }
+        }
+    }
+
+    clear(): void {
+        this.handlers = {};
+    }
+}
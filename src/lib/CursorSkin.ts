@@ -0,0 +1,163 @@
+/**
+ * CursorSkin v1.1 — Pluggable MaestroCursor Looks
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.1: teardrop SVG filter id is unique per render (maestroCursorShadow-<n>).
+ *    A fixed id was duplicated by every cursor on the page; url(#id) resolved
+ *    to whichever came first in the document and broke when that one was removed.
+ *
+ * A skin supplies everything MaestroCursor used to hard-code in renderSVG():
+ * width, overhangs above/below the staff, colors and the SVG markup.
+ * MaestroCursor owns positioning only — a skin never sees ticks or beats.
+ *
+ * Built-in skins:
+ *   MAESTRO_SKIN        — v3.3 purple teardrop + white dot (default, unchanged)
+ *   LINE_SKIN           — 2px line for dense notation
+ *   HIGH_CONTRAST_SKIN  — solid yellow / black outline for projectors
+ *   createBrandedSkin() — v3.3 teardrop geometry with custom colors
+ *
+ * Geometry contract (see MaestroCursor.setTick / setBeat):
+ *   cursor X centre   = note head X       → element left = X - width / 2
+ *   element top       = staff top - topOverhang
+ *   totalHeight       = staff height + topOverhang + bottomOverhang + bottomPointBaseShift
+ */
+
+export interface CursorSkinColors {
+    /** Main cursor body fill. */
+    body: string;
+    /** Dot / accent fill. */
+    accent: string;
+    /** Drop-shadow colour (CSS). */
+    shadow: string;
+}
+
+export interface CursorSkin {
+    id: string;
+    label: string;
+    /** Element width in px. The cursor centre sits on the note head. */
+    width: number;
+    topOverhang: number;
+    bottomOverhang: number;
+    bottomPointBaseShift: number;
+    colors: CursorSkinColors;
+    /** SVG markup for the cursor element. beatHeight = staff height. */
+    render(totalHeight: number, beatHeight: number): string;
+}
+
+// ─────────────────────────────────────────────
+// Teardrop (v3.3)
+// ─────────────────────────────────────────────
+
+export interface BrandedSkinOptions {
+    id: string;
+    label: string;
+    colors: CursorSkinColors;
+}
+
+// Page-wide counter — every rendered teardrop gets its own filter id.
+let filterSeq = 0;
+
+/**
+ * v3.3 teardrop geometry with custom colors.
+ * 🔒 Coordinates are hardcoded for width = 14 — DO NOT make them dynamic.
+ */
+export function createBrandedSkin({ id, label, colors }: BrandedSkinOptions): CursorSkin {
+    const width = 14;
+    const topOverhang = 26;
+    return {
+        id,
+        label,
+        width,
+        topOverhang,
+        bottomOverhang: 12,
+        bottomPointBaseShift: 2,
+        colors,
+        render(totalHeight, beatHeight) {
+            const filterId = `maestroCursorShadow-${++filterSeq}`;
+            return `
+                <svg width="${width}" height="${totalHeight}"
+                     viewBox="0 0 ${width} ${totalHeight}"
+                     style="display:block;overflow:visible;filter:drop-shadow(0px 2px 4px ${colors.shadow});">
+                    <defs>
+                        <filter id="${filterId}">
+                            <feGaussianBlur in="SourceAlpha" stdDeviation="2"/>
+                            <feOffset dx="0" dy="2"/>
+                            <feComponentTransfer><feFuncA type="linear" slope="0.5"/></feComponentTransfer>
+                            <feMerge><feMergeNode/><feMergeNode in="SourceGraphic"/></feMerge>
+                        </filter>
+                    </defs>
+                    <!-- Cursor body -->
+                    <path d="M 0,7 Q 0,0 7,0 Q 14,0 14,7
+                             V ${beatHeight + topOverhang}
+                             L 7 ${totalHeight + 2}
+                             L 0 ${beatHeight + topOverhang} Z"
+                          fill="${colors.body}"
+                          filter="url(#${filterId})"/>
+                    <!-- Dot -->
+                    <path d="M 3.5 6 C 3.5 4.3 5 3 7 3
+                             C 9 3 10.5 4.3 10.5 6
+                             C 10.5 8.5 8 12 7 12
+                             C 6 12 3.5 8.5 3.5 6 Z"
+                          fill="${colors.accent}"/>
+                </svg>`;
+        },
+    };
+}
+
+/** v3.3 look — the default. */
+export const MAESTRO_SKIN: CursorSkin = createBrandedSkin({
+    id: 'maestro',
+    label: 'Maestro (purple teardrop)',
+    colors: { body: 'rgba(168, 85, 247, 0.45)', accent: 'white', shadow: 'rgba(0,0,0,0.5)' },
+});
+
+// ─────────────────────────────────────────────
+// Line
+// ─────────────────────────────────────────────
+
+export const LINE_SKIN: CursorSkin = {
+    id: 'line',
+    label: 'Thin line',
+    width: 4,
+    topOverhang: 6,
+    bottomOverhang: 6,
+    bottomPointBaseShift: 0,
+    colors: { body: 'rgba(168, 85, 247, 0.85)', accent: 'rgba(168, 85, 247, 0.85)', shadow: 'transparent' },
+    render(totalHeight) {
+        return `
+            <svg width="4" height="${totalHeight}" viewBox="0 0 4 ${totalHeight}"
+                 style="display:block;overflow:visible;">
+                <rect x="1" y="0" width="2" height="${totalHeight}" rx="1" fill="${this.colors.body}"/>
+            </svg>`;
+    },
+};
+
+// ─────────────────────────────────────────────
+// High contrast
+// ─────────────────────────────────────────────
+
+export const HIGH_CONTRAST_SKIN: CursorSkin = {
+    id: 'high-contrast',
+    label: 'High contrast (projector)',
+    width: 18,
+    topOverhang: 30,
+    bottomOverhang: 14,
+    bottomPointBaseShift: 2,
+    colors: { body: '#ffeb00', accent: '#000000', shadow: '#000000' },
+    render(totalHeight, beatHeight) {
+        const { body, accent } = this.colors;
+        // Hardcoded for width = 18 (same shape as v3.3, scaled).
+        return `
+            <svg width="18" height="${totalHeight}" viewBox="0 0 18 ${totalHeight}"
+                 style="display:block;overflow:visible;">
+                <path d="M 1,9 Q 1,1 9,1 Q 17,1 17,9
+                         V ${beatHeight + 30}
+                         L 9 ${totalHeight + 1}
+                         L 1 ${beatHeight + 30} Z"
+                      fill="${body}" stroke="${accent}" stroke-width="2"/>
+                <circle cx="9" cy="9" r="4" fill="${accent}"/>
+            </svg>`;
+    },
+};
+
+export const CURSOR_SKINS: CursorSkin[] = [MAESTRO_SKIN, LINE_SKIN, HIGH_CONTRAST_SKIN];
@@ -0,0 +1,361 @@
+/**
+ * ExpandedTimeline v1.3 — Per-Track Timelines
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.3 CHANGES:
+ * ✅ getExpandedTimeline(api, trackIndices?) caches one timeline per track set.
+ *    Per-track cursors walk their own track's beats (rests, voices) while the
+ *    shared cursor keeps the all-tracks timeline. Same bars/ticks in every one.
+ *
+ * 🔥 V1.2 — Typed Against the Adapter
+ * 🔥 V1.2 CHANGES:
+ * ✅ Built from AlphaTabAdapter (AdapterScore tracks → staves → bars → voices →
+ *    beats) instead of `any`. ExpandedBar.masterBar is an AdapterMasterBar,
+ *    ExpandedBeat.beat an AdapterBeat.
+ *
+ * 🔥 V1.1 — Voltas, D.S./D.C. al Coda, Fine
+ * * 🔥 V1.1 CHANGES:
+ * ✅ PLAYBACK SEGMENTS: tickCache.masterBars already follows the engine's playback
+ *    order (alternate endings skip bars, Segno/Coda/Fine jump out of order). What
+ *    was wrong was the "Nth occurrence" / "nearest instance" heuristics on top.
+ *    The timeline is now split into segments — maximal runs where the master bar
+ *    index strictly increases. A new segment starts at every backward jump
+ *    (repeat close, D.S., D.C.). Forward skips (volta 2, To Coda) stay in the
+ *    same segment. Within a segment a master bar occurs at most once, so
+ *    (masterBarIndex, segment) identifies an expanded pass exactly.
+ *
+ *    Examples (bar indices in playback order → segments):
+ *      |: 0 1 [1. 2 :| [2. 3  4       → [0 1 2] [0 1 3 4]
+ *      0 1𝄋 2 3(To Coda) 4(D.S.) 5𝄌 6 → [0 1 2 3 4] [1 2 3 5 6]
+ *      0 1 2(Fine) 3 4(D.C. al Fine)  → [0 1 2 3 4] [0 1 2]
+ *
+ * ✅ resolveOccurrence(masterBarIndex, refTick): same segment as refTick first,
+ *    nearest start second (the v1.9 CustomLoopOverlay rule).
+ * ✅ alignToSegmentOf(tick, targetTick): moves a drag anchor into the pass of
+ *    the other endpoint when its bar is replayed there.
+ *
+ * 🔥 V1.0 — Precomputed Repeat-Aware Beat Index
+ *
+ * 🔥 WHY THIS EXISTS:
+ *    page.tsx v5.30 walked every tickCache.masterBars entry + every staff system
+ *    on each playerPositionChanged, then ran a backward findBeat scan (≤2000 ticks)
+ *    and a forward scan (≤4000 ticks) on every beat entry. On long scores with
+ *    many repeats this dropped frames. The same "which pass owns this tick" lookup
+ *    was also duplicated in BeatCustomLoopOverlay.getExpandedBarRange and
+ *    CustomLoopOverlay.resolveExpandedBarStart.
+ *
+ *    ExpandedTimeline is built ONCE per scoreLoaded / renderFinished (or whenever
+ *    api.tickCache is replaced) and answers every lookup by binary search.
+ *
+ * Model:
+ *   ExpandedBar  = one playback occurrence of a master bar
+ *                  (masterBarIndex, occurrence, expandedStart, expandedEnd)
+ *   ExpandedBeat = one playback occurrence of a beat
+ *                  (bar occurrence + beat + expandedStart/End + nextExpandedBeat)
+ *
+ * Beat selection per bar mirrors the v5.30 bounds walk: tracks → staves → voices
+ * in order, first beat covering a tick wins. Secondary voices only fill gaps.
+ *
+ * 🔒 expandedStart = bar.expandedStart + beat.playbackStart
+ *    NEVER beat.absolutePlaybackStart — structural (pass-1 only), see #2548.
+ */
+
+import type {
+    AdapterBeat,
+    AdapterMasterBar,
+    AdapterMasterBarTickLookup,
+    AdapterTickCache,
+    AlphaTabAdapter,
+} from './AlphaTabAdapter';
+import { trackIndicesOf } from './AlphaTabAdapter';
+
+/** MidiUtils.QuarterTime — alphaTab ticks per quarter note. */
+export const TICKS_PER_QUARTER = 960;
+
+export interface ExpandedBar {
+    /** Position in timeline.bars (playback order). */
+    index: number;
+    masterBarIndex: number;
+    /** 0-based playback pass of this master bar. */
+    occurrence: number;
+    /** Linear playback run this occurrence belongs to — see V1.1 notes. */
+    segment: number;
+    masterBar: AdapterMasterBar;
+    expandedStart: number;
+    expandedEnd: number;
+}
+
+export interface ExpandedBeat {
+    /** Position in timeline.beats (playback order). */
+    index: number;
+    bar: ExpandedBar;
+    masterBarIndex: number;
+    occurrence: number;
+    beat: AdapterBeat;
+    expandedStart: number;
+    expandedEnd: number;
+    /** Next beat in PLAYBACK order — follows repeats, not beat.nextBeat. */
+    nextExpandedBeat: ExpandedBeat | null;
+}
+
+// ─────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────
+
+function barDurationOf(mb: AdapterMasterBarTickLookup): number {
+    const calc = mb.masterBar.calculateDuration?.();
+    if (typeof calc === 'number') return calc;
+    return mb.end - mb.start;
+}
+
+interface BarBeat {
+    beat: AdapterBeat;
+    /** playbackStart — offset inside the bar. */
+    offset: number;
+    duration: number;
+}
+
+/**
+ * Collects beats of one master bar in tracks → staves → voices order and keeps
+ * only the first beat covering each offset (v5.30 first-match semantics).
+ */
+function collectBarBeats(masterBar: AdapterMasterBar, trackIndices: Set<number>): BarBeat[] {
+    const tracks = masterBar.score?.tracks ?? [];
+    const candidates: (BarBeat & { order: number })[] = [];
+    let order = 0;
+
+    for (const track of tracks) {
+        if (!trackIndices.has(track.index)) continue;
+        for (const staff of track.staves) {
+            const bar = staff.bars[masterBar.index];
+            for (const voice of (bar?.voices ?? [])) {
+                if (voice.isEmpty) continue;
+                for (const beat of voice.beats) {
+                    const duration = beat.playbackDuration ?? 0;
+                    if (duration <= 0) continue;
+                    candidates.push({ beat, offset: beat.playbackStart ?? 0, duration, order: order++ });
+                }
+            }
+        }
+    }
+
+    candidates.sort((a, b) => a.offset - b.offset || a.order - b.order);
+
+    const result: BarBeat[] = [];
+    let coveredUntil = -Infinity;
+    for (const c of candidates) {
+        if (c.offset < coveredUntil) continue;
+        result.push(c);
+        coveredUntil = c.offset + c.duration;
+    }
+    return result;
+}
+
+/** Last item whose expandedStart <= tick, or -1. Items must be sorted by expandedStart. */
+function lowerBound(items: { expandedStart: number }[], tick: number): number {
+    let lo = 0;
+    let hi = items.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (items[mid].expandedStart <= tick) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found;
+}
+
+// ─────────────────────────────────────────────
+// Timeline
+// ─────────────────────────────────────────────
+
+export class ExpandedTimeline {
+    readonly bars: ExpandedBar[];
+    readonly beats: ExpandedBeat[];
+    private readonly occurrencesByIndex: Map<number, ExpandedBar[]>;
+
+    private constructor(bars: ExpandedBar[], beats: ExpandedBeat[]) {
+        this.bars = bars;
+        this.beats = beats;
+        this.occurrencesByIndex = new Map();
+        for (const bar of bars) {
+            const list = this.occurrencesByIndex.get(bar.masterBarIndex) ?? [];
+            list.push(bar);
+            this.occurrencesByIndex.set(bar.masterBarIndex, list);
+        }
+    }
+
+    /**
+     * Builds the timeline from api.tickCache.masterBars (playback order).
+     * Returns an empty timeline when tickCache is not available yet.
+     */
+    static build(api: AlphaTabAdapter | null | undefined, trackIndices: Set<number> = trackIndicesOf(api)): ExpandedTimeline {
+        const masterBarsArr = api?.tickCache?.masterBars ?? [];
+        const bars: ExpandedBar[] = [];
+        const beats: ExpandedBeat[] = [];
+        const occurrenceMap = new Map<number, number>();
+        let segment = 0;
+
+        for (const mb of masterBarsArr) {
+            const masterBarIndex = mb.masterBar?.index;
+            if (masterBarIndex == null) continue;
+            const occurrence = occurrenceMap.get(masterBarIndex) ?? 0;
+            occurrenceMap.set(masterBarIndex, occurrence + 1);
+
+            const dur = barDurationOf(mb);
+            if (dur <= 0) continue;
+
+            const prev = bars[bars.length - 1];
+            if (prev && masterBarIndex <= prev.masterBarIndex) segment++;
+
+            const bar: ExpandedBar = {
+                index: bars.length,
+                masterBarIndex,
+                occurrence,
+                segment,
+                masterBar: mb.masterBar,
+                expandedStart: mb.start,
+                expandedEnd: mb.start + dur,
+            };
+            bars.push(bar);
+
+            for (const { beat, offset, duration } of collectBarBeats(mb.masterBar, trackIndices)) {
+                const expandedStart = bar.expandedStart + offset;
+                if (expandedStart >= bar.expandedEnd) continue;
+                beats.push({
+                    index: beats.length,
+                    bar,
+                    masterBarIndex,
+                    occurrence,
+                    beat,
+                    expandedStart,
+                    expandedEnd: Math.min(expandedStart + duration, bar.expandedEnd),
+                    nextExpandedBeat: null,
+                });
+            }
+        }
+
+        for (let i = 0; i < beats.length - 1; i++) {
+            beats[i].nextExpandedBeat = beats[i + 1];
+        }
+
+        return new ExpandedTimeline(bars, beats);
+    }
+
+    get isEmpty(): boolean {
+        return this.bars.length === 0;
+    }
+
+    /** Bar occurrence owning tick — [expandedStart, expandedEnd). O(log n). */
+    findBar(tick: number): ExpandedBar | null {
+        const i = lowerBound(this.bars, tick);
+        if (i < 0) return null;
+        const bar = this.bars[i];
+        return tick < bar.expandedEnd ? bar : null;
+    }
+
+    /** Beat occurrence owning tick — [expandedStart, expandedEnd). O(log n). */
+    findBeat(tick: number): ExpandedBeat | null {
+        const i = lowerBound(this.beats, tick);
+        if (i < 0) return null;
+        const entry = this.beats[i];
+        return tick < entry.expandedEnd ? entry : null;
+    }
+
+    /** Last beat starting before endExclusive and at/after start — for loop wrap targets. */
+    findLastBeatBefore(start: number, endExclusive: number): ExpandedBeat | null {
+        const i = lowerBound(this.beats, endExclusive - 1);
+        if (i < 0) return null;
+        const entry = this.beats[i];
+        return entry.expandedStart >= start ? entry : null;
+    }
+
+    /** All playback occurrences of a master bar, in playback order. */
+    getOccurrences(masterBarIndex: number): ExpandedBar[] {
+        return this.occurrencesByIndex.get(masterBarIndex) ?? [];
+    }
+
+    /**
+     * Pass-aware occurrence lookup (V1.1).
+     * 1. Occurrence in the same playback segment as refTick (exact for voltas/jumps).
+     * 2. Otherwise the occurrence whose start is nearest refTick.
+     */
+    resolveOccurrence(masterBarIndex: number, refTick: number): ExpandedBar | null {
+        const instances = this.getOccurrences(masterBarIndex);
+        if (instances.length === 0) return null;
+        // refTick may sit on an exclusive end (loop end / score end) — look one tick back.
+        const ref = this.findBar(refTick) ?? this.findBar(refTick - 1);
+        if (ref) {
+            const same = instances.find(b => b.segment === ref.segment);
+            if (same) return same;
+        }
+        return this.findNearestOccurrence(masterBarIndex, refTick);
+    }
+
+    /**
+     * Moves tick into the segment owning targetTick, keeping its offset in the bar.
+     * Returns tick unchanged if its bar is not replayed in that segment.
+     */
+    alignToSegmentOf(tick: number, targetTick: number): number {
+        const from = this.findBar(tick) ?? this.findBar(tick - 1);
+        const target = this.findBar(targetTick) ?? this.findBar(targetTick - 1);
+        if (!from || !target || from.segment === target.segment) return tick;
+        const aligned = this.getOccurrences(from.masterBarIndex).find(b => b.segment === target.segment);
+        return aligned ? aligned.expandedStart + (tick - from.expandedStart) : tick;
+    }
+
+    /** Occurrence whose start is nearest refTick (v1.9 resolveExpandedBarStart semantics). */
+    findNearestOccurrence(masterBarIndex: number, refTick: number): ExpandedBar | null {
+        const instances = this.getOccurrences(masterBarIndex);
+        if (instances.length === 0) return null;
+        return instances.reduce((prev, curr) =>
+            Math.abs(curr.expandedStart - refTick) < Math.abs(prev.expandedStart - refTick) ? curr : prev
+        );
+    }
+}
+
+// ─────────────────────────────────────────────
+// Per-API cache
+// ─────────────────────────────────────────────
+
+// Keyed by api, then by track set ('all' = every rendered track — the shared cursor).
+const timelineCache = new WeakMap<object, Map<string, { tickCache: AdapterTickCache; timeline: ExpandedTimeline }>>();
+
+function trackKeyOf(trackIndices?: Set<number>): string {
+    return trackIndices ? [...trackIndices].sort((a, b) => a - b).join(',') : 'all';
+}
+
+/**
+ * Returns the cached timeline for this api, rebuilding if api.tickCache was
+ * replaced (new score / MIDI regeneration) or the cache was invalidated.
+ * Returns null if tickCache is not available yet.
+ *
+ * trackIndices restricts beat selection to those tracks (per-track cursors);
+ * omitted = all rendered tracks. Bars and ticks are identical either way.
+ */
+export function getExpandedTimeline(api: AlphaTabAdapter | null | undefined, trackIndices?: Set<number>): ExpandedTimeline | null {
+    if (!api) return null;
+    const tickCache = api.tickCache;
+    if (!tickCache) return null;
+
+    let perTrack = timelineCache.get(api);
+    if (!perTrack) {
+        perTrack = new Map();
+        timelineCache.set(api, perTrack);
+    }
+    const key = trackKeyOf(trackIndices);
+    const cached = perTrack.get(key);
+    if (cached && cached.tickCache === tickCache) return cached.timeline;
+
+    const timeline = trackIndices ? ExpandedTimeline.build(api, trackIndices) : ExpandedTimeline.build(api);
+    perTrack.set(key, { tickCache, timeline });
+    return timeline;
+}
+
+/** Drops every cached timeline for this api — call from scoreLoaded / renderFinished. */
+export function invalidateExpandedTimeline(api: AlphaTabAdapter | null | undefined): void {
+    if (api) timelineCache.delete(api);
+}
@@ -0,0 +1,578 @@
+/**
+ * FakeAlphaTab v1.4 — Deterministic In-Memory AlphaTabAdapter
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.4: FakeBarSpec.section — section marker on the bar (ScoreSections).
+ * 🔥 V1.3: metronomeVolume (plain field — loop pre-roll count-in).
+ *
+ * 🔥 V1.2 CHANGES:
+ * ✅ FakeBeatSpec.notes — strings/frets (+ letRing / tieDestination) with note
+ *    head bounds stacked by string, for SoundingNotes / NoteHeadHighlighter.
+ * ✅ renderer.boundsLookup is the same object until the next relayout (like the
+ *    engine) — identity-keyed caches no longer rebuild on every access.
+ *
+ * 🔥 V1.1 CHANGES:
+ * ✅ Recorded geometry: bars/beats may carry explicit bounds + onNotesX
+ *    (FakeBarSpec.bounds, FakeBeatSpec.bounds/onNotesX, setBarGeometry) so
+ *    PositionReplayer can rebuild the exact layout of a live recording.
+ * ✅ FakeBeatSpec.start — explicit offset for bars with gaps between beats.
+ * ✅ Staff systems are grouped by bar Y (not by barsPerSystem) — works for both.
+ * ✅ createStubContainer(): DOM-free container so MaestroCursor runs in Node.
+ *
+ * 🔥 V1.0 — Initial fake
+ *
+ * Builds beats, bars, repeats and bounds in code so the cursor walk modes,
+ * the loop intent gate and ExpandedTimeline can run in Node — no browser,
+ * no worker, no soundfont.
+ *
+ * Usage:
+ *   const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+ *   fake.addBar({ beats: [960, 960, 960, 960], repeatOpen: true });
+ *   fake.addBar({ beats: [1920, { duration: 1920, w: 1 }], repeatCount: 2 }); // w:1 ≈ whammy sustain
+ *   fake.addBar({ beats: [3840] });
+ *   fake.setPlaybackOrder([0, 1, 0, 1, 2]);   // optional — voltas / jumps
+ *   fake.emitPosition(1200);                  // drives playerPositionChanged
+ *
+ * Model fidelity (matches what the components rely on, see AlphaTabAdapter):
+ *   - tickCache.masterBars  → one entry per PLAYBACK occurrence, expanded starts
+ *   - tickCache.findBeat    → structural beat object (same instance every pass)
+ *   - tickCache.getBeatStart→ first-play expanded start (engine behaviour)
+ *   - beat.absolutePlaybackStart → structural (pass-1) start
+ *   - boundsLookup          → one row per system, bars laid out left → right
+ *   - masterBar.score.tracks[0].staves[0].bars[i].voices[0].beats → for ExpandedTimeline
+ *   - playerStateChanged    → like the engine: pause() reports stopped=false,
+ *                             only stop() (pause + rewind) reports stopped=true
+ */
+
+import type {
+    AdapterBar,
+    AdapterBarBounds,
+    AdapterBeat,
+    AdapterBeatBounds,
+    AdapterBounds,
+    AdapterEvent,
+    AdapterFindBeatResult,
+    AdapterMasterBar,
+    AdapterMasterBarBounds,
+    AdapterMasterBarTickLookup,
+    AdapterBoundsLookup,
+    AdapterNoteBounds,
+    AdapterPlaybackRange,
+    AdapterPlayerStateChangedArgs,
+    AdapterPositionChangedArgs,
+    AdapterScore,
+    AdapterStaffSystemBounds,
+    AdapterTickCache,
+    AdapterVoice,
+    AlphaTabAdapter,
+} from './AlphaTabAdapter';
+
+// ─────────────────────────────────────────────
+// Specs
+// ─────────────────────────────────────────────
+
+export interface FakeBeatSpec {
+    duration: number;
+    /** Offset inside the bar. Defaults to the end of the previous beat. */
+    start?: number;
+    /** Override visual width (near-zero models AlphaTab's whammy/sustain vbW). */
+    w?: number;
+    /** Recorded geometry — replaces the layout-derived bounds entirely. */
+    bounds?: AdapterBounds;
+    onNotesX?: number;
+    /** Notes on this beat (none = rest). Head bounds are stacked by string, 12px apart. */
+    notes?: FakeNoteSpec[];
+}
+
+export interface FakeNoteSpec {
+    string: number;
+    fret: number;
+    letRing?: boolean;
+    tieDestination?: boolean;
+}
+
+export interface FakeBarSpec {
+    /** Beat durations in ticks (or specs). Must sum to the bar duration. */
+    beats: (number | FakeBeatSpec)[];
+    repeatOpen?: boolean;
+    /** Total plays of the repeat closed by this bar (2 = play twice). */
+    repeatCount?: number;
+    /** Bar duration when beats leave a tail gap. Defaults to the beat end. */
+    duration?: number;
+    /** Recorded master bar bounds — replaces the layout grid position. */
+    bounds?: AdapterBounds;
+    /** Section marker text ("Verse") — starts a section at this bar. */
+    section?: string;
+}
+
+/** Recorded geometry for one bar — see setBarGeometry(). */
+export interface FakeBarGeometry {
+    bounds: AdapterBounds;
+    beats: { bounds: AdapterBounds; onNotesX: number }[];
+}
+
+export interface FakeLayout {
+    originX: number;
+    originY: number;
+    barWidth: number;
+    barHeight: number;
+    barsPerSystem: number;
+    systemGap: number;
+}
+
+const DEFAULT_LAYOUT: FakeLayout = {
+    originX: 0,
+    originY: 0,
+    barWidth: 200,
+    barHeight: 100,
+    barsPerSystem: 4,
+    systemGap: 50,
+};
+
+// ─────────────────────────────────────────────
+// Model objects
+// ─────────────────────────────────────────────
+
+export class FakeEvent<T> implements AdapterEvent<T> {
+    private handlers: ((arg: T) => void)[] = [];
+
+    on(handler: (arg: T) => void): () => void {
+        this.handlers.push(handler);
+        return () => this.off(handler);
+    }
+
+    off(handler: (arg: T) => void): void {
+        this.handlers = this.handlers.filter(h => h !== handler);
+    }
+
+    emit(arg: T): void {
+        for (const h of [...this.handlers]) h(arg);
+    }
+}
+
+interface FakeMasterBar extends AdapterMasterBar {
+    score: FakeScore;
+    repeatOpen: boolean;
+    repeatCount: number;
+    duration: number;
+}
+
+interface FakeBeat extends AdapterBeat {
+    duration: number;
+    /** Spec override for visual width. */
+    visualWidth?: number;
+}
+
+/** Minimal element surface MaestroCursor touches (style, innerHTML, label lookup). */
+export interface FakeElement {
+    id: string;
+    className: string;
+    innerHTML: string;
+    style: Record<string, string>;
+    children: FakeElement[];
+    parentElement: FakeElement | null;
+    ownerDocument: { createElement(tag: string): FakeElement };
+    appendChild(child: FakeElement): FakeElement;
+    removeChild(child: FakeElement): FakeElement;
+    querySelector(selector: string): FakeElement | null;
+}
+
+/**
+ * DOM-free container for MaestroCursor in Node. Cast at the call site:
+ *   new MaestroCursor(fake, createStubContainer() as unknown as HTMLElement)
+ */
+export function createStubContainer(): FakeElement {
+    const ownerDocument = { createElement: () => createElement() };
+    const createElement = (): FakeElement => ({
+        id: '',
+        className: '',
+        innerHTML: '',
+        style: {},
+        children: [],
+        parentElement: null,
+        ownerDocument,
+        appendChild(child) {
+            child.parentElement = this;
+            this.children.push(child);
+            return child;
+        },
+        removeChild(child) {
+            this.children = this.children.filter(c => c !== child);
+            child.parentElement = null;
+            return child;
+        },
+        querySelector(selector) {
+            const cls = selector.startsWith('.') ? selector.slice(1) : null;
+            return this.children.find(c => cls != null && c.className === cls) ?? null;
+        },
+    });
+    return createElement();
+}
+
+interface FakeVoice extends AdapterVoice {
+    bar: FakeBar;
+    beats: FakeBeat[];
+}
+
+interface FakeBar extends AdapterBar {
+    masterBar: FakeMasterBar;
+    voices: FakeVoice[];
+}
+
+interface FakeScore extends AdapterScore {
+    masterBars: FakeMasterBar[];
+    tracks: { index: number; staves: { bars: FakeBar[] }[] }[];
+}
+
+// ─────────────────────────────────────────────
+// Fake
+// ─────────────────────────────────────────────
+
+export class FakeAlphaTab implements AlphaTabAdapter {
+    readonly layout: FakeLayout;
+    readonly score: FakeScore;
+    readonly tracks = [{ index: 0 }];
+    readonly settings = { display: { scale: 1 } };
+    readonly isReadyForPlayback = true;
+
+    readonly playerPositionChanged = new FakeEvent<AdapterPositionChangedArgs>();
+    readonly playerStateChanged = new FakeEvent<AdapterPlayerStateChangedArgs>();
+    readonly renderFinished = new FakeEvent<unknown>();
+
+    tickPosition = 0;
+    playbackRange: AdapterPlaybackRange | null = null;
+    isLooping = false;
+    playbackSpeed = 1;
+    metronomeVolume = 0;
+
+    private state = 0;
+    private playbackOrder: number[] | null = null;
+    private geometry = new Map<number, FakeBarGeometry>();
+    private tickCacheImpl: AdapterTickCache | null = null;
+    private boundsImpl: {
+        staffSystems: AdapterStaffSystemBounds[];
+        beatBounds: Map<AdapterBeat, AdapterBeatBounds>;
+        masterBarBounds: Map<number, AdapterMasterBarBounds>;
+        lookup: AdapterBoundsLookup;
+    } | null = null;
+
+    constructor(layout: Partial<FakeLayout> = {}) {
+        this.layout = { ...DEFAULT_LAYOUT, ...layout };
+        this.score = {
+            masterBars: [],
+            tracks: [{ index: 0, staves: [{ bars: [] }] }],
+        };
+    }
+
+    // ─────────────────────────────────────────
+    // Builder
+    // ─────────────────────────────────────────
+
+    addBar(spec: FakeBarSpec): AdapterMasterBar {
+        const index = this.score.masterBars.length;
+        const specs: FakeBeatSpec[] = spec.beats.map(b => typeof b === 'number' ? { duration: b } : b);
+        let beatEnd = 0;
+        for (const s of specs) beatEnd = (s.start ?? beatEnd) + s.duration;
+        const duration = spec.duration ?? beatEnd;
+        const prev = this.score.masterBars[index - 1];
+        const start = prev ? prev.start + prev.duration : 0;
+
+        const masterBar: FakeMasterBar = {
+            index,
+            start,
+            duration,
+            score: this.score,
+            repeatOpen: !!spec.repeatOpen,
+            repeatCount: spec.repeatCount ?? 0,
+            section: spec.section != null ? { marker: '', text: spec.section } : null,
+            calculateDuration: () => duration,
+        };
+        const bar: FakeBar = { index, masterBar, voices: [] };
+        const voice: FakeVoice = { bar, beats: [], isEmpty: specs.length === 0 };
+        bar.voices.push(voice);
+
+        const prevBeats = this.score.tracks[0].staves[0].bars[index - 1]?.voices[0].beats;
+        let previousBeat: FakeBeat | null = prevBeats?.[prevBeats.length - 1] ?? null;
+        let offset = 0;
+        for (const s of specs) {
+            offset = s.start ?? offset;
+            const beat: FakeBeat = {
+                absolutePlaybackStart: start + offset,
+                playbackStart: offset,
+                playbackDuration: s.duration,
+                duration: s.duration,
+                visualWidth: s.w,
+                notes: (s.notes ?? []).map((n, i) => ({
+                    index: i,
+                    string: n.string,
+                    fret: n.fret,
+                    isLetRing: !!n.letRing,
+                    isTieDestination: !!n.tieDestination,
+                    isDead: false,
+                })),
+                voice,
+                nextBeat: null,
+                previousBeat,
+            };
+            if (previousBeat) previousBeat.nextBeat = beat;
+            bar.voices[0].beats.push(beat);
+            previousBeat = beat;
+            offset += s.duration;
+        }
+
+        this.score.masterBars.push(masterBar);
+        this.score.tracks[0].staves[0].bars.push(bar);
+        if (spec.bounds) {
+            this.geometry.set(index, {
+                bounds: spec.bounds,
+                beats: specs.map(s => {
+                    const b = s.bounds ?? spec.bounds!;
+                    return { bounds: b, onNotesX: s.onNotesX ?? b.x + b.w / 2 };
+                }),
+            });
+        }
+        this.invalidate();
+        return masterBar;
+    }
+
+    /**
+     * Pins one bar to recorded geometry (null = back to the layout grid).
+     * Call relayout({}) afterwards to fire renderFinished.
+     */
+    setBarGeometry(index: number, geometry: FakeBarGeometry | null): void {
+        if (geometry) this.geometry.set(index, geometry);
+        else this.geometry.delete(index);
+        this.boundsImpl = null;
+    }
+
+    /** Explicit playback order of master bar indices (voltas, D.S./D.C. jumps). null = from repeats. */
+    setPlaybackOrder(order: number[] | null): void {
+        this.playbackOrder = order;
+        this.invalidate();
+    }
+
+    /** Replaces bar geometry (zoom / resize) and fires renderFinished. */
+    relayout(layout: Partial<FakeLayout>): void {
+        Object.assign(this.layout, layout);
+        this.boundsImpl = null;
+        this.renderFinished.emit(undefined);
+    }
+
+    // ─────────────────────────────────────────
+    // Transport simulation
+    // ─────────────────────────────────────────
+
+    get playerState(): number {
+        return this.state;
+    }
+
+    play(): boolean {
+        this.setState(1, false);
+        return true;
+    }
+
+    pause(): void {
+        this.setState(0, false);
+    }
+
+    /** Engine stop(): paused AND rewound to the range start — the only stopped=true. */
+    stop(): void {
+        this.tickPosition = this.playbackRange?.startTick ?? 0;
+        this.setState(0, true);
+    }
+
+    /** Moves the transport and fires playerPositionChanged, like the worker does. */
+    emitPosition(tick: number): void {
+        this.tickPosition = tick;
+        const endTick = this.tickCache?.masterBars.at(-1)?.end ?? 0;
+        this.playerPositionChanged.emit({ currentTick: tick, endTick, currentTime: 0, endTime: 0 });
+    }
+
+    // Like the engine: pause() reports stopped=false, only stop() reports true.
+    private setState(state: number, stopped: boolean): void {
+        if (this.state === state && !stopped) return;
+        this.state = state;
+        this.playerStateChanged.emit({ state, stopped });
+    }
+
+    // ─────────────────────────────────────────
+    // AlphaTabAdapter surface
+    // ─────────────────────────────────────────
+
+    get tickCache(): AdapterTickCache | null {
+        if (this.score.masterBars.length === 0) return null;
+        if (!this.tickCacheImpl) this.tickCacheImpl = this.buildTickCache();
+        return this.tickCacheImpl;
+    }
+
+    get renderer(): AlphaTabAdapter['renderer'] {
+        return {
+            renderFinished: this.renderFinished,
+            boundsLookup: this.bounds()?.lookup ?? null,
+        };
+    }
+
+    // ─────────────────────────────────────────
+    // Internals
+    // ─────────────────────────────────────────
+
+    private invalidate(): void {
+        this.tickCacheImpl = null;
+        this.boundsImpl = null;
+    }
+
+    /** Playback order from repeat marks (open/close with count). Voltas need setPlaybackOrder. */
+    private resolvePlaybackOrder(): number[] {
+        if (this.playbackOrder) return this.playbackOrder;
+        const bars = this.score.masterBars;
+        const order: number[] = [];
+        const passes = new Map<number, number>();
+        let repeatStart = 0;
+        let i = 0;
+        while (i < bars.length) {
+            const bar = bars[i];
+            if (bar.repeatOpen) repeatStart = i;
+            order.push(i);
+            if (bar.repeatCount > 1) {
+                const played = passes.get(i) ?? 1;
+                if (played < bar.repeatCount) {
+                    passes.set(i, played + 1);
+                    i = repeatStart;
+                    continue;
+                }
+                passes.delete(i);
+            }
+            i++;
+        }
+        return order;
+    }
+
+    private buildTickCache(): AdapterTickCache {
+        const bars = this.score.masterBars;
+        const beatsOf = (mb: AdapterMasterBar) => this.score.tracks[0].staves[0].bars[mb.index].voices[0].beats;
+
+        const masterBars: AdapterMasterBarTickLookup[] = [];
+        let tick = 0;
+        for (const idx of this.resolvePlaybackOrder()) {
+            const masterBar = bars[idx];
+            masterBars.push({ start: tick, end: tick + masterBar.duration, masterBar });
+            tick += masterBar.duration;
+        }
+
+        const firstStart = new Map<number, number>();
+        for (const mb of masterBars) {
+            if (!firstStart.has(mb.masterBar.index)) firstStart.set(mb.masterBar.index, mb.start);
+        }
+
+        const resultAt = (occIdx: number, beat: FakeBeat, withNext: boolean): AdapterFindBeatResult => {
+            const occ = masterBars[occIdx];
+            const beats = beatsOf(occ.masterBar);
+            const i = beats.indexOf(beat);
+            let nextBeat: AdapterFindBeatResult | null = null;
+            if (withNext) {
+                if (i + 1 < beats.length) {
+                    nextBeat = resultAt(occIdx, beats[i + 1], false);
+                } else if (occIdx + 1 < masterBars.length) {
+                    const nextBeats = beatsOf(masterBars[occIdx + 1].masterBar);
+                    if (nextBeats.length) nextBeat = resultAt(occIdx + 1, nextBeats[0], false);
+                }
+            }
+            return { beat, start: occ.start + beat.playbackStart, nextBeat };
+        };
+
+        return {
+            masterBars,
+            findBeat: (_trackLookup: Set<number>, t: number) => {
+                const occIdx = masterBars.findIndex(mb => t >= mb.start && t < mb.end);
+                if (occIdx < 0) return null;
+                const offset = t - masterBars[occIdx].start;
+                const beat = beatsOf(masterBars[occIdx].masterBar)
+                    .find(b => offset >= b.playbackStart && offset < b.playbackStart + b.playbackDuration);
+                return beat ? resultAt(occIdx, beat, true) : null;
+            },
+            getBeatStart: (beat: AdapterBeat) =>
+                (firstStart.get(beat.voice.bar.masterBar.index) ?? 0) + beat.playbackStart,
+        };
+    }
+
+    private bounds() {
+        if (this.boundsImpl) return this.boundsImpl;
+        if (this.score.masterBars.length === 0) return null;
+
+        const { originX, originY, barWidth, barHeight, barsPerSystem, systemGap } = this.layout;
+        const staffSystems: AdapterStaffSystemBounds[] = [];
+        const systemsByY = new Map<number, AdapterStaffSystemBounds>();
+        const beatBounds = new Map<AdapterBeat, AdapterBeatBounds>();
+        const masterBarBounds = new Map<number, AdapterMasterBarBounds>();
+
+        for (const bar of this.score.tracks[0].staves[0].bars) {
+            const recorded = this.geometry.get(bar.index);
+            const row = Math.floor(bar.index / barsPerSystem);
+            const col = bar.index % barsPerSystem;
+            const vb: AdapterBounds = recorded?.bounds ?? {
+                x: originX + col * barWidth,
+                y: originY + row * (barHeight + systemGap),
+                w: barWidth,
+                h: barHeight,
+            };
+
+            // One system per row — bars on the same line share their Y.
+            let system = systemsByY.get(vb.y);
+            if (!system) {
+                system = { visualBounds: { ...vb }, bars: [] };
+                systemsByY.set(vb.y, system);
+                staffSystems.push(system);
+            } else {
+                const sb = system.visualBounds;
+                const right = Math.max(sb.x + sb.w, vb.x + vb.w);
+                sb.x = Math.min(sb.x, vb.x);
+                sb.w = right - sb.x;
+                sb.h = Math.max(sb.h, vb.h);
+            }
+
+            const barBounds: AdapterBarBounds = { bar, visualBounds: vb, beats: [] };
+            const duration = bar.masterBar.duration;
+            bar.voices[0].beats.forEach((beat, i) => {
+                const rb = recorded?.beats[i];
+                let bb: AdapterBeatBounds;
+                if (rb) {
+                    bb = { beat, visualBounds: rb.bounds, onNotesX: rb.onNotesX };
+                } else {
+                    const x = vb.x + vb.w * (beat.playbackStart / duration);
+                    const w = beat.visualWidth ?? vb.w * (beat.playbackDuration / duration);
+                    bb = {
+                        beat,
+                        visualBounds: { x, y: vb.y, w, h: vb.h },
+                        onNotesX: x + Math.min(w / 2, 10),
+                    };
+                }
+                bb.notes = beat.notes.map((note): AdapterNoteBounds => ({
+                    note,
+                    noteHeadBounds: { x: bb.onNotesX - 5, y: vb.y + (note.string - 1) * 12, w: 10, h: 8 },
+                }));
+                barBounds.beats.push(bb);
+                beatBounds.set(beat, bb);
+            });
+
+            const mbb: AdapterMasterBarBounds = { index: bar.index, visualBounds: vb, bars: [barBounds] };
+            system.bars.push(mbb);
+            masterBarBounds.set(bar.index, mbb);
+        }
+
+        const lookup: AdapterBoundsLookup = {
+            staffSystems,
+            findBeat: (beat: AdapterBeat) => beatBounds.get(beat) ?? null,
+            findMasterBar: (mb: AdapterMasterBar) => masterBarBounds.get(mb.index) ?? null,
+            getBeatAtPos: (x: number, y: number) => {
+                for (const bb of beatBounds.values()) {
+                    const vb = bb.visualBounds;
+                    if (x >= vb.x && x < vb.x + vb.w && y >= vb.y && y <= vb.y + vb.h) return bb.beat;
+                }
+                return null;
+            },
+        };
+
+        this.boundsImpl = { staffSystems, beatBounds, masterBarBounds, lookup };
+        return this.boundsImpl;
+    }
+}
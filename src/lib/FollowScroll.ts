@@ -0,0 +1,203 @@
+/**
+ * FollowScroll v1.0 — Auto-Scroll Driven by MaestroCursor
+ * Date: March 5th, 2026
+ *
+ * page.tsx runs alphaTab with ScrollMode.Off — the native scroller follows the
+ * NATIVE cursor, which is structural (pass-1) in repeats and would yank the
+ * page back on every repeat pass. FollowScroll follows MaestroCursor's own
+ * applied position (getPosition) instead, so it is repeat-aware for free.
+ *
+ * Modes:
+ *   'off'          — never scrolls
+ *   'upper-third'  — on row change, scroll so the cursor row sits at 1/3 height
+ *   'page-flip'    — only when the row leaves the viewport: put it at the top
+ *   'horizontal'   — continuous: keep cursor X at 1/3 width (horizontal layout)
+ *
+ * Suspension: suspend(reason) / resume(reason) — reason-counted so both loop
+ * overlays can hold it independently. Resuming recentres.
+ * Recentre: after seeks and loop wraps (tick moved backward or jumped > 2000),
+ * the next update scrolls even if the row did not change.
+ *
+ * 🔒 Vertical modes scroll at most once per row change (smooth) — calling
+ *    scrollTo on every position event (~10-30fps) cancels the smooth animation.
+ */
+
+import type { AdapterBounds, AlphaTabAdapter } from './AlphaTabAdapter';
+
+export type FollowScrollMode = 'off' | 'upper-third' | 'page-flip' | 'horizontal';
+
+export const FOLLOW_SCROLL_MODES: { id: FollowScrollMode; label: string }[] = [
+    { id: 'off', label: 'Off' },
+    { id: 'upper-third', label: 'Keep row in upper third' },
+    { id: 'page-flip', label: 'Page-flip at system end' },
+    { id: 'horizontal', label: 'Horizontal smooth follow' },
+];
+
+export interface FollowScrollOptions {
+    mode?: FollowScrollMode;
+    /** Element that scrolls. Defaults to the window. */
+    scrollTarget?: HTMLElement | Window;
+    /** Cursor centre in container coordinates — MaestroCursor.getPosition(). */
+    getCursorPosition: () => { x: number; y: number } | null;
+    /** Gap kept above the row in page-flip mode (px). */
+    flipMargin?: number;
+}
+
+// Same threshold as CursorDriver jump detection.
+const JUMP_THRESHOLD = 2000;
+// Horizontal follow ignores sub-pixel jitter.
+const MIN_HORIZONTAL_STEP = 1;
+
+export class FollowScroll {
+    private readonly api: AlphaTabAdapter;
+    private readonly container: HTMLElement;
+    private readonly getCursorPosition: () => { x: number; y: number } | null;
+    private readonly flipMargin: number;
+    private scrollTarget: HTMLElement | Window;
+    private modeValue: FollowScrollMode;
+    private suspendReasons = new Set<string>();
+    private lastRowY: number | null = null;
+    private lastTick: number | null = null;
+    private recenterPending = true;
+
+    constructor(api: AlphaTabAdapter, container: HTMLElement, options: FollowScrollOptions) {
+        this.api = api;
+        this.container = container;
+        this.getCursorPosition = options.getCursorPosition;
+        this.flipMargin = options.flipMargin ?? 20;
+        this.scrollTarget = options.scrollTarget ?? window;
+        this.modeValue = options.mode ?? 'off';
+    }
+
+    get mode(): FollowScrollMode {
+        return this.modeValue;
+    }
+
+    get isSuspended(): boolean {
+        return this.suspendReasons.size > 0;
+    }
+
+    setMode(mode: FollowScrollMode): void {
+        if (mode === this.modeValue) return;
+        this.modeValue = mode;
+        this.recenter();
+    }
+
+    setScrollTarget(target: HTMLElement | Window): void {
+        this.scrollTarget = target;
+        this.recenter();
+    }
+
+    /** e.g. 'loop-drag' while an overlay gesture is active. */
+    suspend(reason: string): void {
+        this.suspendReasons.add(reason);
+    }
+
+    resume(reason: string): void {
+        if (!this.suspendReasons.delete(reason)) return;
+        if (this.suspendReasons.size === 0) this.recenter();
+    }
+
+    /** Next update() scrolls regardless of row change (seek, wrap, layout, resume). */
+    recenter(): void {
+        this.recenterPending = true;
+    }
+
+    /**
+     * Call after the cursor has been updated for this tick (same
+     * playerPositionChanged handler, after TrackCursors.handlePosition).
+     */
+    update(tick?: number | null): void {
+        if (tick != null) {
+            const last = this.lastTick;
+            if (last != null && (tick < last || tick - last > JUMP_THRESHOLD)) this.recenter();
+            this.lastTick = tick;
+        }
+        if (this.modeValue === 'off' || this.isSuspended) return;
+
+        const pos = this.getCursorPosition();
+        if (!pos) return;
+        const row = this.rowBoundsAt(pos.y);
+        const rowTop = row?.y ?? pos.y;
+        const rowHeight = row?.h ?? 0;
+
+        const origin = this.containerOrigin();
+        const view = this.viewport();
+        const force = this.recenterPending;
+        this.recenterPending = false;
+
+        switch (this.modeValue) {
+            case 'upper-third': {
+                if (!force && rowTop === this.lastRowY) return;
+                this.lastRowY = rowTop;
+                this.scrollTo({ top: origin.top + rowTop - view.height / 3 });
+                return;
+            }
+            case 'page-flip': {
+                const changed = rowTop !== this.lastRowY;
+                this.lastRowY = rowTop;
+                if (!force && !changed) return;
+                const top = origin.top + rowTop;
+                const bottom = top + rowHeight;
+                const visible = top >= view.top && bottom <= view.top + view.height;
+                if (!force && visible) return;
+                this.scrollTo({ top: top - this.flipMargin });
+                return;
+            }
+            case 'horizontal': {
+                const left = origin.left + pos.x - view.width / 3;
+                if (!force && Math.abs(left - view.left) < MIN_HORIZONTAL_STEP) return;
+                // Continuous follow — no smooth animation, events are frequent enough.
+                this.scrollTo({ left }, 'auto');
+                return;
+            }
+        }
+    }
+
+    // ─────────────────────────────────────────
+    // Internals
+    // ─────────────────────────────────────────
+
+    /** Staff system containing y (container coordinates). */
+    private rowBoundsAt(y: number): AdapterBounds | null {
+        const systems = this.api.renderer?.boundsLookup?.staffSystems ?? [];
+        for (const system of systems) {
+            const vb = system.visualBounds;
+            if (y >= vb.y - 1 && y <= vb.y + vb.h + 1) return vb;
+        }
+        return null;
+    }
+
+    /** Container top-left in the scroll target's content coordinates. */
+    private containerOrigin(): { top: number; left: number } {
+        const rect = this.container.getBoundingClientRect();
+        const target = this.scrollTarget;
+        if (isWindow(target)) {
+            return { top: rect.top + target.scrollY, left: rect.left + target.scrollX };
+        }
+        const targetRect = target.getBoundingClientRect();
+        return {
+            top: rect.top - targetRect.top + target.scrollTop,
+            left: rect.left - targetRect.left + target.scrollLeft,
+        };
+    }
+
+    private viewport(): { top: number; left: number; width: number; height: number } {
+        const target = this.scrollTarget;
+        if (isWindow(target)) {
+            return { top: target.scrollY, left: target.scrollX, width: target.innerWidth, height: target.innerHeight };
+        }
+        return { top: target.scrollTop, left: target.scrollLeft, width: target.clientWidth, height: target.clientHeight };
+    }
+
+    private scrollTo(to: { top?: number; left?: number }, behavior: ScrollBehavior = 'smooth'): void {
+        const options: ScrollToOptions = { behavior };
+        if (to.top != null) options.top = Math.max(0, to.top);
+        if (to.left != null) options.left = Math.max(0, to.left);
+        this.scrollTarget.scrollTo(options);
+    }
+}
+
+function isWindow(target: HTMLElement | Window): target is Window {
+    return typeof (target as Window).innerHeight === 'number' && (target as Window).window === target;
+}
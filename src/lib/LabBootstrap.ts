@@ -0,0 +1,72 @@
+/**
+ * LabBootstrap v1.1 — Per-Instance AlphaTab Setup
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.1: loadSample returns the raw file bytes — saved loops are keyed by
+ *    their content hash (SavedLoops.scoreContentHash).
+ *
+ * Everything page.tsx did inline to start an AlphaTab instance, made safe to
+ * run more than once on the same page (lesson pages show the original score
+ * and a simplified arrangement side by side):
+ *
+ *   createLabSettings() — the lab's Settings (Tab profile, ScrollMode.Off,
+ *                         note bounds on, user interaction off)
+ *   loadSample()        — .gp* via api.load, .atex via api.tex; returns the
+ *                         file bytes (content hash for saved loops)
+ *   registerDebugApi()  — window.__at[id] instead of one shared window.__at
+ *
+ * 🔒 Nothing here touches `document` — every lookup goes through the
+ *    instance's own container (see surfaceOf in AlphaTabAdapter).
+ */
+
+import type { AlphaTabApi } from '@coderline/alphatab';
+
+type AlphaTabModule = typeof import('@coderline/alphatab');
+
+/** Settings shared by every lab instance (page.tsx v5.30+ values). */
+export function createLabSettings(alphaTab: AlphaTabModule) {
+    const settings = new alphaTab.Settings();
+    settings.core.engine = 'svg';
+    settings.core.logLevel = alphaTab.LogLevel.Debug;
+    settings.core.fontDirectory =
+        'https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/font/';
+    settings.core.includeNoteBounds = true;
+    settings.core.enableLazyLoading = false;
+    settings.core.useWorkers = true;
+    settings.display.scale = 1.0;
+    settings.display.layoutMode = alphaTab.LayoutMode.Page;
+    settings.display.staveProfile = alphaTab.StaveProfile.Tab;
+    settings.player.enablePlayer = true;
+    settings.player.soundFont = '/soundfont/sonivox.sf2';
+    settings.player.scrollMode = alphaTab.ScrollMode.Off; // FollowScroll drives scrolling (v5.37)
+    settings.player.playerMode = alphaTab.PlayerMode.EnabledSynthesizer;
+    settings.player.enableUserInteraction = false;
+    settings.player.enableCursor = true;
+    settings.player.enableAnimatedBeatCursor = true;
+    return settings;
+}
+
+/** Loads a sample and returns the raw file bytes (SavedLoops content hash). */
+export async function loadSample(api: AlphaTabApi, url: string): Promise<Uint8Array> {
+    const response = await fetch(url);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (url.endsWith('.atex')) {
+        api.tex(new TextDecoder().decode(bytes));
+    } else {
+        api.load(bytes);
+    }
+    return bytes;
+}
+
+/**
+ * Console handle per instance: window.__at.main, window.__at.simplified, …
+ * Returns an unregister function (call on unmount).
+ */
+export function registerDebugApi(id: string, api: AlphaTabApi): () => void {
+    if (typeof window === 'undefined') return () => {};
+    const handles = (window.__at ??= {});
+    handles[id] = api;
+    return () => {
+        if (handles[id] === api) delete handles[id];
+    };
+}
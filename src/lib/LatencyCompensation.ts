@@ -0,0 +1,212 @@
+/**
+ * LatencyCompensation v1.1 — Audio Output Latency → Visual Tick Offset
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.1: tempoAtTick(api, tick) exported — the loop rest converts beats to
+ *    milliseconds with the same tempo lookup.
+ *
+ * playerPositionChanged reports the tick the synth has RENDERED, not the tick
+ * the listener HEARS. With Bluetooth headphones or a large audio buffer the
+ * sound arrives 100-300ms later, so the cursor runs ahead of the music.
+ *
+ *   visualTick = engineTick - latencyMs × (tempo / 60000) × playbackSpeed × 960
+ *
+ * Tempo comes from the tick cache (tempoChanges of the occurrence under the
+ * tick), so tempo changes and the speed trainer stay in sync.
+ *
+ * Where it applies (VISUALS ONLY):
+ *   - CursorDriver (options.visualTick) — after the loop enforcer, before
+ *     beat resolution
+ *   - NoteHeadHighlighter.update() — page.tsx passes the visual tick
+ *
+ * 🔒 Never applied to seek targets, tickPosition writes, playbackRange, the
+ *    loop enforcer or manual loop wrap math — those talk to the ENGINE.
+ * 🔒 No shift while paused — nothing is in the audio pipeline.
+ * 🔒 Clamped to the loop start while a range is set — right after a wrap the
+ *    cursor waits at the loop start instead of flashing the bar before it.
+ *
+ * Profiles: the offset is stored per output device (localStorage) — the
+ * same laptop has ~20ms on speakers and ~200ms on Bluetooth.
+ */
+
+import type { AlphaTabAdapter } from './AlphaTabAdapter';
+import { TICKS_PER_QUARTER } from './ExpandedTimeline';
+
+/** Used when the tick cache has no tempo information (FakeAlphaTab). */
+export const DEFAULT_TEMPO = 120;
+/** Anything above this is a mis-tap, not a real device. */
+export const MAX_LATENCY_MS = 1000;
+
+export interface LatencyCompensationOptions {
+    latencyMs?: number;
+}
+
+export class LatencyCompensation {
+    private readonly api: AlphaTabAdapter;
+    private latencyMsValue: number;
+
+    constructor(api: AlphaTabAdapter, options: LatencyCompensationOptions = {}) {
+        this.api = api;
+        this.latencyMsValue = clampLatency(options.latencyMs ?? 0);
+    }
+
+    get latencyMs(): number {
+        return this.latencyMsValue;
+    }
+
+    setLatencyMs(ms: number): void {
+        this.latencyMsValue = clampLatency(ms);
+    }
+
+    /** Quarter-note tempo at an expanded tick (last tempo change at or before it). */
+    tempoAt(tick: number): number {
+        return tempoAtTick(this.api, tick);
+    }
+
+    /** Latency expressed in ticks at this position (tempo × playback speed). */
+    latencyTicksAt(tick: number): number {
+        if (this.latencyMsValue <= 0) return 0;
+        const speed = this.api.playbackSpeed > 0 ? this.api.playbackSpeed : 1;
+        return (this.latencyMsValue / 60000) * this.tempoAt(tick) * speed * TICKS_PER_QUARTER;
+    }
+
+    /** Engine tick → the tick the listener is hearing right now. */
+    toVisualTick(tick: number): number {
+        if (this.latencyMsValue <= 0) return tick;
+        // PlayerState.Paused = 0 — parked transport, nothing in flight.
+        if ((this.api.playerState ?? 0) === 0) return tick;
+        const shifted = tick - this.latencyTicksAt(tick);
+        const start = this.api.playbackRange?.startTick;
+        if (start != null && tick >= start) return Math.max(start, shifted);
+        return Math.max(0, shifted);
+    }
+}
+
+/** Quarter-note tempo at an expanded tick — tick cache tempoChanges, DEFAULT_TEMPO without. */
+export function tempoAtTick(api: AlphaTabAdapter, tick: number): number {
+    const lookups = api.tickCache?.masterBars ?? [];
+    let lo = 0;
+    let hi = lookups.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (lookups[mid].start <= tick) { found = mid; lo = mid + 1; } else { hi = mid - 1; }
+    }
+    for (let i = found; i >= 0; i--) {
+        const changes = lookups[i].tempoChanges ?? [];
+        for (let c = changes.length - 1; c >= 0; c--) {
+            if (changes[c].tick <= tick && changes[c].tempo > 0) return changes[c].tempo;
+        }
+    }
+    return DEFAULT_TEMPO;
+}
+
+function clampLatency(ms: number): number {
+    if (!Number.isFinite(ms)) return 0;
+    return Math.max(0, Math.min(MAX_LATENCY_MS, Math.round(ms)));
+}
+
+// ─────────────────────────────────────────────
+// Per-device profiles
+// ─────────────────────────────────────────────
+
+const STORAGE_KEY = 'maestro.latency.v1';
+/** Profile key when alphaTab plays through the system default output. */
+export const DEFAULT_DEVICE_ID = 'default';
+
+export interface LatencyProfile {
+    latencyMs: number;
+    /** Output device label at calibration time (display only). */
+    label: string;
+    calibratedAt: string;
+}
+
+function readProfiles(): Record<string, LatencyProfile> {
+    if (typeof localStorage === 'undefined') return {};
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+    } catch {
+        return {};
+    }
+}
+
+export function loadLatencyProfile(deviceId: string): LatencyProfile | null {
+    return readProfiles()[deviceId] ?? null;
+}
+
+export function saveLatencyProfile(deviceId: string, profile: LatencyProfile): void {
+    if (typeof localStorage === 'undefined') return;
+    const profiles = readProfiles();
+    profiles[deviceId] = { ...profile, latencyMs: clampLatency(profile.latencyMs) };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/** alphaTab's current output device — default device when never changed. */
+export async function currentOutputDevice(api: AlphaTabAdapter): Promise<{ deviceId: string; label: string }> {
+    const device = await api.getOutputDevice?.().catch(() => null);
+    if (!device || device.isDefault) return { deviceId: DEFAULT_DEVICE_ID, label: 'System default output' };
+    return { deviceId: device.deviceId, label: device.label || device.deviceId };
+}
+
+// ─────────────────────────────────────────────
+// Calibration math (tap along to clicks)
+// ─────────────────────────────────────────────
+
+export interface CalibrationResult {
+    latencyMs: number;
+    /** Median absolute deviation of the taps — high = unreliable, retry. */
+    jitterMs: number;
+    samples: number;
+}
+
+/** A tap this far ahead of its click is anticipation, not a missed click. */
+const EARLY_TAP_MS = 100;
+
+/**
+ * Pairs taps with clicks IN ORDER and returns the median tap - click delta.
+ * The first tap answers the first click it can have heard (up to
+ * MAX_LATENCY_MS back), which fixes the offset — latency may exceed the click
+ * interval. Later taps skip clicks the student missed (the next click fits the
+ * running estimate better) and stray/double taps (off the estimate by half an
+ * interval or more). Pairs on the first `warmup` clicks are ignored — people
+ * need a few beats to lock in. All times in the same clock (ms).
+ *
+ * Returns null with fewer than 4 usable taps.
+ */
+export function estimateLatency(clickTimes: number[], tapTimes: number[], warmup = 2): CalibrationResult | null {
+    if (clickTimes.length < 2) return null;
+    const interval = (clickTimes[clickTimes.length - 1] - clickTimes[0]) / (clickTimes.length - 1);
+    const taps = [...tapTimes].sort((a, b) => a - b);
+
+    const paired: number[] = [];
+    const deltas: number[] = [];
+    let k = 0;
+    for (const tap of taps) {
+        if (paired.length === 0) {
+            while (k < clickTimes.length && tap - clickTimes[k] > MAX_LATENCY_MS) k++;
+            if (k >= clickTimes.length) break;
+            if (tap - clickTimes[k] < -EARLY_TAP_MS) continue;
+        } else {
+            const estimate = median(paired);
+            while (k + 1 < clickTimes.length
+                && Math.abs(tap - clickTimes[k + 1] - estimate) < Math.abs(tap - clickTimes[k] - estimate)) k++;
+            if (k >= clickTimes.length) break;
+            if (Math.abs(tap - clickTimes[k] - estimate) >= interval / 2) continue;
+        }
+        const d = tap - clickTimes[k];
+        paired.push(d);
+        if (k >= warmup) deltas.push(d);
+        k++;
+    }
+    if (deltas.length < 4) return null;
+
+    const latency = median(deltas);
+    const jitter = median(deltas.map(d => Math.abs(d - latency)));
+    return { latencyMs: clampLatency(latency), jitterMs: Math.round(jitter), samples: deltas.length };
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
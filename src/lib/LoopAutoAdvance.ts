@@ -0,0 +1,179 @@
+/**
+ * LoopAutoAdvance v1.0 — Play N Times, Then Move On
+ * Date: March 5th, 2026
+ *
+ * Chunking through a solo hands-free: the loop repeats `repeats` times, then
+ * moves forward and keeps going.
+ *
+ *   'length' — by its own length: [start, end) → [end, end + length)
+ *              (beat / liquid drags keep their size)
+ *   'bars'   — to the next group of as many bar occurrences as the loop
+ *              touches (bar-snapped loops stay on barlines)
+ *
+ * Ranges are EXPANDED, so "forward" is playback order: after bar 8 pass 1
+ * comes bar 5 pass 2 when bar 8 closes a repeat, and a skipped volta is
+ * never looped.
+ *
+ * Repetitions are LoopController 'wrapped' events. The advance happens INSIDE
+ * the wrap handler: LoopController.enforce() then seeks into the new range
+ * (one tickPosition write) and CursorDriver requests the 'loop' snap as for
+ * any wrap; LoopOverlay repaints on the 'changed' ('advance') event.
+ *
+ * At the end of the score the last chunk keeps looping (finished = true).
+ */
+
+import { ExpandedTimeline, getExpandedTimeline } from './ExpandedTimeline';
+import type { AlphaTabAdapter } from './AlphaTabAdapter';
+import { CursorEventEmitter } from './CursorEvents';
+import type { LoopChangedEvent, LoopController, LoopWrapEvent } from './LoopController';
+import type { LoopRange } from './LoopSnap';
+
+export type LoopAdvanceMode = 'length' | 'bars';
+
+export const LOOP_ADVANCE_MODES: { id: LoopAdvanceMode; label: string }[] = [
+    { id: 'bars', label: 'next bar group' },
+    { id: 'length', label: 'by loop length' },
+];
+
+export interface LoopAutoAdvanceState {
+    active: boolean;
+    mode: LoopAdvanceMode;
+    /** Repetitions per chunk. */
+    repeats: number;
+    /** Completed repetitions of the current chunk. */
+    repetition: number;
+    /** Chunks advanced since start(). */
+    advanced: number;
+    /** Reached the end of the score — the last chunk keeps looping. */
+    finished: boolean;
+}
+
+export interface LoopAutoAdvanceEventMap {
+    progress: LoopAutoAdvanceState;
+    advanced: { from: LoopRange; to: LoopRange };
+}
+
+/** Next chunk after `range`, null at the end of the timeline. */
+export function advanceLoopRange(range: LoopRange, timeline: ExpandedTimeline, mode: LoopAdvanceMode): LoopRange | null {
+    const bars = timeline.bars;
+    const last = bars[bars.length - 1];
+    if (!last || range.endTick >= last.expandedEnd) return null;
+
+    if (mode === 'length') {
+        const length = range.endTick - range.startTick;
+        return { startTick: range.endTick, endTick: Math.min(range.endTick + length, last.expandedEnd) };
+    }
+
+    const first = timeline.findBar(range.startTick);
+    const end = timeline.findBar(range.endTick - 1);
+    if (!first || !end) return null;
+    const count = end.index - first.index + 1;
+    const from = bars[end.index + 1];
+    const to = bars[Math.min(end.index + count, bars.length - 1)];
+    return from && to ? { startTick: from.expandedStart, endTick: to.expandedEnd } : null;
+}
+
+export class LoopAutoAdvance {
+    private readonly api: AlphaTabAdapter;
+    private readonly loop: LoopController;
+    private readonly events = new CursorEventEmitter<LoopAutoAdvanceEventMap>();
+    private readonly disposers: (() => void)[];
+    private active = false;
+    private mode: LoopAdvanceMode;
+    private repeats: number;
+    private repetition = 0;
+    private advanced = 0;
+    private finished = false;
+
+    constructor(api: AlphaTabAdapter, loop: LoopController, options: { repeats?: number; mode?: LoopAdvanceMode } = {}) {
+        this.api = api;
+        this.loop = loop;
+        this.repeats = Math.max(1, Math.round(options.repeats ?? 4));
+        this.mode = options.mode ?? 'bars';
+        this.disposers = [
+            loop.on('wrapped', (e) => this.handleWrapped(e)),
+            loop.on('changed', (e) => this.handleLoopChanged(e)),
+        ];
+    }
+
+    get state(): LoopAutoAdvanceState {
+        return {
+            active: this.active,
+            mode: this.mode,
+            repeats: this.repeats,
+            repetition: this.repetition,
+            advanced: this.advanced,
+            finished: this.finished,
+        };
+    }
+
+    on<K extends keyof LoopAutoAdvanceEventMap>(type: K, handler: (event: LoopAutoAdvanceEventMap[K]) => void): () => void {
+        return this.events.on(type, handler);
+    }
+
+    configure(options: { repeats?: number; mode?: LoopAdvanceMode }): void {
+        if (options.repeats != null) this.repeats = Math.max(1, Math.round(options.repeats));
+        if (options.mode) this.mode = options.mode;
+        this.finished = false;
+        this.emitProgress();
+    }
+
+    start(): void {
+        this.active = true;
+        this.repetition = 0;
+        this.advanced = 0;
+        this.finished = false;
+        this.emitProgress();
+    }
+
+    stop(): void {
+        if (!this.active) return;
+        this.active = false;
+        this.emitProgress();
+    }
+
+    destroy(): void {
+        this.stop();
+        this.disposers.forEach(dispose => dispose());
+        this.events.clear();
+    }
+
+    // ─────────────────────────────────────────
+    // Internals
+    // ─────────────────────────────────────────
+
+    private handleWrapped(e: LoopWrapEvent): void {
+        if (!this.active) return;
+        this.repetition++;
+        if (this.repetition >= this.repeats && !this.finished) {
+            const timeline = getExpandedTimeline(this.api);
+            const next = timeline ? advanceLoopRange(e.range, timeline, this.mode) : null;
+            if (next) {
+                console.log(`⏭️ Auto-advance: ${e.range.startTick}-${e.range.endTick} → ${next.startTick}-${next.endTick}`);
+                this.advanced++;
+                this.repetition = 0;
+                this.loop.setRange(next, 'advance');
+                this.events.emit('advanced', { from: e.range, to: next });
+            } else {
+                this.finished = true;
+            }
+        }
+        this.emitProgress();
+    }
+
+    private handleLoopChanged(e: LoopChangedEvent): void {
+        if (!this.active || e.source === 'advance') return;
+        if (!e.enabled) {
+            this.stop();
+            return;
+        }
+        // The student moved the loop — count from there.
+        this.repetition = 0;
+        this.finished = false;
+        this.emitProgress();
+    }
+
+    private emitProgress(): void {
+        this.events.emit('progress', this.state);
+    }
+}
@@ -0,0 +1,717 @@
+/**
+ * LoopController v1.6 — One Headless Loop
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.6: wrapTarget getter — the tick the next wrap seeks to, so LoopRest
+ *    can park a paused cursor where playback will resume.
+ *
+ * 🔥 V1.5: the intent gate compares strategy.gateTick (LoopSnap v1.1) — a
+ *    grid snap counts a crossed grid line as a drag, so a loop can be drawn
+ *    inside one long beat. Other strategies keep the beat start.
+ *
+ * 🔥 V1.4: pre-roll (setPreRoll) — N beats or one bar of lead-in before the
+ *    loop start, on every wrap or only when playback starts (cueStart), with
+ *    an optional metronome count-in during the lead-in. The engine range
+ *    (api.playbackRange) starts at the pre-roll — alphaTab clamps seeks to
+ *    it — while range / 'changed' / the highlight keep the REAL loop.
+ *
+ * 🔥 V1.3: A-B points and keyboard editing (LoopKeyboard maps the keys).
+ *    markIn / markOut at the cursor tick (nearest beat boundary), nudgeEdge
+ *    and shiftLoop by a beat or a bar. All steps walk the EXPANDED timeline,
+ *    so "one bar later" after a repeat end is pass 2, not the next bar in
+ *    the score. activeEdge = the edge touched last (mark, nudge, handle) or
+ *    picked with selectEdge ('edge' event).
+ *
+ * 🔥 V1.2: resize gestures — beginResize('start' | 'end') from a grab handle
+ *    (edgeHandles), then the usual pointerMove / pointerUp. The moving edge
+ *    follows the active snap strategy, resolved against the FIXED edge's pass
+ *    (pointToTick hint), so a handle dragged onto another system row stays in
+ *    the loop's playback segment. Commits with source 'resize'.
+ *
+ * 🔥 V1.1: 'wrapped' handlers may move the loop (LoopAutoAdvance → setRange
+ *    with source 'advance'); enforce() then wraps into the NEW range with a
+ *    single tickPosition write. Per-track drivers repeating the same engine
+ *    tick get true without a second write.
+ *
+ * Replaces the loop logic of CustomLoopOverlay v2.11 and BeatCustomLoopOverlay
+ * v1.7.10 (and page.tsx's unused enableManualLoop). Each had fixes the other
+ * lacked:
+ *
+ *   from BeatCustomLoopOverlay — beatCrossed intent gate (LoopIntentGate),
+ *     click = bar-snap, toggle ON = bar at the transport tick, pass-aware drag
+ *     (end resolved against pointerdown, start aligned into the end's segment),
+ *     midpoint-trimmed rects, gesture cancel on renderFinished
+ *   from CustomLoopOverlay — bar / liquid snapping, highlights for EVERY
+ *     occurrence overlapping the loop, Escape to clear (LoopOverlay)
+ *
+ * Single source of truth:
+ *   - range / enabled live here; this class is the only writer of
+ *     api.playbackRange and api.isLooping (and of metronomeVolume while a
+ *     pre-roll count-in is configured)
+ *   - enforce(tick) is the loop wrap — CursorDriver calls it from its locked
+ *     enforcer (options.loop) instead of reading playbackRange itself
+ *
+ * Headless: surface points in, ranges + highlight rects (boundsLookup
+ * coordinates) out. LoopOverlay (src/components) renders them and feeds
+ * pointer events; FakeAlphaTab drives it in Node.
+ *
+ * Snapping is a LoopSnapStrategy (src/lib/LoopSnap.ts) — drags only, a click
+ * is always a bar-snap.
+ */
+
+import type { AdapterBounds, AlphaTabAdapter, AdapterPlaybackRange } from './AlphaTabAdapter';
+import { CursorEventEmitter } from './CursorEvents';
+import { ExpandedTimeline, getExpandedTimeline, TICKS_PER_QUARTER } from './ExpandedTimeline';
+import { LoopIntentGate } from './LoopIntentGate';
+import { BAR_SNAP, BEAT_SNAP, LoopRange, LoopSnapStrategy } from './LoopSnap';
+import { getScoreGeometry, ScoreHit } from './ScoreGeometry';
+
+// 🔒 LOOP BOUNDARY ENFORCER margin — 120 ticks (~1/16 note at 480 PPQ).
+// Wrapping this far before endTick keeps the audio worker out of its dead zone.
+export const LOOP_SAFETY_MARGIN = 120;
+
+/** Wrap target for a raw engine tick, null = keep playing. */
+export function loopWrapTarget(range: AdapterPlaybackRange | null | undefined, tick: number): number | null {
+    if (!range) return null;
+    return tick >= range.endTick - LOOP_SAFETY_MARGIN ? range.startTick : null;
+}
+
+// ─────────────────────────────────────────────
+// Pre-roll
+// ─────────────────────────────────────────────
+
+export interface LoopPreRoll {
+    /** Lead-in length: N beats of the time signature, or the whole previous bar. */
+    length: number | 'bar';
+    /** 'every' = each wrap lands on the lead-in; 'first' = only cueStart() (play). */
+    mode: 'first' | 'every';
+    /** Metronome clicks while the lead-in plays. */
+    countIn: boolean;
+}
+
+export const COUNT_IN_VOLUME = 1;
+
+/**
+ * Expanded tick the lead-in starts at. Walks back in PLAYBACK order, so a
+ * loop on bar 5 pass 2 is led in by whatever is played right before it.
+ */
+export function preRollStartTick(range: LoopRange, preRoll: LoopPreRoll | null, timeline: ExpandedTimeline | null): number {
+    if (!preRoll || !timeline || range.startTick <= 0) return range.startTick;
+    const before = timeline.findBar(range.startTick - 1);
+    if (!before) return range.startTick;
+    if (preRoll.length === 'bar') {
+        return Math.max(0, range.startTick - (before.expandedEnd - before.expandedStart));
+    }
+    const denominator = before.masterBar?.timeSignatureDenominator ?? 4;
+    const beatTicks = (TICKS_PER_QUARTER * 4) / denominator;
+    return Math.max(0, range.startTick - Math.max(0, Math.round(preRoll.length)) * beatTicks);
+}
+
+/** What CursorDriver needs from a loop — LoopController satisfies this. */
+export interface LoopEnforcer {
+    /** Raw engine tick. Returns true if the transport was wrapped (cursor must snap). */
+    enforce(tick: number): boolean;
+}
+
+// ─────────────────────────────────────────────
+// Events
+// ─────────────────────────────────────────────
+
+export type LoopChangeSource =
+    'click' | 'drag' | 'resize' | 'mark' | 'nudge' | 'toggle' | 'set' | 'clear' | 'advance' | 'playlist';
+
+export type LoopEdge = 'start' | 'end';
+
+/** Keyboard step size. */
+export type LoopStepUnit = 'beat' | 'bar';
+
+/** Grab handle for one loop edge — full master bar height, surface coordinates. */
+export interface LoopEdgeHandle {
+    edge: LoopEdge;
+    x: number;
+    y: number;
+    h: number;
+}
+
+export interface LoopChangedEvent {
+    range: LoopRange | null;
+    enabled: boolean;
+    source: LoopChangeSource;
+}
+
+export interface LoopPreviewEvent {
+    /** Range under the drag, null when the gesture ends. */
+    range: LoopRange | null;
+}
+
+export interface LoopWrapEvent {
+    /** Raw engine tick that triggered the wrap. */
+    fromTick: number;
+    range: LoopRange;
+}
+
+export interface LoopGestureEvent {
+    /** pointerdown on a beat or a handle → pointerup / pointercancel. */
+    active: boolean;
+}
+
+export interface LoopEdgeEvent {
+    /** Edge the keyboard nudges now. */
+    edge: LoopEdge;
+}
+
+export interface LoopMarkEvent {
+    /** A (in) waiting for B, null once the range is set / cleared. */
+    pendingIn: number | null;
+}
+
+export interface LoopControllerEventMap {
+    changed: LoopChangedEvent;
+    marked: LoopMarkEvent;
+    edge: LoopEdgeEvent;
+    preview: LoopPreviewEvent;
+    wrapped: LoopWrapEvent;
+    gesture: LoopGestureEvent;
+}
+
+export interface LoopControllerOptions {
+    /** Drag snapping. Default BEAT_SNAP (BeatCustomLoopOverlay behaviour). */
+    snap?: LoopSnapStrategy;
+}
+
+// Rects on one row closer than this are merged into one (buildRects v1.5).
+const MERGE_GAP_PX = 6;
+const SAME_ROW_PX = 4;
+const MIN_RECT_W = 2;
+
+export class LoopController implements LoopEnforcer {
+    private readonly api: AlphaTabAdapter;
+    private readonly gate = new LoopIntentGate();
+    private readonly events = new CursorEventEmitter<LoopControllerEventMap>();
+    private readonly disposeRenderFinished: () => void;
+    private snapValue: LoopSnapStrategy;
+    private enabledValue = false;
+    private rangeValue: LoopRange | null = null;
+    private previewValue: LoopRange | null = null;
+    private downHit: ScoreHit | null = null;
+    private lastHit: ScoreHit | null = null;
+    private resizeEdge: LoopEdge | null = null;
+    private activeEdgeValue: LoopEdge = 'end';
+    private preRollValue: LoopPreRoll | null = null;
+    // Wrap target of the pending wrap — stale positions re-seek to it.
+    private wrapToTick = 0;
+    // Metronome volume to restore after a count-in, null while not counting in.
+    private metronomeBeforeCountIn: number | null = null;
+    private pendingInValue: number | null = null;
+    // Per-track drivers all enforce the same event — report the wrap once.
+    private wrapPending = false;
+    private wrapFromTick = -1;
+
+    constructor(api: AlphaTabAdapter, options: LoopControllerOptions = {}) {
+        this.api = api;
+        this.snapValue = options.snap ?? BEAT_SNAP;
+        // Layout changes invalidate every gesture coordinate (v1.7.5 ghost-drag fix).
+        this.disposeRenderFinished = api.renderer.renderFinished.on(() => this.cancelGesture());
+    }
+
+    get enabled(): boolean {
+        return this.enabledValue;
+    }
+
+    get range(): LoopRange | null {
+        return this.rangeValue;
+    }
+
+    /** Drag range before pointerup, null outside a confirmed drag. */
+    get preview(): LoopRange | null {
+        return this.previewValue;
+    }
+
+    get snap(): LoopSnapStrategy {
+        return this.snapValue;
+    }
+
+    get gestureActive(): boolean {
+        return this.gate.active || this.resizeEdge != null;
+    }
+
+    /** Tick the next wrap seeks to (pre-roll start in 'every' mode), null without a range. */
+    get wrapTarget(): number | null {
+        return this.rangeValue ? this.wrapTargetOf(this.rangeValue) : null;
+    }
+
+    /** Edge the keyboard nudges — the one marked, nudged, dragged or selected last. */
+    get activeEdge(): LoopEdge {
+        return this.activeEdgeValue;
+    }
+
+    /** A point set with no B yet (expanded tick). */
+    get pendingIn(): number | null {
+        return this.pendingInValue;
+    }
+
+    /** Edge being dragged by its handle, null otherwise. */
+    get resizing(): LoopEdge | null {
+        return this.resizeEdge;
+    }
+
+    on<K extends keyof LoopControllerEventMap>(type: K, handler: (event: LoopControllerEventMap[K]) => void): () => void {
+        return this.events.on(type, handler);
+    }
+
+    off<K extends keyof LoopControllerEventMap>(type: K, handler: (event: LoopControllerEventMap[K]) => void): void {
+        this.events.off(type, handler);
+    }
+
+    setSnap(snap: LoopSnapStrategy): void {
+        this.snapValue = snap;
+    }
+
+    get preRoll(): LoopPreRoll | null {
+        return this.preRollValue;
+    }
+
+    /** Lead-in before the loop (null = none). Re-writes the engine range. */
+    setPreRoll(preRoll: LoopPreRoll | null): void {
+        this.preRollValue = preRoll && (preRoll.length === 'bar' || preRoll.length > 0) ? { ...preRoll } : null;
+        this.setCountIn(false);
+        this.api.playbackRange = this.engineRange();
+    }
+
+    /** Start of the lead-in for the current range (= range start without pre-roll). */
+    get preRollStart(): number | null {
+        return this.rangeValue
+            ? preRollStartTick(this.rangeValue, this.preRollValue, getExpandedTimeline(this.api))
+            : null;
+    }
+
+    // ─────────────────────────────────────────
+    // State (sole writer of playbackRange / isLooping)
+    // ─────────────────────────────────────────
+
+    /**
+     * ON without a range bar-snaps the bar occurrence under the TRANSPORT tick
+     * (BeatCustomLoopOverlay v1.7.7 — pass 2 loops pass 2). OFF drops the range.
+     */
+    setEnabled(enabled: boolean): void {
+        if (enabled === this.enabledValue) return;
+        this.cancelGesture();
+        this.enabledValue = enabled;
+        if (!enabled) {
+            this.apply(null, 'toggle');
+            return;
+        }
+        const bar = getExpandedTimeline(this.api)?.findBar(this.api.tickPosition ?? 0);
+        this.apply(bar ? { startTick: bar.expandedStart, endTick: bar.expandedEnd } : null, 'toggle');
+    }
+
+    /** Programmatic range (saved loops, A-B points). A range turns looping on. */
+    setRange(range: LoopRange | null, source: LoopChangeSource = 'set'): void {
+        if (range && range.endTick <= range.startTick) return;
+        if (range) this.enabledValue = true;
+        this.apply(range, source);
+    }
+
+    /** Drops the range, looping stays armed for the next click / drag (🧹 Clear). */
+    clear(): void {
+        this.cancelGesture();
+        this.apply(null, 'clear');
+    }
+
+    private apply(range: LoopRange | null, source: LoopChangeSource): void {
+        // Range moved under a handle (auto-advance, recall) — that preview is stale.
+        if (this.resizeEdge) this.cancelGesture();
+        this.setPendingIn(null);
+        this.rangeValue = range ? { startTick: range.startTick, endTick: range.endTick } : null;
+        this.api.playbackRange = this.engineRange();
+        this.api.isLooping = this.enabledValue && this.rangeValue != null;
+        this.wrapPending = false;
+        if (!this.rangeValue || !this.enabledValue) this.setCountIn(false);
+        console.log(`🎼 Loop ${source}:`, this.rangeValue ?? 'none', this.enabledValue ? '(on)' : '(off)');
+        this.events.emit('changed', { range: this.rangeValue, enabled: this.enabledValue, source });
+    }
+
+    /** Real range, widened to the pre-roll start — alphaTab clamps seeks to playbackRange. */
+    private engineRange(): AdapterPlaybackRange | null {
+        const range = this.rangeValue;
+        if (!range) return null;
+        return { startTick: this.preRollStart ?? range.startTick, endTick: range.endTick };
+    }
+
+    // ─────────────────────────────────────────
+    // Wrap (called by CursorDriver's enforcer)
+    // ─────────────────────────────────────────
+
+    /**
+     * Call before play(). With a pre-roll, a transport outside the loop (or
+     * on its first tick) is moved to the lead-in. Returns the new tick for
+     * the cursor snap, null if nothing moved.
+     */
+    cueStart(): number | null {
+        const range = this.rangeValue;
+        const cue = this.preRollStart;
+        if (!this.enabledValue || !range || !this.preRollValue || cue == null || cue >= range.startTick) return null;
+        const tick = this.api.tickPosition ?? 0;
+        if (tick > range.startTick && tick < range.endTick - LOOP_SAFETY_MARGIN) return null;
+        this.api.tickPosition = cue;
+        this.setCountIn(this.preRollValue.countIn);
+        return cue;
+    }
+
+    /** Wrap target of a range: its lead-in on 'every', else the loop start. */
+    private wrapTargetOf(range: LoopRange): number {
+        if (this.preRollValue?.mode !== 'every') return range.startTick;
+        return preRollStartTick(range, this.preRollValue, getExpandedTimeline(this.api));
+    }
+
+    private setCountIn(on: boolean): void {
+        if (on && this.metronomeBeforeCountIn == null) {
+            this.metronomeBeforeCountIn = this.api.metronomeVolume ?? 0;
+            this.api.metronomeVolume = COUNT_IN_VOLUME;
+        } else if (!on && this.metronomeBeforeCountIn != null) {
+            this.api.metronomeVolume = this.metronomeBeforeCountIn;
+            this.metronomeBeforeCountIn = null;
+        }
+    }
+
+    enforce(tick: number): boolean {
+        // Same engine event seen by the next per-track driver — already wrapped.
+        if (this.wrapPending && tick === this.wrapFromTick) return true;
+        const range = this.rangeValue;
+        const target = this.enabledValue ? loopWrapTarget(range, tick) : null;
+        if (target == null || !range) {
+            this.wrapPending = false;
+            // Lead-in over — the loop itself plays without clicks.
+            if (range && tick >= range.startTick) this.setCountIn(false);
+            return false;
+        }
+        // Stale position still past the edge (worker lag) — seek again, no new wrap.
+        if (this.wrapPending) {
+            this.api.tickPosition = this.wrapToTick;
+            return true;
+        }
+        // Handlers may move the loop (LoopAutoAdvance) — wrap into the range
+        // they leave behind, with ONE tickPosition write.
+        this.events.emit('wrapped', { fromTick: tick, range });
+        const next = this.enabledValue ? this.rangeValue : null;
+        this.wrapToTick = next ? this.wrapTargetOf(next) : target;
+        this.api.tickPosition = this.wrapToTick;
+        // Count-in starts with the seek, not one position event later.
+        if (next && this.wrapToTick < next.startTick) this.setCountIn(this.preRollValue?.countIn ?? false);
+        this.wrapPending = true;
+        this.wrapFromTick = tick;
+        return true;
+    }
+
+    // ─────────────────────────────────────────
+    // Gesture — surface points (ScoreGeometry.clientToScore)
+    // ─────────────────────────────────────────
+
+    /**
+     * pointerdown. Resolves the first play of the bar under the point —
+     * transport independent. Returns true if a gesture started (LoopOverlay
+     * then captures the pointer, so the gesture ends here even off the surface).
+     */
+    pointerDown(x: number, y: number, clientX: number, clientY: number): boolean {
+        if (!this.enabledValue || this.resizeEdge) return false;
+        const hit = getScoreGeometry(this.api).pointToTick(x, y);
+        if (!hit) return false;
+        this.downHit = hit;
+        this.lastHit = hit;
+        this.gate.down(this.gateTickOf(hit), clientX, clientY);
+        this.events.emit('gesture', { active: true });
+        return true;
+    }
+
+    /** pointermove. Previews once a beat was crossed — on the SAME event (no 1-frame lag). */
+    pointerMove(x: number, y: number): void {
+        if (this.resizeEdge) {
+            this.resizeTo(this.resizeEdge, x, y);
+            return;
+        }
+        const down = this.downHit;
+        if (!this.gate.active || !down) return;
+        // End resolves against the pointerdown pass (v1.7.7).
+        const hit = getScoreGeometry(this.api).pointToTick(x, y, this.gate.downTick);
+        if (!hit) return;
+        this.lastHit = hit;
+        if (!this.gate.move(this.gateTickOf(hit))) return;
+        this.previewValue = this.dragRange(down, hit);
+        this.events.emit('preview', { range: this.previewValue });
+    }
+
+    /** pointerup — sole commit point (v1.7.3). pointercancel goes to cancelGesture(). */
+    pointerUp(clientX?: number, clientY?: number): void {
+        if (this.resizeEdge) {
+            const resized = this.previewValue;
+            this.endGesture();
+            if (resized) this.apply(resized, 'resize');
+            return;
+        }
+        const intent = this.gate.up(clientX, clientY);
+        const down = this.downHit;
+        const last = this.lastHit;
+        this.endGesture();
+        if (!intent || !down) return;
+
+        const range = intent.intent === 'range' && last ? this.dragRange(down, last) : null;
+        if (range) {
+            this.apply(range, 'drag');
+        } else {
+            this.apply(BAR_SNAP.span(down), 'click');
+        }
+    }
+
+    /** Piece identity for the intent gate — the beat unless the snap is finer (grid). */
+    private gateTickOf(hit: ScoreHit): number {
+        return this.snapValue.gateTick?.(hit) ?? hit.beatStart;
+    }
+
+    cancelGesture(): void {
+        if (!this.gate.active && !this.downHit && !this.resizeEdge) return;
+        this.gate.cancel();
+        this.endGesture();
+    }
+
+    private endGesture(): void {
+        const wasActive = this.downHit != null || this.resizeEdge != null;
+        this.downHit = null;
+        this.lastHit = null;
+        this.resizeEdge = null;
+        if (this.previewValue) {
+            this.previewValue = null;
+            this.events.emit('preview', { range: null });
+        }
+        if (wasActive) this.events.emit('gesture', { active: false });
+    }
+
+    /**
+     * Union of the snapped pieces under pointerdown and the pointer. The down
+     * piece moves into the pointer's playback segment when its bar is replayed
+     * there (volta 2, coda) so the loop never spans a skipped ending.
+     */
+    private dragRange(down: ScoreHit, current: ScoreHit): LoopRange | null {
+        const a = this.snapValue.span(down);
+        const b = this.snapValue.span(current);
+        const aligned = getExpandedTimeline(this.api)?.alignToSegmentOf(a.startTick, b.startTick) ?? a.startTick;
+        const delta = aligned - a.startTick;
+        const startTick = Math.min(a.startTick + delta, b.startTick);
+        const endTick = Math.max(a.endTick + delta, b.endTick);
+        return endTick > startTick ? { startTick, endTick } : null;
+    }
+
+    // ─────────────────────────────────────────
+    // Resize — grab handles on the loop edges
+    // ─────────────────────────────────────────
+
+    /** Handle grabbed (pointerdown on an edgeHandles() element). Returns true if a resize started. */
+    beginResize(edge: LoopEdge): boolean {
+        if (!this.enabledValue || !this.rangeValue || this.gestureActive) return false;
+        this.resizeEdge = edge;
+        this.setActiveEdge(edge);
+        this.events.emit('gesture', { active: true });
+        return true;
+    }
+
+    /**
+     * Moves one edge to the snapped piece under the point; the other edge
+     * stays. Ignored while the edges would cross.
+     */
+    private resizeTo(edge: LoopEdge, x: number, y: number): void {
+        const range = this.rangeValue;
+        if (!range) return;
+        const fixedTick = edge === 'start' ? range.endTick - 1 : range.startTick;
+        const hit = getScoreGeometry(this.api).pointToTick(x, y, fixedTick);
+        if (!hit) return;
+        const span = this.snapValue.span(hit);
+        const next = edge === 'start'
+            ? { startTick: span.startTick, endTick: range.endTick }
+            : { startTick: range.startTick, endTick: span.endTick };
+        if (next.endTick <= next.startTick) return;
+        const current = this.previewValue ?? range;
+        if (next.startTick === current.startTick && next.endTick === current.endTick) return;
+        this.previewValue = next;
+        this.events.emit('preview', { range: next });
+    }
+
+    /**
+     * One handle per edge: x on the edge (ScoreGeometry.edgeX, barline when
+     * the edge is on one), y / h of the master bar across all staves.
+     * Empty while a new loop is being dragged.
+     */
+    edgeHandles(range: LoopRange | null = this.previewValue ?? this.rangeValue): LoopEdgeHandle[] {
+        if (!range || this.downHit) return [];
+        const start = this.edgeHandle('start', range.startTick);
+        const end = this.edgeHandle('end', range.endTick);
+        return [start, end].filter((h): h is LoopEdgeHandle => h != null);
+    }
+
+    /** Marker for a pending A point (same geometry as the start handle). */
+    pendingInMarker(): LoopEdgeHandle | null {
+        return this.pendingInValue != null ? this.edgeHandle('start', this.pendingInValue) : null;
+    }
+
+    private edgeHandle(edge: LoopEdge, tick: number): LoopEdgeHandle | null {
+        const lookup = this.api.renderer?.boundsLookup;
+        const bar = getExpandedTimeline(this.api)?.findBar(edge === 'start' ? tick : tick - 1);
+        const mb = bar && lookup ? lookup.findMasterBar(bar.masterBar)?.visualBounds : null;
+        if (!bar || !mb) return null;
+        const onBarline = edge === 'start' ? tick <= bar.expandedStart : tick >= bar.expandedEnd;
+        const x = (onBarline ? null : getScoreGeometry(this.api).edgeX(tick)) ?? (edge === 'start' ? mb.x : mb.x + mb.w);
+        return { edge, x, y: mb.y, h: mb.h };
+    }
+
+    // ─────────────────────────────────────────
+    // A-B points + keyboard steps (LoopKeyboard)
+    // ─────────────────────────────────────────
+
+    /**
+     * A at `tick` (the cursor the player hears — pass the visual tick). With
+     * a range that ends later the start moves there; otherwise A waits for B.
+     */
+    markIn(tick: number): void {
+        const t = this.nearestBeatEdge(tick);
+        this.setActiveEdge('start');
+        const range = this.rangeValue;
+        if (range && this.enabledValue && t < range.endTick) {
+            this.setRange({ startTick: t, endTick: range.endTick }, 'mark');
+            return;
+        }
+        this.setPendingIn(t);
+    }
+
+    /** B at `tick`: loop = pending A (else the current start) → B. false without an A. */
+    markOut(tick: number): boolean {
+        const t = this.nearestBeatEdge(tick);
+        const start = this.pendingInValue ?? (this.enabledValue ? this.rangeValue?.startTick : null);
+        if (start == null || t <= start) return false;
+        this.setActiveEdge('end');
+        this.setRange({ startTick: start, endTick: t }, 'mark');
+        return true;
+    }
+
+    /** Moves one edge a beat / bar in playback order. Ignored if the edges would cross. */
+    nudgeEdge(edge: LoopEdge, direction: 1 | -1, unit: LoopStepUnit): void {
+        const range = this.rangeValue;
+        if (!range || !this.enabledValue) return;
+        const moved = this.stepTick(edge === 'start' ? range.startTick : range.endTick, direction, unit, edge === 'end');
+        if (moved == null) return;
+        this.setActiveEdge(edge);
+        this.setRange(edge === 'start'
+            ? { startTick: moved, endTick: range.endTick }
+            : { startTick: range.startTick, endTick: moved }, 'nudge');
+    }
+
+    /** Moves the whole loop a beat / bar; each edge steps on its own grid. */
+    shiftLoop(direction: 1 | -1, unit: LoopStepUnit): void {
+        const range = this.rangeValue;
+        if (!range || !this.enabledValue) return;
+        const startTick = this.stepTick(range.startTick, direction, unit, false);
+        const endTick = this.stepTick(range.endTick, direction, unit, true);
+        if (startTick == null || endTick == null) return;
+        this.setRange({ startTick, endTick }, 'nudge');
+    }
+
+    /** Picks the edge the next nudge moves without moving it (keyboard edge toggle). */
+    selectEdge(edge: LoopEdge): void {
+        this.setActiveEdge(edge);
+    }
+
+    private setActiveEdge(edge: LoopEdge): void {
+        if (edge === this.activeEdgeValue) return;
+        this.activeEdgeValue = edge;
+        this.events.emit('edge', { edge });
+    }
+
+    private setPendingIn(tick: number | null): void {
+        if (tick === this.pendingInValue) return;
+        this.pendingInValue = tick;
+        this.events.emit('marked', { pendingIn: tick });
+    }
+
+    /** Closer of the surrounding beat's start / end — a key press is never on the beat. */
+    private nearestBeatEdge(tick: number): number {
+        const beat = getExpandedTimeline(this.api)?.findBeat(tick);
+        if (!beat) return Math.max(0, Math.round(tick));
+        return tick - beat.expandedStart <= beat.expandedEnd - tick ? beat.expandedStart : beat.expandedEnd;
+    }
+
+    /**
+     * Next / previous boundary of `unit` from an expanded tick. Beats: the
+     * adjacent beat boundary. Bars: the same offset in the adjacent bar
+     * OCCURRENCE (clamped to its length). `isEnd` — exclusive end ticks sit
+     * on the bar they close. null past either end of the timeline.
+     */
+    private stepTick(tick: number, direction: 1 | -1, unit: LoopStepUnit, isEnd: boolean): number | null {
+        const timeline = getExpandedTimeline(this.api);
+        if (!timeline) return null;
+        if (unit === 'beat') {
+            const beat = direction > 0 ? timeline.findBeat(tick) : timeline.findBeat(tick - 1);
+            if (!beat) return null;
+            return direction > 0 ? beat.expandedEnd : beat.expandedStart;
+        }
+        const bar = timeline.findBar(isEnd ? tick - 1 : tick);
+        const target = bar ? timeline.bars[bar.index + direction] : null;
+        if (!bar || !target) return null;
+        const offset = tick - bar.expandedStart;
+        return target.expandedStart + Math.min(offset, target.expandedEnd - target.expandedStart);
+    }
+
+    // ─────────────────────────────────────────
+    // Highlight geometry (rendered by LoopOverlay)
+    // ─────────────────────────────────────────
+
+    /**
+     * Rects covering a range, per staff, merged per row. Every occurrence of a
+     * bar that overlaps the range counts (a loop over both passes of a repeat
+     * lights the bar once, full width). Partial bars are trimmed with
+     * ScoreGeometry.edgeX — midway between note heads at beat boundaries.
+     */
+    highlightRects(range: LoopRange | null = this.previewValue ?? this.rangeValue): AdapterBounds[] {
+        const lookup = this.api.renderer?.boundsLookup;
+        const timeline = getExpandedTimeline(this.api);
+        if (!range || !lookup || !timeline) return [];
+        const geometry = getScoreGeometry(this.api);
+
+        const results: AdapterBounds[] = [];
+        for (const sys of lookup.staffSystems ?? []) {
+            const row: AdapterBounds[] = [];
+            for (const mbb of sys?.bars ?? []) {
+                const spans: { from: number | null; to: number | null }[] = [];
+                for (const occ of timeline.getOccurrences(mbb.index)) {
+                    if (occ.expandedEnd <= range.startTick || occ.expandedStart >= range.endTick) continue;
+                    const lo = Math.max(range.startTick, occ.expandedStart);
+                    const hi = Math.min(range.endTick, occ.expandedEnd);
+                    spans.push({
+                        from: lo > occ.expandedStart ? geometry.edgeX(lo) : null,
+                        to: hi < occ.expandedEnd ? geometry.edgeX(hi) : null,
+                    });
+                }
+                if (!spans.length) continue;
+
+                for (const bar of mbb?.bars ?? []) {
+                    const b = bar?.visualBounds;
+                    if (!b) continue;
+                    const x1 = Math.min(...spans.map(s => s.from ?? b.x));
+                    const x2 = Math.max(...spans.map(s => s.to ?? b.x + b.w));
+                    const w = Math.max(x2 - x1, MIN_RECT_W);
+                    const prev = row.find(r => Math.abs(r.y - b.y) < SAME_ROW_PX && Math.abs(r.x + r.w - x1) < MERGE_GAP_PX);
+                    if (prev) {
+                        prev.w = x1 + w - prev.x;
+                    } else {
+                        row.push({ x: x1, y: b.y, w, h: b.h });
+                    }
+                }
+            }
+            results.push(...row);
+        }
+        return results;
+    }
+
+    destroy(): void {
+        this.setCountIn(false);
+        this.disposeRenderFinished();
+        this.events.clear();
+        this.gate.cancel();
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * LoopIntentGate v1.0 — Headless beatCrossed Intent Gate
+ * Date: March 4th, 2026
+ *
+ * Extracted verbatim from BeatCustomLoopOverlay v1.7.5 so it can be driven
+ * from a test (FakeAlphaTab) without a DOM. No React, no api access — callers
+ * resolve beats/ticks and feed the results in.
+ *
+ * INTENT GATE TRUTH TABLE (unchanged from v1.7.5):
+ *   beatCrossed | pixelDist | Result
+ *   false       | < 10      | Bar-snap ✅ (clean click)
+ *   false       | ≥ 10      | Bar-snap — trackpad drift, pixel distance is NOT a discriminator
+ *   true        | any       | Beat-level range ✅ — real drag
+ *
+ * 🔒 beatCrossed is sticky for the gesture — once any move resolved a different
+ *    beat tick than pointerdown, it stays true even if the pointer comes back.
+ *    Checking "same beat at pointerup" instead is the v1.7.4 "stuck on 1–2 beats" bug.
+ */
+
+export type LoopIntent = 'bar-snap' | 'range';
+
+export interface LoopIntentResult {
+    intent: LoopIntent;
+    beatCrossed: boolean;
+    pixelDist: number;
+}
+
+export class LoopIntentGate {
+    private downTickValue: number | null = null;
+    private downX = 0;
+    private downY = 0;
+    private crossed = false;
+    private activeValue = false;
+
+    /** True between down() and up()/cancel(). */
+    get active(): boolean {
+        return this.activeValue;
+    }
+
+    /** Expanded tick of the beat under pointerdown — pass reference for the gesture. */
+    get downTick(): number | null {
+        return this.downTickValue;
+    }
+
+    get beatCrossed(): boolean {
+        return this.crossed;
+    }
+
+    down(tick: number, clientX: number, clientY: number): void {
+        this.activeValue = true;
+        this.downTickValue = tick;
+        this.downX = clientX;
+        this.downY = clientY;
+        this.crossed = false;
+    }
+
+    /**
+     * Feeds the beat tick resolved on a move. Returns true once a real drag is
+     * confirmed — callers paint on the SAME event that flips the flag (no 1-frame lag).
+     */
+    move(tick: number): boolean {
+        if (!this.activeValue) return false;
+        if (this.downTickValue != null && tick !== this.downTickValue) {
+            this.crossed = true;
+        }
+        return this.crossed;
+    }
+
+    /** Ends the gesture. Returns null if no gesture was active. */
+    up(clientX?: number, clientY?: number): LoopIntentResult | null {
+        if (!this.activeValue) return null;
+        this.activeValue = false;
+        const dx = (clientX ?? this.downX) - this.downX;
+        const dy = (clientY ?? this.downY) - this.downY;
+        return {
+            intent: this.crossed ? 'range' : 'bar-snap',
+            beatCrossed: this.crossed,
+            pixelDist: Math.sqrt(dx * dx + dy * dy),
+        };
+    }
+
+    /** Layout changed mid-gesture (renderFinished) — drop everything. */
+    cancel(): void {
+        this.activeValue = false;
+        this.downTickValue = null;
+        this.crossed = false;
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * LoopKeyboard v1.0 — Loop Editing Without the Mouse
+ * Date: March 5th, 2026
+ *
+ * Guitarists mark loops while listening, hands on the instrument. Keys:
+ *
+ *   [  /  ]              A (in) / B (out) at the cursor tick
+ *   \                    toggle the active edge (start ⇄ end)
+ *   Shift + ← / →        active edge one beat earlier / later
+ *   Shift + ↓ / ↑        active edge one bar earlier / later
+ *   Alt + ← / →          whole loop one beat earlier / later
+ *   Alt + ↓ / ↑          whole loop one bar earlier / later
+ *   Escape               clear
+ *
+ * The active edge is the one marked, nudged, dragged or toggled last
+ * (LoopController.activeEdge) — LoopOverlay emphasises its handle. Bracket
+ * and backslash keys match on KeyboardEvent.code as well, so non-US layouts
+ * (where [ needs AltGr) still work.
+ *
+ * Pure mapping + dispatch — LoopOverlay owns the listener and decides which
+ * instance gets the keys.
+ */
+
+import type { LoopController, LoopStepUnit } from './LoopController';
+
+export type LoopKeyCommand =
+    | { type: 'markIn' }
+    | { type: 'markOut' }
+    | { type: 'toggleEdge' }
+    | { type: 'nudge'; direction: 1 | -1; unit: LoopStepUnit }
+    | { type: 'shift'; direction: 1 | -1; unit: LoopStepUnit }
+    | { type: 'clear' };
+
+type KeyLike = Pick<KeyboardEvent, 'key' | 'code' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>;
+
+const ARROWS: Record<string, { direction: 1 | -1; unit: LoopStepUnit }> = {
+    ArrowLeft: { direction: -1, unit: 'beat' },
+    ArrowRight: { direction: 1, unit: 'beat' },
+    ArrowDown: { direction: -1, unit: 'bar' },
+    ArrowUp: { direction: 1, unit: 'bar' },
+};
+
+/** Command for a keydown, null if the key isn't a loop key. */
+export function loopKeyCommand(e: KeyLike): LoopKeyCommand | null {
+    // Leave browser / OS shortcuts alone.
+    if (e.ctrlKey || e.metaKey) return null;
+    if (e.key === 'Escape') return { type: 'clear' };
+    if (!e.shiftKey && !e.altKey) {
+        if (e.key === '[' || e.code === 'BracketLeft') return { type: 'markIn' };
+        if (e.key === ']' || e.code === 'BracketRight') return { type: 'markOut' };
+        if (e.key === '\\' || e.code === 'Backslash') return { type: 'toggleEdge' };
+        return null;
+    }
+    const arrow = ARROWS[e.key];
+    if (!arrow || (e.shiftKey && e.altKey)) return null;
+    return e.shiftKey ? { type: 'nudge', ...arrow } : { type: 'shift', ...arrow };
+}
+
+/** Runs a command. `cursorTick` is the tick the player hears (latency-compensated). */
+export function runLoopKeyCommand(controller: LoopController, command: LoopKeyCommand, cursorTick: number): void {
+    switch (command.type) {
+        case 'markIn':
+            controller.markIn(cursorTick);
+            break;
+        case 'markOut':
+            if (!controller.markOut(cursorTick)) console.warn('🎼 Loop: ] without [ — set the A point first');
+            break;
+        case 'toggleEdge':
+            controller.selectEdge(controller.activeEdge === 'start' ? 'end' : 'start');
+            console.log(`🎼 Loop: keys move the ${controller.activeEdge} edge`);
+            break;
+        case 'nudge':
+            controller.nudgeEdge(controller.activeEdge, command.direction, command.unit);
+            break;
+        case 'shift':
+            controller.shiftLoop(command.direction, command.unit);
+            break;
+        case 'clear':
+            if (controller.range || controller.pendingIn != null) controller.clear();
+            break;
+    }
+}
+
+/** Typing in an input / select must never move the loop. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+    const el = target as HTMLElement | null;
+    if (!el || typeof el.tagName !== 'string') return false;
+    return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+}
@@ -0,0 +1,160 @@
+/**
+ * LoopRest v1.0 — Silent Gap Between Loop Repetitions
+ * Date: March 5th, 2026
+ *
+ * Time to reset the fretting hand: after each repetition playback pauses for
+ * N beats (at the loop start's tempo × playbackSpeed) or N seconds, the cursor
+ * parks on the loop start, and playback resumes by itself.
+ *
+ *   wrapped  — api.pause(), resume timer armed, 'rest' { active: true }
+ *              (LoopController.enforce() then seeks to wrapTarget as usual —
+ *              CursorDriver requests the 'loop' snap)
+ *   park     — once the seek is written, options.park(wrapTarget) snaps the
+ *              paused cursor there (no position event needed)
+ *   resume   — api.play(), 'rest' { active: false } — also right away when
+ *              the loop goes off mid-rest (play on from the loop start)
+ *   cancel() — the student paused / sought during the rest: no resume
+ *
+ * Not a manual toggle: never marks page.tsx's manual-toggle window. A pause
+ * reports stopped=false, so the debounced playerStateChanged keeps the page
+ * "playing" through the rest; the page calls cancel() from its own Pause.
+ *
+ * 🔒 Wrap counting (trainer, auto-advance, playlist) is untouched — the rest
+ *    sits after the wrap, it is not a repetition of its own.
+ */
+
+import type { AlphaTabAdapter } from './AlphaTabAdapter';
+import { CursorEventEmitter } from './CursorEvents';
+import { tempoAtTick } from './LatencyCompensation';
+import type { LoopChangedEvent, LoopController, LoopWrapEvent } from './LoopController';
+
+export interface LoopRestSetting {
+    length: number;
+    unit: 'beats' | 'seconds';
+}
+
+export interface LoopRestEvent {
+    active: boolean;
+    /** Rest length (0 when inactive). */
+    totalMs: number;
+    /** Date.now() when playback resumes (0 when inactive). */
+    endsAt: number;
+}
+
+export interface LoopRestEventMap {
+    rest: LoopRestEvent;
+}
+
+export interface LoopRestOptions {
+    /** Snap the (paused) cursor to the tick the wrap sought to. */
+    park?: (tick: number) => void;
+}
+
+/** Rest length in ms — beats are quarter notes at the tempo under `tick`. */
+export function loopRestMs(setting: LoopRestSetting, api: AlphaTabAdapter, tick: number): number {
+    if (!(setting.length > 0)) return 0;
+    if (setting.unit === 'seconds') return setting.length * 1000;
+    const speed = api.playbackSpeed > 0 ? api.playbackSpeed : 1;
+    return (setting.length * 60000) / (tempoAtTick(api, tick) * speed);
+}
+
+export class LoopRest {
+    private readonly api: AlphaTabAdapter;
+    private readonly loop: LoopController;
+    private readonly options: LoopRestOptions;
+    private readonly events = new CursorEventEmitter<LoopRestEventMap>();
+    private readonly disposers: (() => void)[];
+    private settingValue: LoopRestSetting | null = null;
+    private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+    private parkTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(api: AlphaTabAdapter, loop: LoopController, options: LoopRestOptions = {}) {
+        this.api = api;
+        this.loop = loop;
+        this.options = options;
+        this.disposers = [
+            loop.on('wrapped', (e) => this.handleWrapped(e)),
+            loop.on('changed', (e) => this.handleLoopChanged(e)),
+        ];
+    }
+
+    get setting(): LoopRestSetting | null {
+        return this.settingValue;
+    }
+
+    get resting(): boolean {
+        return this.resumeTimer != null;
+    }
+
+    on<K extends keyof LoopRestEventMap>(type: K, handler: (event: LoopRestEventMap[K]) => void): () => void {
+        return this.events.on(type, handler);
+    }
+
+    /** null = no rest. Turning it off mid-rest resumes right away. */
+    setRest(setting: LoopRestSetting | null): void {
+        this.settingValue = setting && setting.length > 0 ? { ...setting } : null;
+        if (!this.settingValue && this.resting) this.resume();
+    }
+
+    /**
+     * Ends a rest WITHOUT resuming (the student pressed pause, playlist ended,
+     * a seek that resumes by itself). True if a rest was running.
+     */
+    cancel(): boolean {
+        if (!this.clearTimers()) return false;
+        this.emit(false, 0);
+        return true;
+    }
+
+    destroy(): void {
+        this.cancel();
+        this.disposers.forEach(dispose => dispose());
+        this.events.clear();
+    }
+
+    // ─────────────────────────────────────────
+    // Internals
+    // ─────────────────────────────────────────
+
+    private handleWrapped(e: LoopWrapEvent): void {
+        const setting = this.settingValue;
+        // PlayerState.Playing = 1 — a stale wrap while paused needs no rest.
+        if (!setting || this.resting || this.api.playerState !== 1) return;
+        const ms = loopRestMs(setting, this.api, e.range.startTick);
+        if (ms <= 0) return;
+        console.log(`⏸️ Loop rest: ${Math.round(ms)}ms`);
+        this.api.pause();
+        // enforce() writes the seek after the 'wrapped' handlers return.
+        this.parkTimer = setTimeout(() => {
+            this.parkTimer = null;
+            const target = this.loop.wrapTarget;
+            if (target != null) this.options.park?.(target);
+        }, 0);
+        this.resumeTimer = setTimeout(() => this.resume(), ms);
+        this.emit(true, ms);
+    }
+
+    private handleLoopChanged(e: LoopChangedEvent): void {
+        // Loop OFF / cleared mid-rest — no next repetition to wait for.
+        if (this.resting && (!e.enabled || !e.range)) this.resume();
+    }
+
+    private resume(): void {
+        this.clearTimers();
+        this.emit(false, 0);
+        this.api.play();
+    }
+
+    private clearTimers(): boolean {
+        const had = this.resumeTimer != null;
+        if (this.resumeTimer) clearTimeout(this.resumeTimer);
+        if (this.parkTimer) clearTimeout(this.parkTimer);
+        this.resumeTimer = null;
+        this.parkTimer = null;
+        return had;
+    }
+
+    private emit(active: boolean, totalMs: number): void {
+        this.events.emit('rest', { active, totalMs, endsAt: active ? Date.now() + totalMs : 0 });
+    }
+}
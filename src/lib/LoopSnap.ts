@@ -0,0 +1,113 @@
+/**
+ * LoopSnap v1.1 — Pluggable Loop Snap Strategies
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.1: grid resolutions for the subdivision snap — quarter, 8th, 16th,
+ *    8th triplet (GRID_RESOLUTIONS / gridSnap). Cells count from the start of
+ *    the EXPANDED bar, so a long beat (whammy sustain, tied whole note) is
+ *    split into grid cells too — strategy.gateTick makes crossing a grid line
+ *    a drag for the intent gate. The highlight edge inside a beat is
+ *    ScoreGeometry.edgeX (proportional along the beat's walk). Ranges are
+ *    plain ticks — the renderFinished rebuild lands on the same grid.
+ *
+ * A strategy answers one question: which piece of the score does the point
+ * under the pointer stand for? LoopController unions the piece under
+ * pointerdown with the piece under the pointer — that union is the loop.
+ *
+ *   bar          — the whole bar occurrence (CustomLoopOverlay 'bar' mode)
+ *   beat         — the beat under the pointer (BeatCustomLoopOverlay drags)
+ *   liquid       — the exact tick on the cursor walk (CustomLoopOverlay
+ *                  'beat' mode, v2.6 liquid drag)
+ *   subdivision  — a grid cell inside the bar (1/4, 1/8, 1/16, 1/8T)
+ *
+ * Pieces are EXPANDED [start, end) ranges — the hit already carries the
+ * repeat pass (ScoreGeometry.pointToTick).
+ *
+ * 🔒 A click (no beat crossed — LoopIntentGate) is always a bar-snap,
+ *    whatever the strategy. Strategies only shape DRAGS.
+ */
+
+import { TICKS_PER_QUARTER } from './ExpandedTimeline';
+import type { ScoreHit } from './ScoreGeometry';
+
+export interface LoopRange {
+    startTick: number;
+    /** Exclusive. */
+    endTick: number;
+}
+
+export type LoopSnapId = 'bar' | 'beat' | 'liquid' | 'subdivision';
+
+export interface LoopSnapStrategy {
+    readonly id: LoopSnapId;
+    readonly label: string;
+    /** Expanded range the point stands for. */
+    span(hit: ScoreHit): LoopRange;
+    /**
+     * Tick the intent gate compares between down and move — a new value is
+     * "beat crossed". Default: the beat start (trackpad drift stays a click).
+     */
+    gateTick?(hit: ScoreHit): number;
+}
+
+export const BAR_SNAP: LoopSnapStrategy = {
+    id: 'bar',
+    label: 'Bar',
+    span: hit => ({ startTick: hit.bar.expandedStart, endTick: hit.bar.expandedEnd }),
+};
+
+export const BEAT_SNAP: LoopSnapStrategy = {
+    id: 'beat',
+    label: 'Beat',
+    span: hit => ({
+        startTick: hit.beatStart,
+        endTick: Math.min(hit.beatStart + (hit.beat.playbackDuration ?? 0), hit.bar.expandedEnd),
+    }),
+};
+
+export const LIQUID_SNAP: LoopSnapStrategy = {
+    id: 'liquid',
+    label: 'Liquid',
+    span: hit => ({ startTick: hit.tick, endTick: hit.tick }),
+};
+
+/** Grid cells of `ticks` from the bar start (last cell cut at the barline). */
+export function subdivisionSnap(ticks: number, label = `1/${Math.round(4 * TICKS_PER_QUARTER / ticks)}`): LoopSnapStrategy {
+    const size = Math.max(1, Math.round(ticks));
+    const cellStart = (hit: ScoreHit) =>
+        hit.bar.expandedStart + Math.floor((hit.tick - hit.bar.expandedStart) / size) * size;
+    return {
+        id: 'subdivision',
+        label,
+        span: hit => {
+            const startTick = cellStart(hit);
+            return { startTick, endTick: Math.min(startTick + size, hit.bar.expandedEnd) };
+        },
+        // Crossing a grid line is a drag — also inside one long beat (whammy sustain).
+        gateTick: cellStart,
+    };
+}
+
+export type GridResolutionId = '1/4' | '1/8' | '1/16' | '1/8T';
+
+/** Grid picker order — cell size in ticks. */
+export const GRID_RESOLUTIONS: { id: GridResolutionId; label: string; ticks: number }[] = [
+    { id: '1/4', label: 'Quarter', ticks: TICKS_PER_QUARTER },
+    { id: '1/8', label: '8th', ticks: TICKS_PER_QUARTER / 2 },
+    { id: '1/16', label: '16th', ticks: TICKS_PER_QUARTER / 4 },
+    { id: '1/8T', label: '8th triplet', ticks: TICKS_PER_QUARTER / 3 },
+];
+
+/** Subdivision snap for a grid resolution (1/16 when unknown). */
+export function gridSnap(id: GridResolutionId): LoopSnapStrategy {
+    const resolution = GRID_RESOLUTIONS.find(r => r.id === id) ?? GRID_RESOLUTIONS[2];
+    return subdivisionSnap(resolution.ticks, `Grid ${resolution.id}`);
+}
+
+/** Picker order for the lab page. 'subdivision' takes its resolution from GRID_RESOLUTIONS. */
+export const LOOP_SNAP_STRATEGIES: LoopSnapStrategy[] = [
+    BEAT_SNAP,
+    BAR_SNAP,
+    LIQUID_SNAP,
+    { ...gridSnap('1/16'), label: 'Grid' },
+];
@@ -0,0 +1,272 @@
+/**
+ * PositionRecorder v1.1 — playerPositionChanged Stream Capture
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.1: position events carry visualTick when latency compensation shifted
+ *    the cursor (options.visualTick) — the replayer feeds the same shift back,
+ *    so golden X still matches. Optional field, RECORDING_VERSION unchanged.
+ *
+ * Records what the live engine actually did — every playerPositionChanged
+ * tick, seeks, play/pause, loop range changes and loop wraps — plus the
+ * rendered geometry, into a JSON-safe PositionRecording.
+ * PositionReplayer feeds it back through CursorDriver → MaestroCursor.
+ *
+ * Why recordings and not hand-written tick lists:
+ *   Every cursor regression in the MaestroCursor header (v4.3.2 drift on pause,
+ *   v4.3.5 mid-beat mode switch, v4.5 barline parking, v4.3.7 whammy stutter)
+ *   only showed up with the real event cadence (~10-30fps, irregular, with
+ *   wraps and re-syncs). Synthetic streams never reproduced them.
+ *
+ * Event inference:
+ *   - Backward tick with a loop range active, landing near range start → loopWrap
+ *   - Any other backward tick, or forward > 2000 ticks, not announced by
+ *     markSeek() → seek (inferred)
+ *
+ * Each position event also stores the live cursor X/Y (getCursorPosition) —
+ * the replayer diffs against it to catch drift between cursor versions.
+ */
+
+import type { AdapterBounds, AdapterPlaybackRange, AlphaTabAdapter } from './AlphaTabAdapter';
+import { getExpandedTimeline } from './ExpandedTimeline';
+
+export const RECORDING_VERSION = 1;
+
+// Same threshold as CursorDriver jump detection.
+const JUMP_THRESHOLD = 2000;
+
+// ─────────────────────────────────────────────
+// Recording format
+// ─────────────────────────────────────────────
+
+export interface RecordedBeat {
+    /** Offset inside the bar. */
+    start: number;
+    duration: number;
+    bounds: AdapterBounds | null;
+    onNotesX: number | null;
+}
+
+export interface RecordedBar {
+    index: number;
+    duration: number;
+    bounds: AdapterBounds | null;
+    beats: RecordedBeat[];
+}
+
+export interface RecordedLayout {
+    bars: RecordedBar[];
+    /** Master bar indices in playback order (tickCache.masterBars). */
+    playbackOrder: number[];
+}
+
+export type RecordedEvent =
+    | { type: 'position'; t: number; tick: number; visualTick?: number; x?: number; y?: number }
+    | { type: 'seek'; t: number; tick: number; inferred?: boolean }
+    | { type: 'loopWrap'; t: number; from: number; tick: number }
+    | { type: 'loop'; t: number; range: AdapterPlaybackRange | null }
+    | { type: 'play'; t: number }
+    | { type: 'pause'; t: number }
+    | { type: 'layout'; t: number; layout: RecordedLayout };
+
+export interface PositionRecording {
+    version: typeof RECORDING_VERSION;
+    label: string;
+    recordedAt: string;
+    layout: RecordedLayout;
+    events: RecordedEvent[];
+}
+
+export interface PositionRecorderOptions {
+    label?: string;
+    /** Live cursor centre after each event — MaestroCursor.getPosition(). */
+    getCursorPosition?: () => { x: number; y: number } | null;
+    /** Loop toggle as the page sees it (playbackRange alone is not authoritative). */
+    isLoopEnabled?: () => boolean;
+    /** Same mapping the cursors use (LatencyCompensation.toVisualTick). */
+    visualTick?: (tick: number) => number;
+}
+
+// ─────────────────────────────────────────────
+// Layout capture
+// ─────────────────────────────────────────────
+
+/**
+ * Geometry snapshot of the first playback occurrence of every master bar,
+ * using the same beat selection as ExpandedTimeline. Null until bounds exist.
+ */
+export function captureLayout(api: AlphaTabAdapter): RecordedLayout | null {
+    const lookup = api.renderer?.boundsLookup;
+    const timeline = getExpandedTimeline(api);
+    if (!lookup || !timeline || timeline.isEmpty) return null;
+
+    const byIndex = new Map<number, RecordedBar>();
+    for (const bar of timeline.bars) {
+        if (bar.occurrence !== 0) continue;
+        const mbb = lookup.findMasterBar(bar.masterBar);
+        byIndex.set(bar.masterBarIndex, {
+            index: bar.masterBarIndex,
+            duration: bar.expandedEnd - bar.expandedStart,
+            bounds: mbb?.visualBounds ? { ...mbb.visualBounds } : null,
+            beats: [],
+        });
+    }
+    for (const entry of timeline.beats) {
+        if (entry.occurrence !== 0) continue;
+        const bb = lookup.findBeat(entry.beat);
+        byIndex.get(entry.masterBarIndex)?.beats.push({
+            start: entry.expandedStart - entry.bar.expandedStart,
+            duration: entry.expandedEnd - entry.expandedStart,
+            bounds: bb?.visualBounds ? { ...bb.visualBounds } : null,
+            onNotesX: typeof bb?.onNotesX === 'number' ? bb.onNotesX : null,
+        });
+    }
+
+    // Dense 0..n-1 — bars never played (rare) are recorded empty.
+    const count = (api.score?.masterBars.length ?? 0) || Math.max(...byIndex.keys()) + 1;
+    const bars: RecordedBar[] = [];
+    for (let i = 0; i < count; i++) {
+        bars.push(byIndex.get(i) ?? { index: i, duration: 0, bounds: null, beats: [] });
+    }
+
+    return {
+        bars,
+        playbackOrder: timeline.bars.map(b => b.masterBarIndex),
+    };
+}
+
+// ─────────────────────────────────────────────
+// Recorder
+// ─────────────────────────────────────────────
+
+export class PositionRecorder {
+    private readonly api: AlphaTabAdapter;
+    private readonly options: PositionRecorderOptions;
+    private layout: RecordedLayout | null = null;
+    private events: RecordedEvent[] = [];
+    private disposers: (() => void)[] = [];
+    private startedAt = 0;
+    private lastTick: number | null = null;
+    private lastRangeKey = 'none';
+    private pendingSeek = false;
+
+    constructor(api: AlphaTabAdapter, options: PositionRecorderOptions = {}) {
+        this.api = api;
+        this.options = options;
+    }
+
+    get isRecording(): boolean {
+        return this.disposers.length > 0;
+    }
+
+    get eventCount(): number {
+        return this.events.length;
+    }
+
+    /** Snapshots the layout and subscribes. Returns false if bounds are not ready. */
+    start(): boolean {
+        if (this.isRecording) return true;
+        const layout = captureLayout(this.api);
+        if (!layout) return false;
+
+        this.layout = layout;
+        this.events = [];
+        this.startedAt = performance.now();
+        this.lastTick = null;
+        this.lastRangeKey = 'none';
+        this.pendingSeek = false;
+
+        // Subscribed AFTER the page's CursorDriver handler → cursor is already updated.
+        this.disposers = [
+            this.api.playerPositionChanged.on(e => this.onPosition(e.currentTick)),
+            this.api.playerStateChanged.on(e => this.push({ type: e.state === 0 ? 'pause' : 'play', t: this.now() })),
+            this.api.renderer.renderFinished.on(() => {
+                const next = captureLayout(this.api);
+                if (next) this.push({ type: 'layout', t: this.now(), layout: next });
+            }),
+        ];
+        this.recordLoopState();
+        if (this.api.playerState !== 0) this.push({ type: 'play', t: this.now() });
+        return true;
+    }
+
+    /** Unsubscribes and returns the recording (null if start() never succeeded). */
+    stop(): PositionRecording | null {
+        for (const dispose of this.disposers) dispose();
+        this.disposers = [];
+        if (!this.layout) return null;
+        const recording: PositionRecording = {
+            version: RECORDING_VERSION,
+            label: this.options.label ?? 'recording',
+            recordedAt: new Date().toISOString(),
+            layout: this.layout,
+            events: this.events,
+        };
+        this.layout = null;
+        this.events = [];
+        return recording;
+    }
+
+    /** Page-initiated seek (click-to-seek, seek button) — call before setting tickPosition. */
+    markSeek(tick: number): void {
+        if (!this.isRecording) return;
+        this.pendingSeek = true;
+        this.push({ type: 'seek', t: this.now(), tick });
+    }
+
+    // ─────────────────────────────────────────
+    // Internals
+    // ─────────────────────────────────────────
+
+    private onPosition(tick: number | null | undefined): void {
+        if (tick == null) return;
+        this.recordLoopState();
+
+        const last = this.lastTick;
+        if (last != null && !this.pendingSeek) {
+            const range = this.loopRange();
+            if (tick < last && range && tick >= range.startTick && tick < range.startTick + JUMP_THRESHOLD) {
+                this.push({ type: 'loopWrap', t: this.now(), from: last, tick });
+            } else if (tick < last || tick - last > JUMP_THRESHOLD) {
+                this.push({ type: 'seek', t: this.now(), tick, inferred: true });
+            }
+        }
+        this.pendingSeek = false;
+        this.lastTick = tick;
+
+        const pos = this.options.getCursorPosition?.() ?? null;
+        const visual = this.options.visualTick?.(tick) ?? tick;
+        const event: RecordedEvent = { type: 'position', t: this.now(), tick };
+        if (visual !== tick) event.visualTick = round(visual);
+        if (pos) { event.x = round(pos.x); event.y = round(pos.y); }
+        this.push(event);
+    }
+
+    private loopRange(): AdapterPlaybackRange | null {
+        const enabled = this.options.isLoopEnabled ? this.options.isLoopEnabled() : this.api.isLooping;
+        return enabled ? this.api.playbackRange : null;
+    }
+
+    private recordLoopState(): void {
+        const range = this.loopRange();
+        const key = range ? `${range.startTick}-${range.endTick}` : 'none';
+        if (key === this.lastRangeKey) return;
+        this.lastRangeKey = key;
+        this.push({
+            type: 'loop',
+            t: this.now(),
+            range: range ? { startTick: range.startTick, endTick: range.endTick } : null,
+        });
+    }
+
+    private push(event: RecordedEvent): void {
+        this.events.push(event);
+    }
+
+    private now(): number {
+        return round(performance.now() - this.startedAt);
+    }
+}
+
+function round(v: number): number {
+    return Math.round(v * 100) / 100;
+}
@@ -0,0 +1,254 @@
+/**
+ * PositionReplayer v1.1 — Deterministic Cursor Regression Check
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.1: recorded visualTick (latency compensation) is fed back through
+ *    CursorDriver options.visualTick; beat lookups for the rules use it too.
+ *
+ * Feeds a PositionRecording back through the SAME path the live page uses:
+ *   FakeAlphaTab (recorded geometry + playback order)
+ *     → CursorDriver.handlePosition / snapToTick
+ *       → MaestroCursor.setBeat / setTick
+ * and checks the resulting X sequence.
+ *
+ * RULES (each guards a regression from the MaestroCursor header):
+ *   non-monotonic  — X moved backward inside one expanded beat
+ *                    (v4.3.5 mid-beat mode switch, v4.3.2 RAF drift)
+ *   backward-jerk  — X moved backward entering the NEXT beat in playback order
+ *                    on the same row and playback segment (repeat / D.S. jumps
+ *                    legitimately move back), with no seek/wrap/layout in between
+ *   pause-clamp    — after pause the cursor is not on the note head although
+ *                    the beat had fully elapsed (v4.5 barline parking)
+ *   golden-drift   — X differs from the live cursor X stored in the recording
+ *                    (any cursor change that moves pixels — review, then re-record)
+ *
+ * Runs in the browser (debug panel) and in Node (createStubContainer) — no DOM needed.
+ */
+
+import type { AdapterBeat } from './AlphaTabAdapter';
+import { CursorDriver } from './CursorDriver';
+import { ExpandedBeat, getExpandedTimeline } from './ExpandedTimeline';
+import { FakeAlphaTab, FakeBarGeometry, createStubContainer } from './FakeAlphaTab';
+import type { PositionRecording, RecordedLayout } from './PositionRecorder';
+import { RECORDING_VERSION } from './PositionRecorder';
+import { MaestroCursor } from '../components/MaestroCursor';
+
+export type ReplayRule = 'non-monotonic' | 'backward-jerk' | 'pause-clamp' | 'golden-drift';
+
+export interface ReplayViolation {
+    rule: ReplayRule;
+    /** Index into recording.events. */
+    eventIndex: number;
+    tick: number;
+    x: number;
+    /** Previous sample X (non-monotonic / backward-jerk) or expected X (pause-clamp / golden-drift). */
+    expectedX: number;
+    message: string;
+}
+
+export interface ReplaySample {
+    eventIndex: number;
+    tick: number;
+    x: number;
+    y: number;
+    /** ExpandedTimeline beat index at this tick, null in gaps. */
+    beatIndex: number | null;
+}
+
+export interface ReplayReport {
+    label: string;
+    eventCount: number;
+    samples: ReplaySample[];
+    violations: ReplayViolation[];
+    ok: boolean;
+}
+
+export interface ReplayOptions {
+    /** Pixel slack for monotonic / jerk / clamp checks. MaestroCursor skips moves < 0.5px. */
+    tolerance?: number;
+    /** Pixel slack against the recorded live X. */
+    goldenTolerance?: number;
+    /** Cursor host. Defaults to a DOM-free stub. */
+    container?: HTMLElement;
+}
+
+// Same margin as the CursorDriver LOOP BOUNDARY ENFORCER.
+const SAFETY_MARGIN = 120;
+// Same row test MaestroCursor uses for Mode A.
+const SAME_ROW_PX = 5;
+
+// ─────────────────────────────────────────────
+// Layout → FakeAlphaTab
+// ─────────────────────────────────────────────
+
+/** Rebuilds a FakeAlphaTab with the recorded bars, playback order and bounds. */
+export function buildFakeFromLayout(layout: RecordedLayout): FakeAlphaTab {
+    const fake = new FakeAlphaTab();
+    for (const bar of layout.bars) {
+        fake.addBar({
+            duration: bar.duration,
+            beats: bar.beats.map(b => ({ start: b.start, duration: b.duration })),
+        });
+    }
+    fake.setPlaybackOrder(layout.playbackOrder);
+    applyLayoutGeometry(fake, layout);
+    return fake;
+}
+
+function applyLayoutGeometry(fake: FakeAlphaTab, layout: RecordedLayout): void {
+    for (const bar of layout.bars) {
+        if (!bar.bounds) { fake.setBarGeometry(bar.index, null); continue; }
+        const barBounds = bar.bounds;
+        const geometry: FakeBarGeometry = {
+            bounds: barBounds,
+            beats: bar.beats.map(b => {
+                const bounds = b.bounds ?? barBounds;
+                return { bounds, onNotesX: b.onNotesX ?? bounds.x + bounds.w / 2 };
+            }),
+        };
+        fake.setBarGeometry(bar.index, geometry);
+    }
+}
+
+// ─────────────────────────────────────────────
+// Replay
+// ─────────────────────────────────────────────
+
+export function replayRecording(recording: PositionRecording, options: ReplayOptions = {}): ReplayReport {
+    if (recording?.version !== RECORDING_VERSION) {
+        throw new Error(`PositionReplayer: unsupported recording version ${recording?.version}`);
+    }
+    const tolerance = options.tolerance ?? 1;
+    const goldenTolerance = options.goldenTolerance ?? 2;
+
+    const fake = buildFakeFromLayout(recording.layout);
+    let loopOn = false;
+    // Displayed tick of the position event being replayed (latency compensation).
+    let visualTick: number | null = null;
+    const driver = new CursorDriver(fake, {
+        isLoopEnabled: () => loopOn,
+        visualTick: tick => visualTick ?? tick,
+    });
+    const container = options.container ?? (createStubContainer() as unknown as HTMLElement);
+    const cursor = new MaestroCursor(fake, container);
+    driver.attach(cursor);
+
+    const samples: ReplaySample[] = [];
+    const violations: ReplayViolation[] = [];
+    let prev: { sample: ReplaySample; entry: ExpandedBeat | null } | null = null;
+    // Set by seek / wrap / layout / loop enforcer — next sample is not compared to prev.
+    let discontinuity = true;
+
+    const noteXOf = (beat: AdapterBeat): number | null => {
+        const bb = fake.renderer.boundsLookup?.findBeat(beat);
+        return bb ? bb.onNotesX : null;
+    };
+
+    const report = (rule: ReplayRule, eventIndex: number, tick: number, x: number, expectedX: number, message: string) => {
+        violations.push({ rule, eventIndex, tick, x, expectedX, message });
+    };
+
+    recording.events.forEach((event, eventIndex) => {
+        switch (event.type) {
+            case 'loop':
+                loopOn = !!event.range;
+                fake.playbackRange = event.range ? { ...event.range } : null;
+                return;
+            case 'play':
+                fake.play();
+                return;
+            case 'seek':
+            case 'loopWrap':
+                discontinuity = true;
+                return;
+            case 'layout':
+                applyLayoutGeometry(fake, event.layout);
+                fake.relayout({});
+                // page.tsx: renderFinished → snap to the current tick.
+                if (driver.lastTick != null) driver.snapToTick(driver.lastTick);
+                discontinuity = true;
+                return;
+            case 'pause': {
+                fake.pause();
+                const tick = driver.lastTick;
+                if (tick == null) return;
+                // page.tsx: manual toggle → playerStateChanged → snap at the paused tick.
+                driver.snapToTick(tick);
+                const pos = cursor.getPosition();
+                const entry = getExpandedTimeline(fake)?.findBeat(tick) ?? null;
+                const noteX = entry ? noteXOf(entry.beat) : null;
+                if (pos && entry && noteX != null) {
+                    const duration = entry.expandedEnd - entry.expandedStart;
+                    const progress = duration > 0 ? (tick - entry.expandedStart) / duration : 0;
+                    if (progress >= 0.999 && Math.abs(pos.x - noteX) > tolerance) {
+                        report('pause-clamp', eventIndex, tick, pos.x, noteX,
+                            `paused at beat end but cursor is ${(pos.x - noteX).toFixed(1)}px off the note head`);
+                    } else if (pos.x < noteX - tolerance) {
+                        report('pause-clamp', eventIndex, tick, pos.x, noteX,
+                            `paused cursor is ${(noteX - pos.x).toFixed(1)}px before the note head`);
+                    }
+                }
+                discontinuity = true;
+                return;
+            }
+            case 'position': {
+                const range = fake.playbackRange;
+                const enforced = loopOn && range != null && event.tick >= range.endTick - SAFETY_MARGIN;
+                fake.tickPosition = event.tick;
+                visualTick = event.visualTick ?? null;
+                driver.handlePosition(event.tick);
+                if (enforced) { discontinuity = true; return; }
+                const tick = event.visualTick ?? event.tick;
+
+                const pos = cursor.getPosition();
+                if (!pos) return;
+                const entry = getExpandedTimeline(fake)?.findBeat(tick) ?? null;
+                const sample: ReplaySample = { eventIndex, tick, x: pos.x, y: pos.y, beatIndex: entry?.index ?? null };
+                samples.push(sample);
+
+                if (prev && !discontinuity && entry && prev.entry) {
+                    const back = prev.sample.x - pos.x;
+                    const sameRow = Math.abs(pos.y - prev.sample.y) < SAME_ROW_PX;
+                    if (entry === prev.entry && tick >= prev.sample.tick && back > tolerance) {
+                        report('non-monotonic', eventIndex, tick, pos.x, prev.sample.x,
+                            `moved back ${back.toFixed(1)}px inside beat ${entry.index}`);
+                    } else if (entry.index === prev.entry.index + 1 && entry.bar.segment === prev.entry.bar.segment
+                        && sameRow && back > tolerance) {
+                        report('backward-jerk', eventIndex, tick, pos.x, prev.sample.x,
+                            `jumped back ${back.toFixed(1)}px entering beat ${entry.index}`);
+                    }
+                }
+
+                if (typeof event.x === 'number' && Math.abs(pos.x - event.x) > goldenTolerance) {
+                    report('golden-drift', eventIndex, tick, pos.x, event.x,
+                        `replayed X differs from recorded X by ${(pos.x - event.x).toFixed(1)}px`);
+                }
+
+                prev = { sample, entry };
+                discontinuity = false;
+                return;
+            }
+        }
+    });
+
+    cursor.destroy();
+
+    return {
+        label: recording.label,
+        eventCount: recording.events.length,
+        samples,
+        violations,
+        ok: violations.length === 0,
+    };
+}
+
+/** One-line summary for logs and the debug panel. */
+export function formatReplayReport(report: ReplayReport): string {
+    if (report.ok) {
+        return `✅ ${report.label}: ${report.samples.length} samples / ${report.eventCount} events, no violations`;
+    }
+    const byRule = new Map<ReplayRule, number>();
+    for (const v of report.violations) byRule.set(v.rule, (byRule.get(v.rule) ?? 0) + 1);
+    const parts = [...byRule.entries()].map(([rule, n]) => `${rule}×${n}`).join(', ');
+    return `❌ ${report.label}: ${report.violations.length} violations (${parts})`;
+}
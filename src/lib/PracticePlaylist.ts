@@ -0,0 +1,260 @@
+/**
+ * PracticePlaylist v1.0 — Loop Regions Played in Sequence
+ * Date: March 5th, 2026
+ *
+ * "Bars 5–8 ×4, then 21–24 ×4, then 5–24 ×2": a queue of loop regions from
+ * anywhere in the score, each with its own repetition count and (optional)
+ * speed. Playback moves through them by itself.
+ *
+ *   start(i)   — region i becomes the loop (LoopController.setRange, source
+ *                'playlist'), its speed is applied; returns the tick to seek
+ *   wrapped    — one repetition of the active region; after `repeats` the
+ *                next region takes over INSIDE the wrap handler, so
+ *                LoopController.enforce() seeks straight into it (the
+ *                LoopAutoAdvance path) — also backwards in the score
+ *   end        — loopPlaylist: back to region 1; otherwise playback pauses
+ *                on the last region's start and the playlist stops
+ *   stop()     — restores the speed from before start()
+ *
+ * Any other loop change (drag, recall, clear, auto-advance) is the student
+ * taking over — the playlist stops.
+ *
+ * 🔒 Writes api.playbackSpeed on every region change (its speed, or the one
+ *    from before start()); the loop itself goes through LoopController (the
+ *    only writer of playbackRange).
+ */
+
+import type { AlphaTabAdapter } from './AlphaTabAdapter';
+import { CursorEventEmitter } from './CursorEvents';
+import type { LoopChangedEvent, LoopController } from './LoopController';
+import type { LoopRange } from './LoopSnap';
+
+export interface PlaylistEntry {
+    id: string;
+    range: LoopRange;
+    /** "Bars 5–8" — set by the caller when queued. */
+    label: string;
+    /** Repetitions before the next region. */
+    repeats: number;
+    /** % of the score tempo, null = the speed from before start(). */
+    speedPercent: number | null;
+    /** Overlay colour (PLAYLIST_COLORS, by queue position when added). */
+    color: string;
+}
+
+export interface PracticePlaylistState {
+    active: boolean;
+    entries: PlaylistEntry[];
+    /** Index of the playing region (-1 before start). */
+    current: number;
+    /** Completed repetitions of the current region. */
+    repetition: number;
+    /** Start over after the last region instead of stopping. */
+    loopPlaylist: boolean;
+    /** Ran through the last region (loopPlaylist off). */
+    finished: boolean;
+}
+
+export interface PracticePlaylistEventMap {
+    progress: PracticePlaylistState;
+    advanced: { from: number; to: number };
+    /** Last region done (loopPlaylist off) — playback was paused. */
+    finished: { regions: number };
+}
+
+export const PLAYLIST_COLORS = ['#e91e63', '#ff9800', '#8bc34a', '#9c27b0', '#00bcd4', '#795548'];
+
+// Same bounds as the tempo trainer.
+const MIN_PERCENT = 25;
+const MAX_PERCENT = 300;
+
+let nextEntryId = 1;
+
+export class PracticePlaylist {
+    private readonly api: AlphaTabAdapter;
+    private readonly loop: LoopController;
+    private readonly events = new CursorEventEmitter<PracticePlaylistEventMap>();
+    private readonly disposers: (() => void)[];
+    private entries: PlaylistEntry[] = [];
+    private active = false;
+    private current = -1;
+    private repetition = 0;
+    private loopPlaylist = false;
+    private finished = false;
+    private speedBeforeStart = 1;
+
+    constructor(api: AlphaTabAdapter, loop: LoopController) {
+        this.api = api;
+        this.loop = loop;
+        this.disposers = [
+            loop.on('wrapped', () => this.handleWrapped()),
+            loop.on('changed', (e) => this.handleLoopChanged(e)),
+        ];
+    }
+
+    get state(): PracticePlaylistState {
+        return {
+            active: this.active,
+            entries: this.entries.map(e => ({ ...e, range: { ...e.range } })),
+            current: this.current,
+            repetition: this.repetition,
+            loopPlaylist: this.loopPlaylist,
+            finished: this.finished,
+        };
+    }
+
+    on<K extends keyof PracticePlaylistEventMap>(type: K, handler: (event: PracticePlaylistEventMap[K]) => void): () => void {
+        return this.events.on(type, handler);
+    }
+
+    // ─────────────────────────────────────────
+    // Queue
+    // ─────────────────────────────────────────
+
+    add(range: LoopRange, label: string, options: { repeats?: number; speedPercent?: number | null } = {}): PlaylistEntry | null {
+        if (range.endTick <= range.startTick) return null;
+        const entry: PlaylistEntry = {
+            id: `region-${nextEntryId++}`,
+            range: { startTick: range.startTick, endTick: range.endTick },
+            label,
+            repeats: normalizeRepeats(options.repeats ?? 4),
+            speedPercent: normalizeSpeed(options.speedPercent ?? null),
+            color: PLAYLIST_COLORS[this.entries.length % PLAYLIST_COLORS.length],
+        };
+        this.entries.push(entry);
+        this.emitProgress();
+        return entry;
+    }
+
+    update(id: string, patch: { repeats?: number; speedPercent?: number | null }): void {
+        const entry = this.entries.find(e => e.id === id);
+        if (!entry) return;
+        if (patch.repeats != null) entry.repeats = normalizeRepeats(patch.repeats);
+        if (patch.speedPercent !== undefined) {
+            entry.speedPercent = normalizeSpeed(patch.speedPercent);
+            if (this.active && this.entries[this.current] === entry) this.applySpeed(entry);
+        }
+        this.emitProgress();
+    }
+
+    remove(id: string): void {
+        const index = this.entries.findIndex(e => e.id === id);
+        if (index < 0) return;
+        // The playing region can't vanish under the wrap.
+        if (this.active && index === this.current) this.stop();
+        this.entries.splice(index, 1);
+        if (index < this.current) this.current--;
+        this.emitProgress();
+    }
+
+    /** Moves a region one place earlier (-1) or later (1). */
+    move(id: string, direction: 1 | -1): void {
+        const index = this.entries.findIndex(e => e.id === id);
+        const target = index + direction;
+        if (index < 0 || target < 0 || target >= this.entries.length) return;
+        [this.entries[index], this.entries[target]] = [this.entries[target], this.entries[index]];
+        if (this.current === index) this.current = target;
+        else if (this.current === target) this.current = index;
+        this.emitProgress();
+    }
+
+    clear(): void {
+        this.stop();
+        this.entries = [];
+        this.current = -1;
+        this.emitProgress();
+    }
+
+    setLoopPlaylist(on: boolean): void {
+        this.loopPlaylist = on;
+        this.emitProgress();
+    }
+
+    // ─────────────────────────────────────────
+    // Playback
+    // ─────────────────────────────────────────
+
+    /** Plays from region `index`. Returns the tick to seek to, null if empty. */
+    start(index = 0): number | null {
+        const entry = this.entries[index];
+        if (!entry) return null;
+        if (!this.active) this.speedBeforeStart = this.api.playbackSpeed > 0 ? this.api.playbackSpeed : 1;
+        this.active = true;
+        this.finished = false;
+        this.goTo(index);
+        return entry.range.startTick;
+    }
+
+    stop(): void {
+        if (!this.active) return;
+        this.active = false;
+        this.api.playbackSpeed = this.speedBeforeStart;
+        this.emitProgress();
+    }
+
+    destroy(): void {
+        this.stop();
+        this.disposers.forEach(dispose => dispose());
+        this.events.clear();
+    }
+
+    // ─────────────────────────────────────────
+    // Internals
+    // ─────────────────────────────────────────
+
+    private goTo(index: number): void {
+        const entry = this.entries[index];
+        this.current = index;
+        this.repetition = 0;
+        this.loop.setRange(entry.range, 'playlist');
+        this.applySpeed(entry);
+        this.emitProgress();
+    }
+
+    private applySpeed(entry: PlaylistEntry): void {
+        this.api.playbackSpeed = entry.speedPercent != null ? entry.speedPercent / 100 : this.speedBeforeStart;
+    }
+
+    private handleWrapped(): void {
+        if (!this.active) return;
+        const entry = this.entries[this.current];
+        if (!entry) return;
+        this.repetition++;
+        if (this.repetition < entry.repeats) {
+            this.emitProgress();
+            return;
+        }
+        const from = this.current;
+        const to = from + 1 < this.entries.length ? from + 1 : this.loopPlaylist ? 0 : -1;
+        if (to < 0) {
+            console.log('📋 Playlist: finished');
+            this.finished = true;
+            this.api.pause();
+            this.stop();
+            this.events.emit('finished', { regions: this.entries.length });
+            return;
+        }
+        console.log(`📋 Playlist: region ${from + 1} → ${to + 1}`);
+        this.goTo(to);
+        this.events.emit('advanced', { from, to });
+    }
+
+    private handleLoopChanged(e: LoopChangedEvent): void {
+        if (!this.active || e.source === 'playlist') return;
+        console.log(`📋 Playlist: stopped — loop changed (${e.source})`);
+        this.stop();
+    }
+
+    private emitProgress(): void {
+        this.events.emit('progress', this.state);
+    }
+}
+
+function normalizeRepeats(value: number): number {
+    return Math.max(1, Math.round(value) || 1);
+}
+
+function normalizeSpeed(value: number | null): number | null {
+    if (value == null || !Number.isFinite(value) || value <= 0) return null;
+    return Math.max(MIN_PERCENT, Math.min(MAX_PERCENT, Math.round(value)));
+}
@@ -0,0 +1,241 @@
+/**
+ * SavedLoops v1.0 — Named Practice Loops per Score
+ * Date: March 5th, 2026
+ *
+ * "Solo intro", "Bridge riff" … stored locally (IndexedDB) and keyed by a
+ * content hash of the loaded file, so a loop follows the SCORE — not the URL
+ * or file name it was opened from — and survives reloads.
+ *
+ *   scoreContentHash(bytes)  — SHA-256 of the raw file (FNV-1a outside a
+ *                              secure context, where crypto.subtle is missing)
+ *   SavedLoopStore           — list / put / remove per score hash
+ *   exportLoopSet / parseLoopSet / importLoopSet
+ *                            — JSON hand-off (teacher → student)
+ *
+ * Ticks are EXPANDED (LoopController ranges), so a loop over pass 2 of a
+ * repeat recalls pass 2. The same file always expands the same way.
+ *
+ * 🔒 Headless — no React, no alphaTab. Recall goes through
+ *    LoopController.setRange (the only writer of playbackRange).
+ */
+
+import type { ExpandedTimeline } from './ExpandedTimeline';
+import type { LoopRange } from './LoopSnap';
+
+export interface SavedLoop extends LoopRange {
+    id: string;
+    scoreHash: string;
+    name: string;
+    /** Transport tick when saved — recall puts the cursor back here. */
+    cursorTick: number;
+    createdAt: string;
+}
+
+/** Export file format (versioned — imports check it). */
+export interface SavedLoopSet {
+    format: 'maestro-loops';
+    version: 1;
+    scoreHash: string;
+    /** Score title at export time (display only). */
+    scoreTitle: string;
+    exportedAt: string;
+    loops: Omit<SavedLoop, 'id' | 'scoreHash'>[];
+}
+
+const LOOP_SET_FORMAT = 'maestro-loops';
+
+// ─────────────────────────────────────────────
+// Content hash
+// ─────────────────────────────────────────────
+
+/** Hex digest of the raw score file. Same bytes → same loops. */
+export async function scoreContentHash(bytes: Uint8Array): Promise<string> {
+    const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+    if (subtle) {
+        const digest = await subtle.digest('SHA-256', bytes as BufferSource);
+        return toHex(new Uint8Array(digest));
+    }
+    // Plain http on a LAN address — weaker, but stable per file.
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash ^= bytes[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `fnv1a-${(hash >>> 0).toString(16).padStart(8, '0')}-${bytes.length}`;
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ─────────────────────────────────────────────
+// Loop helpers
+// ─────────────────────────────────────────────
+
+export function createSavedLoop(scoreHash: string, name: string, range: LoopRange, cursorTick: number): SavedLoop {
+    return {
+        id: newLoopId(),
+        scoreHash,
+        name: name.trim() || 'Untitled loop',
+        startTick: range.startTick,
+        endTick: range.endTick,
+        cursorTick: clampCursorTick(range, cursorTick),
+        createdAt: new Date().toISOString(),
+    };
+}
+
+/** True if the loop still lies inside this score's expanded timeline. */
+export function fitsTimeline(loop: LoopRange, timeline: ExpandedTimeline | null): boolean {
+    if (!timeline || loop.endTick <= loop.startTick) return false;
+    return timeline.findBar(loop.startTick) != null && timeline.findBar(loop.endTick - 1) != null;
+}
+
+/** "Bars 3–5" / "Bar 7 (pass 2)" — 1-based, pass only when replayed. */
+export function describeLoopRange(range: LoopRange, timeline: ExpandedTimeline | null): string {
+    const first = timeline?.findBar(range.startTick);
+    const last = timeline?.findBar(range.endTick - 1);
+    if (!first || !last) return `ticks ${range.startTick}–${range.endTick}`;
+    const label = (bar: typeof first) =>
+        `${bar.masterBarIndex + 1}${bar.occurrence > 0 ? ` (pass ${bar.occurrence + 1})` : ''}`;
+    return first === last ? `Bar ${label(first)}` : `Bars ${label(first)}–${label(last)}`;
+}
+
+/** Cursor outside the loop (saved while stopped elsewhere) → loop start. */
+function clampCursorTick(range: LoopRange, tick: number): number {
+    return tick >= range.startTick && tick < range.endTick ? tick : range.startTick;
+}
+
+function newLoopId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    return `loop-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// ─────────────────────────────────────────────
+// Export / import
+// ─────────────────────────────────────────────
+
+export function exportLoopSet(scoreHash: string, scoreTitle: string, loops: SavedLoop[]): SavedLoopSet {
+    return {
+        format: LOOP_SET_FORMAT,
+        version: 1,
+        scoreHash,
+        scoreTitle,
+        exportedAt: new Date().toISOString(),
+        loops: loops.map(({ name, startTick, endTick, cursorTick, createdAt }) => ({
+            name, startTick, endTick, cursorTick, createdAt,
+        })),
+    };
+}
+
+/** Validates an imported file. Throws with a readable message. */
+export function parseLoopSet(json: unknown): SavedLoopSet {
+    const set = json as Partial<SavedLoopSet> | null;
+    if (!set || set.format !== LOOP_SET_FORMAT) throw new Error('Not a loop set file');
+    if (set.version !== 1) throw new Error(`Unsupported loop set version ${String(set.version)}`);
+    if (typeof set.scoreHash !== 'string' || !Array.isArray(set.loops)) throw new Error('Loop set is incomplete');
+    for (const loop of set.loops) {
+        if (typeof loop?.name !== 'string' || !Number.isFinite(loop.startTick) || !Number.isFinite(loop.endTick)
+            || loop.endTick <= loop.startTick) {
+            throw new Error(`Invalid loop in set: ${JSON.stringify(loop)}`);
+        }
+    }
+    return set as SavedLoopSet;
+}
+
+/**
+ * Loops of a set, re-keyed to `scoreHash` with fresh ids (importing twice
+ * duplicates rather than overwrites — the student may have renamed theirs).
+ */
+export function importLoopSet(set: SavedLoopSet, scoreHash: string): SavedLoop[] {
+    return set.loops.map(loop => ({
+        ...createSavedLoop(scoreHash, loop.name, loop, Number.isFinite(loop.cursorTick) ? loop.cursorTick : loop.startTick),
+        createdAt: loop.createdAt ?? new Date().toISOString(),
+    }));
+}
+
+// ─────────────────────────────────────────────
+// Store (IndexedDB, in-memory fallback)
+// ─────────────────────────────────────────────
+
+const DB_NAME = 'maestro.loops';
+const DB_VERSION = 1;
+const STORE = 'loops';
+const BY_SCORE = 'scoreHash';
+
+export class SavedLoopStore {
+    private db: Promise<IDBDatabase> | null = null;
+    // SSR / private mode without IndexedDB — loops last for the session.
+    private readonly memory = new Map<string, SavedLoop>();
+
+    /** Loops of one score, oldest first. */
+    async list(scoreHash: string): Promise<SavedLoop[]> {
+        const db = await this.open();
+        const loops = db
+            ? await request<SavedLoop[]>(db.transaction(STORE).objectStore(STORE).index(BY_SCORE).getAll(scoreHash))
+            : [...this.memory.values()].filter(l => l.scoreHash === scoreHash);
+        return loops.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    /** Insert or replace (rename = put with the same id). */
+    async put(...loops: SavedLoop[]): Promise<void> {
+        const db = await this.open();
+        if (!db) {
+            for (const loop of loops) this.memory.set(loop.id, { ...loop });
+            return;
+        }
+        const tx = db.transaction(STORE, 'readwrite');
+        for (const loop of loops) tx.objectStore(STORE).put(loop);
+        await complete(tx);
+    }
+
+    async remove(id: string): Promise<void> {
+        const db = await this.open();
+        if (!db) {
+            this.memory.delete(id);
+            return;
+        }
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).delete(id);
+        await complete(tx);
+    }
+
+    private open(): Promise<IDBDatabase | null> {
+        if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+        this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+                store.createIndex(BY_SCORE, 'scoreHash');
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+        return this.db.catch((err) => {
+            console.error('❌ SavedLoops: IndexedDB unavailable, keeping loops in memory', err);
+            this.db = null;
+            return null;
+        });
+    }
+}
+
+function request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result as T);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+let sharedStore: SavedLoopStore | null = null;
+
+/** One store per page — every instance of the same score sees the same loops. */
+export function getSavedLoopStore(): SavedLoopStore {
+    return (sharedStore ??= new SavedLoopStore());
+}
@@ -0,0 +1,247 @@
+/**
+ * ScoreGeometry v1.1 — Expanded Tick ↔ Score Pixel
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.1: edgeX(tick) — X of a loop edge. Beat boundaries sit midway between
+ *    the two note heads (BeatCustomLoopOverlay v1.5 midpoint trimming), ticks
+ *    inside a beat on the cursor walk. Used by LoopController highlight rects.
+ *
+ * One answer to "where is tick T on the page" and "which tick is under this
+ * pixel". Before v1.0 every component had its own:
+ *   - MaestroCursor           — note head → next note head / barline walk
+ *   - BeatCustomLoopOverlay   — 30-tick brute-force nearest-beat search
+ *   - CustomLoopOverlay       — proportional tick inside the beat box
+ *   - page.tsx / ScoreInstance — getBeatAtPos + resolveOccurrence on click
+ *
+ *   tickToPoint(tick)            → { x, y, height } of the cursor at that
+ *                                  EXPANDED tick (repeat pass aware)
+ *   pointToTick(x, y, passHint?) → EXPANDED tick under a surface point; the
+ *                                  pass is the occurrence in passHint's
+ *                                  playback segment (first pass without hint)
+ *   clientToScore(surface, e)    → mouse/pointer event → surface point
+ *
+ * X follows the cursor walk: note head (onNotesX) → next note head in the
+ * same bar and row (Mode A), else → master bar right edge (Mode B). So
+ * pointToTick(tickToPoint(T).x) lands back on T, and a click seeks to where
+ * the cursor would be drawn.
+ *
+ * Coordinates are boundsLookup coordinates = .at-surface pixels. alphaTab
+ * already multiplies bounds by settings.display.scale (BoundsLookup.finish),
+ * so there is NO division by scale — CustomLoopOverlay ≤ v2.11 divided and
+ * was off at any zoom but 1.0.
+ *
+ * 🔒 Holds no geometry of its own — every call reads the live
+ *    renderer.boundsLookup and ExpandedTimeline, so re-render and zoom need
+ *    no invalidation.
+ * 🔒 Stateless: no frozen nextBeatCenterX. MaestroCursor keeps its own
+ *    locked walk; tickToPoint is for overlays, seek previews and tests.
+ */
+
+import type { AdapterBeat, AdapterBeatBounds, AlphaTabAdapter } from './AlphaTabAdapter';
+import { ExpandedBar, ExpandedBeat, getExpandedTimeline } from './ExpandedTimeline';
+
+export interface ScorePoint {
+    /** Cursor centre X (note head → walk target). */
+    x: number;
+    /** Staff top of the beat's bar. */
+    y: number;
+    height: number;
+    beat: ExpandedBeat;
+}
+
+export interface ScoreHit {
+    /** Expanded tick under the point (interpolated inside the beat). */
+    tick: number;
+    /** Expanded start of the beat under the point — click-to-seek target. */
+    beatStart: number;
+    /** Beat under the point. `tick` may sit in its predecessor's walk (left of the note head). */
+    beat: AdapterBeat;
+    bar: ExpandedBar;
+}
+
+// Rows are compared like MaestroCursor.setBeat (same staff line within 5px).
+const SAME_ROW_PX = 5;
+// Nearest-beat fallback tolerance around system / bar bounds.
+const SYSTEM_SLOP_Y = 10;
+const BAR_SLOP_X = 20;
+
+export class ScoreGeometry {
+    private readonly api: AlphaTabAdapter;
+    private readonly trackIndices: Set<number> | undefined;
+
+    constructor(api: AlphaTabAdapter, trackIndices?: Set<number>) {
+        this.api = api;
+        this.trackIndices = trackIndices;
+    }
+
+    // ─────────────────────────────────────────
+    // Tick → point
+    // ─────────────────────────────────────────
+
+    /** Cursor position at an expanded tick. null outside the timeline / before bounds. */
+    tickToPoint(tick: number): ScorePoint | null {
+        const entry = getExpandedTimeline(this.api, this.trackIndices)?.findBeat(tick);
+        if (!entry) return null;
+        const span = this.walkSpan(entry.beat);
+        if (!span) return null;
+
+        const duration = entry.expandedEnd - entry.expandedStart;
+        const progress = duration > 0
+            ? Math.max(0, Math.min(1, (tick - entry.expandedStart) / duration))
+            : 0;
+        const vb = span.bounds.visualBounds;
+        return { x: span.fromX + (span.toX - span.fromX) * progress, y: vb.y, height: vb.h, beat: entry };
+    }
+
+    /**
+     * X of a range edge at an expanded tick. Beat start → midway between the
+     * previous and this note head; inside a beat → tickToPoint().x.
+     * null on the first beat of a bar occurrence — the caller uses the bar edge.
+     */
+    edgeX(tick: number): number | null {
+        const timeline = getExpandedTimeline(this.api, this.trackIndices);
+        const entry = timeline?.findBeat(tick);
+        if (!timeline || !entry) return null;
+        if (tick !== entry.expandedStart) return this.tickToPoint(tick)?.x ?? null;
+
+        const prev = timeline.findBeat(tick - 1);
+        if (!prev || prev.bar !== entry.bar) return null;
+        const a = this.tickToPoint(prev.expandedStart);
+        const b = this.tickToPoint(entry.expandedStart);
+        if (!a || !b || Math.abs(a.y - b.y) >= SAME_ROW_PX) return null;
+        return (a.x + b.x) / 2;
+    }
+
+    // ─────────────────────────────────────────
+    // Point → tick
+    // ─────────────────────────────────────────
+
+    /**
+     * Expanded tick under a surface point. passHintTick picks the repeat pass
+     * (ExpandedTimeline.resolveOccurrence — same segment first, nearest second);
+     * without it the bar's first occurrence is used.
+     */
+    pointToTick(x: number, y: number, passHintTick?: number | null): ScoreHit | null {
+        const beat = this.beatAtPoint(x, y);
+        const timeline = getExpandedTimeline(this.api, this.trackIndices);
+        const masterBarIndex = beat?.voice?.bar?.masterBar?.index;
+        if (!beat || !timeline || masterBarIndex == null) return null;
+
+        const bar = passHintTick != null
+            ? timeline.resolveOccurrence(masterBarIndex, passHintTick)
+            : timeline.getOccurrences(masterBarIndex)[0] ?? null;
+        if (!bar) return null;
+        const beatStart = bar.expandedStart + (beat.playbackStart ?? 0);
+
+        // Left of the note head belongs to the previous beat's walk.
+        let walked = beat;
+        let span = this.walkSpan(beat);
+        const prev = beat.previousBeat;
+        if (span && x < span.fromX && prev && prev.voice?.bar === beat.voice?.bar) {
+            const prevSpan = this.walkSpan(prev);
+            if (prevSpan && x >= prevSpan.fromX) { walked = prev; span = prevSpan; }
+        }
+        if (!span) return { tick: beatStart, beatStart, beat, bar };
+
+        const width = span.toX - span.fromX;
+        const t = width > 0 ? Math.max(0, Math.min(1, (x - span.fromX) / width)) : 0;
+        const offset = (walked.playbackStart ?? 0) + Math.floor(t * (walked.playbackDuration ?? 0));
+        const tick = Math.min(bar.expandedStart + offset, bar.expandedEnd - 1);
+        return { tick, beatStart, beat, bar };
+    }
+
+    /**
+     * Beat under a surface point: boundsLookup.getBeatAtPos, else the beat whose
+     * note head is nearest x in the bar under the point (clicks in bar padding,
+     * between staves, on barlines).
+     */
+    beatAtPoint(x: number, y: number): AdapterBeat | null {
+        const lookup = this.api.renderer?.boundsLookup;
+        if (!lookup) return null;
+        const hit = lookup.getBeatAtPos(x, y);
+        if (hit) return hit;
+
+        let nearest: AdapterBeat | null = null;
+        let nearestDist = Infinity;
+        for (const sys of lookup.staffSystems ?? []) {
+            const sb = sys?.visualBounds;
+            if (!sb || y < sb.y - SYSTEM_SLOP_Y || y > sb.y + sb.h + SYSTEM_SLOP_Y) continue;
+            for (const mbb of sys.bars ?? []) {
+                for (const bar of mbb?.bars ?? []) {
+                    const b = bar?.visualBounds;
+                    if (!b || x < b.x - BAR_SLOP_X || x > b.x + b.w + BAR_SLOP_X) continue;
+                    for (const bb of bar.beats ?? []) {
+                        const dist = Math.abs(noteXOf(bb) - x);
+                        if (dist < nearestDist) { nearestDist = dist; nearest = bb.beat; }
+                    }
+                }
+            }
+        }
+        return nearest;
+    }
+
+    // ─────────────────────────────────────────
+    // Walk span (MaestroCursor Mode A / Mode B)
+    // ─────────────────────────────────────────
+
+    private walkSpan(beat: AdapterBeat): { fromX: number; toX: number; bounds: AdapterBeatBounds } | null {
+        const lookup = this.api.renderer?.boundsLookup;
+        const bounds = lookup?.findBeat(beat);
+        if (!bounds?.visualBounds) return null;
+        const fromX = noteXOf(bounds);
+
+        const next = beat.nextBeat;
+        if (next && next.voice?.bar === beat.voice?.bar) {
+            const nb = lookup?.findBeat(next);
+            if (nb?.visualBounds && Math.abs(nb.visualBounds.y - bounds.visualBounds.y) < SAME_ROW_PX) {
+                const nx = noteXOf(nb);
+                if (nx > fromX) return { fromX, toX: nx, bounds };   // Mode A
+            }
+        }
+
+        const mb = lookup?.findMasterBar(beat.voice?.bar?.masterBar)?.visualBounds;
+        const toX = mb ? mb.x + mb.w : fromX + bounds.visualBounds.w;  // Mode B
+        return { fromX, toX: Math.max(fromX, toX), bounds };
+    }
+}
+
+function noteXOf(bb: AdapterBeatBounds): number {
+    return typeof bb.onNotesX === 'number' ? bb.onNotesX : bb.visualBounds.x + bb.visualBounds.w / 2;
+}
+
+// ─────────────────────────────────────────────
+// DOM → surface point
+// ─────────────────────────────────────────────
+
+/**
+ * Mouse / pointer position in boundsLookup coordinates. Same as alphaTab's own
+ * click handling (clientX − surface rect). getBoundingClientRect already
+ * reflects every scroll offset — adding scrollTop counted it twice.
+ */
+export function clientToScore(surface: Element, e: { clientX: number; clientY: number }): { x: number; y: number } {
+    const rect = surface.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+}
+
+// ─────────────────────────────────────────────
+// Per-API cache
+// ─────────────────────────────────────────────
+
+// Only the track filter is per instance — geometry is always read live.
+const geometryCache = new WeakMap<object, Map<string, ScoreGeometry>>();
+
+/** Shared geometry service for this api (all rendered tracks unless trackIndices is given). */
+export function getScoreGeometry(api: AlphaTabAdapter, trackIndices?: Set<number>): ScoreGeometry {
+    let perTrack = geometryCache.get(api);
+    if (!perTrack) {
+        perTrack = new Map();
+        geometryCache.set(api, perTrack);
+    }
+    const key = trackIndices ? [...trackIndices].sort((a, b) => a - b).join(',') : 'all';
+    let geometry = perTrack.get(key);
+    if (!geometry) {
+        geometry = new ScoreGeometry(api, trackIndices);
+        perTrack.set(key, geometry);
+    }
+    return geometry;
+}
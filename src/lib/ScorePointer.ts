@@ -0,0 +1,149 @@
+/**
+ * ScorePointer v1.0 — Pointer Events for Loops and Seeks
+ * Date: March 5th, 2026
+ *
+ * Mouse, pen and touch through ONE event model (Pointer Events). Mouse and
+ * pen behave as before: press = loop gesture, click = seek. Touch needs its
+ * own rules — one finger also scrolls the page:
+ *
+ *   tap                       → seek (onScoreTap)
+ *   press + hold LONG_PRESS_MS → loop gesture starts under the finger
+ *   move > TOUCH_SLOP_PX first → native scroll, no loop
+ *   second finger             → two-finger scroll / pinch — pending press
+ *                               and any loop gesture are dropped
+ *
+ * Touch jitter: a resting finger wobbles a few pixels, and next to a beat
+ * boundary that is a "beat crossed". Moves inside TOUCH_SLOP_PX of the
+ * press are not forwarded to the loop gesture until the finger has left
+ * that radius once (sticky, like beatCrossed) — a long-press without a drag
+ * stays a bar-snap, the same answer LoopIntentGate gives trackpad drift.
+ *
+ * TouchPressTracker is headless (no timers, no DOM) — LoopOverlay owns the
+ * long-press timer, pointer capture and preventDefault.
+ */
+
+/** Hold time before a touch starts a loop gesture. */
+export const LONG_PRESS_MS = 450;
+
+/** Finger travel that still counts as "not moved" (tap / hold / jitter). */
+export const TOUCH_SLOP_PX = 10;
+
+/**
+ *   idle     — no finger down
+ *   pressing — one finger down, long-press timer running
+ *   loop     — long-press fired, the finger drives the loop gesture
+ *   scroll   — moved / second finger: the browser's gesture, not ours
+ */
+export type TouchPressPhase = 'idle' | 'pressing' | 'loop' | 'scroll';
+
+export class TouchPressTracker {
+    private readonly pointers = new Map<number, { x: number; y: number }>();
+    private primaryId: number | null = null;
+    private downX = 0;
+    private downY = 0;
+    private leftSlop = false;
+    private phaseValue: TouchPressPhase = 'idle';
+
+    get phase(): TouchPressPhase {
+        return this.phaseValue;
+    }
+
+    /** Finger the press / loop gesture belongs to. */
+    get pointerId(): number | null {
+        return this.primaryId;
+    }
+
+    /** A finger landed. A second finger turns any press / loop into 'scroll'. */
+    down(pointerId: number, clientX: number, clientY: number): TouchPressPhase {
+        this.pointers.set(pointerId, { x: clientX, y: clientY });
+        if (this.pointers.size > 1) {
+            this.phaseValue = 'scroll';
+        } else {
+            this.primaryId = pointerId;
+            this.downX = clientX;
+            this.downY = clientY;
+            this.leftSlop = false;
+            this.phaseValue = 'pressing';
+        }
+        return this.phaseValue;
+    }
+
+    /**
+     * A finger moved. Returns true when the move belongs to the loop gesture
+     * (phase 'loop', primary finger, slop left at least once).
+     */
+    move(pointerId: number, clientX: number, clientY: number): boolean {
+        if (!this.pointers.has(pointerId)) return false;
+        this.pointers.set(pointerId, { x: clientX, y: clientY });
+        if (pointerId !== this.primaryId) return false;
+        if (!this.leftSlop && Math.hypot(clientX - this.downX, clientY - this.downY) >= TOUCH_SLOP_PX) {
+            this.leftSlop = true;
+            // Moved before the hold completed — that's a scroll.
+            if (this.phaseValue === 'pressing') this.phaseValue = 'scroll';
+        }
+        return this.phaseValue === 'loop' && this.leftSlop;
+    }
+
+    /** Long-press timer fired. True if the loop gesture may start. */
+    longPress(): boolean {
+        if (this.phaseValue !== 'pressing') return false;
+        this.phaseValue = 'loop';
+        return true;
+    }
+
+    /** Finger lifted / cancelled. Returns the phase it ended — 'loop' = commit. */
+    up(pointerId: number): TouchPressPhase {
+        if (!this.pointers.delete(pointerId)) return 'idle';
+        const phase = pointerId === this.primaryId ? this.phaseValue : 'idle';
+        if (pointerId === this.primaryId) {
+            this.primaryId = null;
+            // Remaining fingers finish their scroll; nothing of ours is left.
+            this.phaseValue = this.pointers.size ? 'scroll' : 'idle';
+        } else if (!this.pointers.size) {
+            this.phaseValue = 'idle';
+        }
+        return phase;
+    }
+
+    reset(): void {
+        this.pointers.clear();
+        this.primaryId = null;
+        this.phaseValue = 'idle';
+    }
+}
+
+/**
+ * Tap / click on the surface → handler (click-to-seek). Replaces 'click':
+ * primary button only, never after a long-press, two-finger gesture or a
+ * finger that travelled (scroll).
+ */
+export function onScoreTap(surface: HTMLElement, handler: (e: PointerEvent) => void): () => void {
+    const downs = new Map<number, { x: number; y: number; time: number }>();
+    // A second finger spoils the tap for every finger of that gesture.
+    let multi = false;
+
+    const onDown = (e: PointerEvent) => {
+        multi = !e.isPrimary;
+        downs.set(e.pointerId, { x: e.clientX, y: e.clientY, time: e.timeStamp });
+    };
+    const onUp = (e: PointerEvent) => {
+        const down = downs.get(e.pointerId);
+        downs.delete(e.pointerId);
+        if (!down || e.button !== 0 || multi) return;
+        if (e.pointerType === 'touch') {
+            if (Math.hypot(e.clientX - down.x, e.clientY - down.y) >= TOUCH_SLOP_PX) return;
+            if (e.timeStamp - down.time >= LONG_PRESS_MS) return;
+        }
+        handler(e);
+    };
+    const onCancel = (e: PointerEvent) => { downs.delete(e.pointerId); };
+
+    surface.addEventListener('pointerdown', onDown);
+    surface.addEventListener('pointerup', onUp);
+    surface.addEventListener('pointercancel', onCancel);
+    return () => {
+        surface.removeEventListener('pointerdown', onDown);
+        surface.removeEventListener('pointerup', onUp);
+        surface.removeEventListener('pointercancel', onCancel);
+    };
+}
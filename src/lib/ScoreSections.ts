@@ -0,0 +1,112 @@
+/**
+ * ScoreSections v1.0 — Section Markers → Loop Ranges
+ * Date: March 5th, 2026
+ *
+ * Guitar Pro section markers (Intro, Verse, Solo …) live on master bars
+ * (masterBar.section). A section runs from its marker bar up to the next
+ * marker bar. Looping "the Solo" means its EXPANDED range — and a section
+ * is played once per pass through it:
+ *
+ *   |: Verse  .  .  :| Chorus      → Verse pass 1, Verse pass 2, Chorus
+ *   Verse |: .  . :| Chorus        → Verse pass 1 (internal repeat included)
+ *   Solo  .  (D.S. → bar inside Verse)  → Verse pass 2 is PARTIAL
+ *
+ * Passes come from ExpandedTimeline (built from tickCache.masterBars, so
+ * voltas and jumps are already in playback order). A pass ends when playback
+ * leaves the section or re-enters it at its marker bar.
+ *
+ * Bars before the first marker belong to no section. Scores without markers
+ * have no sections.
+ *
+ * 🔒 Headless — looping a section goes through LoopController.setRange.
+ */
+
+import type { ExpandedTimeline } from './ExpandedTimeline';
+import type { LoopRange } from './LoopSnap';
+
+export interface SectionPass {
+    /** 0-based pass through this section, in playback order. */
+    pass: number;
+    range: LoopRange;
+    /** Entered mid-section (a jump past the marker bar). */
+    partial: boolean;
+}
+
+export interface ScoreSection {
+    /** Position in the section list (score order). */
+    index: number;
+    /** Section text, the marker letter when the text is empty. */
+    name: string;
+    marker: string;
+    /** Marker bar. */
+    masterBarIndex: number;
+    /** Last master bar before the next marker (inclusive). */
+    lastMasterBarIndex: number;
+    passes: SectionPass[];
+}
+
+/** Sections of the timeline's score, empty without markers. */
+export function getScoreSections(timeline: ExpandedTimeline): ScoreSection[] {
+    // Markers by master bar — every played master bar is in the timeline.
+    const markers = new Map<number, { text: string; marker: string }>();
+    let lastMasterBarIndex = -1;
+    for (const bar of timeline.bars) {
+        lastMasterBarIndex = Math.max(lastMasterBarIndex, bar.masterBarIndex);
+        const section = bar.masterBar?.section;
+        if (section && !markers.has(bar.masterBarIndex)) {
+            markers.set(bar.masterBarIndex, { text: section.text ?? '', marker: section.marker ?? '' });
+        }
+    }
+
+    const starts = [...markers.keys()].sort((a, b) => a - b);
+    const sections: ScoreSection[] = starts.map((masterBarIndex, index) => {
+        const { text, marker } = markers.get(masterBarIndex)!;
+        return {
+            index,
+            name: text.trim() || marker.trim() || `Section ${index + 1}`,
+            marker,
+            masterBarIndex,
+            lastMasterBarIndex: (starts[index + 1] ?? lastMasterBarIndex + 1) - 1,
+            passes: [],
+        };
+    });
+
+    // Section owning a master bar: last marker at or before it (binary search).
+    const sectionOf = (masterBarIndex: number): ScoreSection | null => {
+        let lo = 0;
+        let hi = sections.length - 1;
+        let found: ScoreSection | null = null;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (sections[mid].masterBarIndex <= masterBarIndex) {
+                found = sections[mid];
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+        return found;
+    };
+
+    let currentSection: ScoreSection | null = null;
+    let currentPass: SectionPass | null = null;
+    for (const bar of timeline.bars) {
+        const section = sectionOf(bar.masterBarIndex);
+        if (section && section === currentSection && currentPass && bar.masterBarIndex !== section.masterBarIndex) {
+            currentPass.range.endTick = bar.expandedEnd;
+            continue;
+        }
+        currentSection = section;
+        currentPass = null;
+        if (!section) continue;
+        currentPass = {
+            pass: section.passes.length,
+            range: { startTick: bar.expandedStart, endTick: bar.expandedEnd },
+            partial: bar.masterBarIndex !== section.masterBarIndex,
+        };
+        section.passes.push(currentPass);
+    }
+
+    return sections;
+}
+
@@ -0,0 +1,160 @@
+/**
+ * SoundingNotes v1.0 — Which Note Heads Sound at a Tick
+ * Date: March 5th, 2026
+ *
+ * Stateless, repeat-aware answer to "which notes are sounding at tick T":
+ *   1. ExpandedTimeline.findBar(T) → the bar OCCURRENCE (same resolution as
+ *      the cursor — pass 2 of a repeat lights pass-2 ticks, never pass 1)
+ *   2. offset = T - occurrence.expandedStart
+ *   3. every note of every beat (all rendered tracks, staves, voices) whose
+ *      sounding window [start, end) contains offset
+ *
+ * States:
+ *   'active'  — the note's own beat covers the tick (attacked, or held by a
+ *               long beat while other voices move)
+ *   'ringing' — let-ring tail past its beat (until the next note on the same
+ *               string in that voice, or the barline), or a tie destination
+ *               (sounds, but is not re-struck)
+ *
+ * Because the answer depends only on the tick, seeks and loop wraps need no
+ * special handling — the next tick simply yields the right set.
+ *
+ * Note geometry comes from boundsLookup NoteBounds (settings.core.includeNoteBounds).
+ * Index is built lazily per master bar and dropped when tickCache or
+ * boundsLookup is replaced (new score / re-render).
+ */
+
+import type { AdapterBeat, AdapterBounds, AdapterMasterBar, AdapterNote, AlphaTabAdapter } from './AlphaTabAdapter';
+import { trackIndicesOf } from './AlphaTabAdapter';
+import { getExpandedTimeline } from './ExpandedTimeline';
+
+export type NoteState = 'active' | 'ringing';
+
+export interface SoundingNote {
+    note: AdapterNote;
+    beat: AdapterBeat;
+    /** Note head bounds (container coordinates). */
+    bounds: AdapterBounds;
+    state: NoteState;
+    /** Stable across ticks — same note head, same key. */
+    key: string;
+}
+
+interface NoteEntry {
+    note: AdapterNote;
+    beat: AdapterBeat;
+    bounds: AdapterBounds;
+    /** Offsets inside the bar. */
+    start: number;
+    beatEnd: number;
+    end: number;
+    key: string;
+}
+
+export class SoundingNotesIndex {
+    private readonly api: AlphaTabAdapter;
+    private readonly trackIndices: Set<number>;
+    private readonly bars = new Map<number, NoteEntry[]>();
+
+    constructor(api: AlphaTabAdapter, trackIndices: Set<number> = trackIndicesOf(api)) {
+        this.api = api;
+        this.trackIndices = trackIndices;
+    }
+
+    /** Note heads sounding at an expanded tick. Empty in gaps / before bounds exist. */
+    at(tick: number): SoundingNote[] {
+        const bar = getExpandedTimeline(this.api)?.findBar(tick);
+        if (!bar) return [];
+        const offset = tick - bar.expandedStart;
+
+        const result: SoundingNote[] = [];
+        for (const e of this.entriesFor(bar.masterBar, bar.masterBarIndex)) {
+            if (offset < e.start || offset >= e.end) continue;
+            const struck = offset < e.beatEnd && !e.note.isTieDestination;
+            result.push({ note: e.note, beat: e.beat, bounds: e.bounds, state: struck ? 'active' : 'ringing', key: e.key });
+        }
+        return result;
+    }
+
+    // ─────────────────────────────────────────
+    // Per-bar index
+    // ─────────────────────────────────────────
+
+    private entriesFor(masterBar: AdapterMasterBar, masterBarIndex: number): NoteEntry[] {
+        const cached = this.bars.get(masterBarIndex);
+        if (cached) return cached;
+
+        const lookup = this.api.renderer?.boundsLookup;
+        const barEnd = masterBar.calculateDuration();
+        const entries: NoteEntry[] = [];
+
+        for (const track of masterBar.score?.tracks ?? []) {
+            if (!this.trackIndices.has(track.index)) continue;
+            track.staves.forEach((staff, staffIdx) => {
+                const bar = staff.bars[masterBarIndex];
+                (bar?.voices ?? []).forEach((voice, voiceIdx) => {
+                    if (voice.isEmpty) return;
+                    const beats = voice.beats;
+                    beats.forEach((beat, beatIdx) => {
+                        const noteBounds = lookup?.findBeat(beat)?.notes ?? [];
+                        if (!noteBounds.length) return;
+                        const start = beat.playbackStart;
+                        const beatEnd = start + beat.playbackDuration;
+                        for (const nb of noteBounds) {
+                            const note = nb.note;
+                            if (!nb.noteHeadBounds || note.isDead) continue;
+                            const end = note.isLetRing
+                                ? letRingEnd(beats, beatIdx, note.string, barEnd)
+                                : beatEnd;
+                            entries.push({
+                                note,
+                                beat,
+                                bounds: nb.noteHeadBounds,
+                                start,
+                                beatEnd,
+                                end: Math.max(end, beatEnd),
+                                key: `${track.index}:${staffIdx}:${masterBarIndex}:${voiceIdx}:${beatIdx}:${note.index}`,
+                            });
+                        }
+                    });
+                });
+            });
+        }
+
+        this.bars.set(masterBarIndex, entries);
+        return entries;
+    }
+}
+
+/** Let-ring lasts until the next note on the same string in this voice, or the barline. */
+function letRingEnd(beats: AdapterBeat[], fromIdx: number, string: number, barEnd: number): number {
+    for (let i = fromIdx + 1; i < beats.length; i++) {
+        if (beats[i].notes.some(n => n.string === string)) return beats[i].playbackStart;
+    }
+    return barEnd;
+}
+
+// ─────────────────────────────────────────────
+// Per-API cache
+// ─────────────────────────────────────────────
+
+const indexCache = new WeakMap<object, { tickCache: unknown; boundsLookup: unknown; index: SoundingNotesIndex }>();
+
+/** Cached index, rebuilt when tickCache or boundsLookup is replaced. */
+export function getSoundingNotesIndex(api: AlphaTabAdapter): SoundingNotesIndex | null {
+    const tickCache = api?.tickCache;
+    const boundsLookup = api?.renderer?.boundsLookup;
+    if (!tickCache || !boundsLookup) return null;
+
+    const cached = indexCache.get(api);
+    if (cached && cached.tickCache === tickCache && cached.boundsLookup === boundsLookup) return cached.index;
+
+    const index = new SoundingNotesIndex(api);
+    indexCache.set(api, { tickCache, boundsLookup, index });
+    return index;
+}
+
+/** Drops the cached index — call from renderFinished (track set may have changed). */
+export function invalidateSoundingNotes(api: AlphaTabAdapter): void {
+    if (api) indexCache.delete(api);
+}
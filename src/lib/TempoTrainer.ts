@@ -0,0 +1,187 @@
+/**
+ * TempoTrainer v1.0 — Progressive Speed on a Loop
+ * Date: March 5th, 2026
+ *
+ * The practice routine: play the loop slowly, and every N clean repetitions
+ * go a step faster until the target tempo.
+ *
+ *   start()     — playbackSpeed = startPercent, remembers the old speed
+ *   wrapped     — one repetition (LoopController 'wrapped': the enforcer's
+ *                 LOOP_SAFETY_MARGIN jump, reported once however many
+ *                 per-track drivers saw the edge)
+ *   markMiss()  — that one wasn't clean: the count at this speed restarts
+ *   stop()      — restores the speed from before start()
+ *
+ * A new loop range (drag, click, recall, clear) is a new passage — the
+ * trainer drops back to startPercent with zero repetitions. A practice
+ * playlist moving the loop ('playlist') stops it instead: each region carries
+ * its own speed, and two speed writers would fight on every wrap.
+ *
+ * 🔒 Only writes api.playbackSpeed. LatencyCompensation reads it live, so the
+ *    cursor offset follows every step.
+ */
+
+import type { AlphaTabAdapter } from './AlphaTabAdapter';
+import { CursorEventEmitter } from './CursorEvents';
+import type { LoopChangedEvent, LoopController } from './LoopController';
+
+export interface TempoTrainerSettings {
+    /** % of the score tempo for the first repetitions. */
+    startPercent: number;
+    /** % added per step. */
+    stepPercent: number;
+    /** Clean repetitions before the next step. */
+    repsPerStep: number;
+    /** Stop raising here. */
+    targetPercent: number;
+}
+
+export const DEFAULT_TEMPO_TRAINER: TempoTrainerSettings = {
+    startPercent: 70,
+    stepPercent: 5,
+    repsPerStep: 3,
+    targetPercent: 100,
+};
+
+export interface TempoTrainerState extends TempoTrainerSettings {
+    active: boolean;
+    speedPercent: number;
+    /** Clean repetitions at the current speed. */
+    repsAtSpeed: number;
+    /** Every repetition since start() / the last range change. */
+    totalReps: number;
+    reachedTarget: boolean;
+}
+
+export interface TempoTrainerEventMap {
+    /** Any state change (repetition, step, miss, start / stop, settings). */
+    progress: TempoTrainerState;
+    stepped: { fromPercent: number; toPercent: number };
+}
+
+// alphaTab accepts more, but below 25 % / above 300 % nobody practises.
+const MIN_PERCENT = 25;
+const MAX_PERCENT = 300;
+
+function clampPercent(value: number): number {
+    return Math.max(MIN_PERCENT, Math.min(MAX_PERCENT, Math.round(value)));
+}
+
+export class TempoTrainer {
+    private readonly api: AlphaTabAdapter;
+    private readonly events = new CursorEventEmitter<TempoTrainerEventMap>();
+    private readonly disposers: (() => void)[];
+    private settings: TempoTrainerSettings;
+    private active = false;
+    private speedPercent: number;
+    private repsAtSpeed = 0;
+    private totalReps = 0;
+    private speedBeforeStart = 1;
+
+    constructor(api: AlphaTabAdapter, loop: LoopController, settings: Partial<TempoTrainerSettings> = {}) {
+        this.api = api;
+        this.settings = TempoTrainer.normalize({ ...DEFAULT_TEMPO_TRAINER, ...settings });
+        this.speedPercent = this.settings.startPercent;
+        this.disposers = [
+            loop.on('wrapped', () => this.handleRepetition()),
+            loop.on('changed', (e) => this.handleLoopChanged(e)),
+        ];
+    }
+
+    get state(): TempoTrainerState {
+        return {
+            ...this.settings,
+            active: this.active,
+            speedPercent: this.speedPercent,
+            repsAtSpeed: this.repsAtSpeed,
+            totalReps: this.totalReps,
+            reachedTarget: this.speedPercent >= this.settings.targetPercent,
+        };
+    }
+
+    on<K extends keyof TempoTrainerEventMap>(type: K, handler: (event: TempoTrainerEventMap[K]) => void): () => void {
+        return this.events.on(type, handler);
+    }
+
+    /** New settings restart the ramp (while active). */
+    configure(settings: Partial<TempoTrainerSettings>): void {
+        this.settings = TempoTrainer.normalize({ ...this.settings, ...settings });
+        this.restart();
+    }
+
+    start(): void {
+        if (!this.active) this.speedBeforeStart = this.api.playbackSpeed > 0 ? this.api.playbackSpeed : 1;
+        this.active = true;
+        this.restart();
+    }
+
+    stop(): void {
+        if (!this.active) return;
+        this.active = false;
+        this.api.playbackSpeed = this.speedBeforeStart;
+        this.emitProgress();
+    }
+
+    /** Last repetition wasn't clean — the count at this speed starts over. */
+    markMiss(): void {
+        if (!this.active) return;
+        this.repsAtSpeed = 0;
+        this.emitProgress();
+    }
+
+    destroy(): void {
+        this.stop();
+        this.disposers.forEach(dispose => dispose());
+        this.events.clear();
+    }
+
+    // ─────────────────────────────────────────
+    // Internals
+    // ─────────────────────────────────────────
+
+    private restart(): void {
+        this.speedPercent = this.settings.startPercent;
+        this.repsAtSpeed = 0;
+        this.totalReps = 0;
+        if (this.active) this.api.playbackSpeed = this.speedPercent / 100;
+        this.emitProgress();
+    }
+
+    private handleRepetition(): void {
+        if (!this.active) return;
+        this.totalReps++;
+        this.repsAtSpeed++;
+        const { stepPercent, repsPerStep, targetPercent } = this.settings;
+        if (this.repsAtSpeed >= repsPerStep && this.speedPercent < targetPercent) {
+            const fromPercent = this.speedPercent;
+            this.speedPercent = Math.min(targetPercent, this.speedPercent + stepPercent);
+            this.repsAtSpeed = 0;
+            this.api.playbackSpeed = this.speedPercent / 100;
+            console.log(`🐢 Tempo trainer: ${fromPercent}% → ${this.speedPercent}%`);
+            this.events.emit('stepped', { fromPercent, toPercent: this.speedPercent });
+        }
+        this.emitProgress();
+    }
+
+    private handleLoopChanged(e: LoopChangedEvent): void {
+        // The playlist owns playbackSpeed while it runs.
+        if (e.source === 'playlist') { this.stop(); return; }
+        // Toggle OFF / clear leave nothing to repeat; a new range is a new passage.
+        if (this.active) this.restart();
+        if (!e.enabled) this.stop();
+    }
+
+    private emitProgress(): void {
+        this.events.emit('progress', this.state);
+    }
+
+    private static normalize(s: TempoTrainerSettings): TempoTrainerSettings {
+        const startPercent = clampPercent(s.startPercent);
+        return {
+            startPercent,
+            stepPercent: Math.max(1, Math.round(s.stepPercent)),
+            repsPerStep: Math.max(1, Math.round(s.repsPerStep)),
+            targetPercent: Math.max(startPercent, clampPercent(s.targetPercent)),
+        };
+    }
+}
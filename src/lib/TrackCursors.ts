@@ -0,0 +1,194 @@
+/**
+ * TrackCursors v1.2 — One MaestroCursor per Rendered Track
+ * Date: March 5th, 2026
+ *
+ * 🔥 V1.2: options.loop (LoopController) replaces isLoopEnabled — every driver
+ *    asks the same controller, which reports a wrap once per event.
+ * 🔥 V1.1: on(type, handler) re-emits every cursor's typed events (beatEntered,
+ *    barEntered, passChanged, loopWrapped) with the cursor's trackIndex.
+ *    Subscriptions survive setLayout()/refresh() rebuilds.
+ *
+ * A shared cursor resolves beats from ALL rendered tracks, so with guitar,
+ * bass and drums stacked it follows whichever beat wins first-match — the
+ * bass cursor never exists. TrackCursors owns N (cursor, driver) pairs:
+ *
+ *   'shared'     → 1 pair, all tracks (v5.35 behaviour)
+ *   'per-track'  → 1 pair per api.tracks entry, driver.trackIndices = {track}
+ *
+ * Every pair gets the SAME tick from the same playerPositionChanged event, so
+ * cursors stay in lockstep. Beat resolution, the setBeat/setTick contract and
+ * walk modes are the unchanged CursorDriver + MaestroCursor per pair — only the
+ * beat source differs (ExpandedTimeline per track set: own rests, own voices).
+ *
+ * 🔒 Cursor Y comes from the track's own beat bounds → each cursor spans its staff.
+ */
+
+import type { AlphaTabAdapter } from './AlphaTabAdapter';
+import { CursorDriver } from './CursorDriver';
+import type { LoopEnforcer } from './LoopController';
+import type { CursorSkin } from './CursorSkin';
+import { CrossSystemTransition, MaestroCursor, MaestroCursorOptions } from '../components/MaestroCursor';
+import { CursorEventEmitter, CursorEventMap, CursorEventType } from './CursorEvents';
+
+export type CursorLayout = 'shared' | 'per-track';
+
+export interface TrackCursorsOptions extends MaestroCursorOptions {
+    layout?: CursorLayout;
+    /** Forwarded to every CursorDriver — the loop wrap. */
+    loop?: LoopEnforcer;
+    /** Forwarded to every CursorDriver — latency compensation. */
+    visualTick?: (tick: number) => number;
+}
+
+/** Cursor events tagged with the emitting cursor's track (null = shared cursor). */
+export type TrackCursorEventMap = {
+    [K in CursorEventType]: CursorEventMap[K] & { trackIndex: number | null };
+};
+
+const CURSOR_EVENT_TYPES: CursorEventType[] = ['beatEntered', 'barEntered', 'passChanged', 'loopWrapped'];
+
+interface TrackCursor {
+    /** null = shared cursor (all tracks). */
+    trackIndex: number | null;
+    cursor: MaestroCursor;
+    driver: CursorDriver;
+}
+
+export class TrackCursors {
+    private readonly api: AlphaTabAdapter;
+    private readonly container: HTMLElement;
+    private readonly loop: LoopEnforcer | undefined;
+    private readonly visualTick: ((tick: number) => number) | undefined;
+    private cursorOptions: MaestroCursorOptions;
+    private layoutValue: CursorLayout;
+    private entries: TrackCursor[] = [];
+    private readonly events = new CursorEventEmitter<TrackCursorEventMap>();
+
+    constructor(api: AlphaTabAdapter, container: HTMLElement, options: TrackCursorsOptions = {}) {
+        this.api = api;
+        this.container = container;
+        this.loop = options.loop;
+        this.visualTick = options.visualTick;
+        this.cursorOptions = { skin: options.skin, debugLabel: options.debugLabel, transition: options.transition };
+        this.layoutValue = options.layout ?? 'shared';
+        this.rebuild();
+    }
+
+    get layout(): CursorLayout {
+        return this.layoutValue;
+    }
+
+    /** First cursor — the shared one, or the top track's. Used by the recorder. */
+    get primary(): MaestroCursor | null {
+        return this.entries[0]?.cursor ?? null;
+    }
+
+    get lastTick(): number | null {
+        return this.entries[0]?.driver.lastTick ?? null;
+    }
+
+    /** Track index → cursor (shared layout: single entry keyed -1). */
+    get cursors(): Map<number, MaestroCursor> {
+        return new Map(this.entries.map(e => [e.trackIndex ?? -1, e.cursor]));
+    }
+
+    /** Subscribe across all cursors. Returns a disposer. */
+    on<K extends CursorEventType>(type: K, handler: (event: TrackCursorEventMap[K]) => void): () => void {
+        return this.events.on(type, handler);
+    }
+
+    off<K extends CursorEventType>(type: K, handler: (event: TrackCursorEventMap[K]) => void): void {
+        this.events.off(type, handler);
+    }
+
+    setLayout(layout: CursorLayout): void {
+        if (layout === this.layoutValue) return;
+        this.layoutValue = layout;
+        this.rebuild();
+    }
+
+    /**
+     * Re-syncs pairs with api.tracks (new score / track selection change).
+     * Shared layout keeps its single cursor.
+     */
+    refresh(): void {
+        if (this.layoutValue === 'shared' && this.entries.length === 1) return;
+        const wanted = this.trackIndices().join(',');
+        const current = this.entries.map(e => e.trackIndex).join(',');
+        if (wanted !== current) this.rebuild();
+    }
+
+    handlePosition(tick: number | null | undefined): void {
+        for (const e of this.entries) e.driver.handlePosition(tick);
+    }
+
+    snapToTick(tick: number): void {
+        for (const e of this.entries) e.driver.snapToTick(tick);
+    }
+
+    reset(): void {
+        for (const e of this.entries) e.driver.reset();
+    }
+
+    setSkin(skin: CursorSkin): void {
+        this.cursorOptions = { ...this.cursorOptions, skin };
+        for (const e of this.entries) e.cursor.setSkin(skin);
+    }
+
+    setDebugLabel(enabled: boolean): void {
+        this.cursorOptions = { ...this.cursorOptions, debugLabel: enabled };
+        for (const e of this.entries) e.cursor.setDebugLabel(enabled);
+    }
+
+    setTransition(transition: CrossSystemTransition): void {
+        this.cursorOptions = { ...this.cursorOptions, transition };
+        for (const e of this.entries) e.cursor.setTransition(transition);
+    }
+
+    destroy(): void {
+        for (const e of this.entries) {
+            e.driver.attach(null);
+            e.cursor.destroy();
+        }
+        this.entries = [];
+    }
+
+    // ─────────────────────────────────────────
+    // Internals
+    // ─────────────────────────────────────────
+
+    private trackIndices(): number[] {
+        return (this.api.tracks ?? []).map(t => t.index);
+    }
+
+    private rebuild(): void {
+        const tick = this.lastTick ?? this.api.tickPosition ?? 0;
+        this.destroy();
+
+        const slots: (number | null)[] = this.layoutValue === 'per-track' ? this.trackIndices() : [null];
+        for (const trackIndex of slots) {
+            const driver = new CursorDriver(this.api, {
+                loop: this.loop,
+                visualTick: this.visualTick,
+                trackIndices: trackIndex == null ? undefined : new Set([trackIndex]),
+            });
+            const cursor = new MaestroCursor(this.api, this.container, this.cursorOptions);
+            driver.attach(cursor);
+            this.forwardEvents(cursor, trackIndex);
+            this.entries.push({ trackIndex, cursor, driver });
+        }
+
+        // New cursors start hidden — put them on the current beat.
+        this.snapToTick(tick);
+    }
+
+    private forwardEvents(cursor: MaestroCursor, trackIndex: number | null): void {
+        for (const type of CURSOR_EVENT_TYPES) {
+            cursor.on(type, (event: CursorEventMap[typeof type]) => {
+                // Skip the copy when nobody listens — beatEntered fires on every beat.
+                if (!this.events.has(type)) return;
+                this.events.emit(type, { ...event, trackIndex } as TrackCursorEventMap[typeof type]);
+            });
+        }
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * estimateLatency — tap-along calibration math, including latencies longer
+ * than half the click interval.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { MAX_LATENCY_MS, estimateLatency } from '../src/lib/LatencyCompensation';
+
+const clicks = Array.from({ length: 12 }, (_, i) => 500 + i * 600);
+const jitter = [0, 8, -6, 4, -3, 7, -8, 2, 5, -4, 1, -2];
+const tapsAt = (latency: number) => clicks.map((c, i) => c + latency + jitter[i]);
+
+describe('estimateLatency', () => {
+    it('measures a short latency', () => {
+        const result = estimateLatency(clicks, tapsAt(120));
+        expect(result?.latencyMs).toBeGreaterThanOrEqual(118);
+        expect(result?.latencyMs).toBeLessThanOrEqual(122);
+        expect(result?.samples).toBe(10);
+    });
+
+    it('measures latencies at and beyond half the click interval', () => {
+        for (const latency of [300, 450, 700, 950]) {
+            const result = estimateLatency(clicks, tapsAt(latency));
+            expect(Math.abs(result!.latencyMs - latency)).toBeLessThanOrEqual(3);
+        }
+    });
+
+    it('skips missed clicks and double taps without shifting the pairing', () => {
+        const taps = tapsAt(450).filter((_, i) => i !== 5);
+        taps.push(clicks[7] + 450 + 90);
+        const result = estimateLatency(clicks, taps);
+        expect(Math.abs(result!.latencyMs - 450)).toBeLessThanOrEqual(3);
+        expect(result?.samples).toBe(9);
+    });
+
+    it('ignores taps before the first click and clamps to MAX_LATENCY_MS', () => {
+        expect(estimateLatency(clicks, [100, ...tapsAt(200)])?.samples).toBe(10);
+        expect(estimateLatency(clicks, tapsAt(MAX_LATENCY_MS))?.latencyMs).toBeLessThanOrEqual(MAX_LATENCY_MS);
+    });
+
+    it('returns null with too few taps', () => {
+        expect(estimateLatency(clicks, tapsAt(200).slice(0, 5))).toBeNull();
+    });
+});
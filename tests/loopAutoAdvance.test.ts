@@ -0,0 +1,101 @@
+/**
+ * LoopAutoAdvance on FakeAlphaTab — next-chunk math in playback order and
+ * the advance inside the loop wrap.
+ *
+ *   bar 0  |: whole
+ *   bar 1     whole :|
+ *   bar 2     whole
+ *   bar 3     whole
+ * Playback order 0 1 0 1 2 3 → expanded bars at 0, 3840, 7680, 11520, 15360, 19200 (end 23040).
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getExpandedTimeline } from '../src/lib/ExpandedTimeline';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import { advanceLoopRange, LoopAutoAdvance } from '../src/lib/LoopAutoAdvance';
+import { LoopController } from '../src/lib/LoopController';
+
+function setup() {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    fake.addBar({ beats: [3840], repeatOpen: true });
+    fake.addBar({ beats: [3840], repeatCount: 2 });
+    fake.addBar({ beats: [3840] });
+    fake.addBar({ beats: [3840] });
+    return fake;
+}
+
+describe('advanceLoopRange', () => {
+    it("'bars' moves to the next group of as many bar occurrences — pass 2 after the repeat end", () => {
+        const timeline = getExpandedTimeline(setup())!;
+        expect(advanceLoopRange({ startTick: 0, endTick: 7680 }, timeline, 'bars')).toEqual({ startTick: 7680, endTick: 15360 });
+        expect(advanceLoopRange({ startTick: 11520, endTick: 15360 }, timeline, 'bars')).toEqual({ startTick: 15360, endTick: 19200 });
+    });
+
+    it("'length' keeps the loop's size, clamped to the end of the score", () => {
+        const timeline = getExpandedTimeline(setup())!;
+        expect(advanceLoopRange({ startTick: 0, endTick: 2880 }, timeline, 'length')).toEqual({ startTick: 2880, endTick: 5760 });
+        expect(advanceLoopRange({ startTick: 21000, endTick: 22500 }, timeline, 'length')).toEqual({ startTick: 22500, endTick: 23040 });
+    });
+
+    it('a short last group is clamped; nothing follows the last bar', () => {
+        const timeline = getExpandedTimeline(setup())!;
+        expect(advanceLoopRange({ startTick: 11520, endTick: 19200 }, timeline, 'bars')).toEqual({ startTick: 19200, endTick: 23040 });
+        expect(advanceLoopRange({ startTick: 19200, endTick: 23040 }, timeline, 'bars')).toBeNull();
+        expect(advanceLoopRange({ startTick: 19200, endTick: 23040 }, timeline, 'length')).toBeNull();
+    });
+});
+
+describe('LoopAutoAdvance', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    function run(repeats: number) {
+        const fake = setup();
+        const loop = new LoopController(fake);
+        const advance = new LoopAutoAdvance(fake, loop, { repeats, mode: 'bars' });
+        const wrap = () => {
+            const range = loop.range!;
+            loop.enforce(range.startTick + 10);
+            loop.enforce(range.endTick - 10);
+        };
+        return { fake, loop, advance, wrap };
+    }
+
+    it('advances after N wraps and the same wrap seeks into the new chunk', () => {
+        const { fake, loop, advance, wrap } = run(2);
+        loop.setRange({ startTick: 11520, endTick: 15360 });
+        advance.start();
+        wrap();
+        expect(loop.range).toEqual({ startTick: 11520, endTick: 15360 });
+        expect(fake.tickPosition).toBe(11520);
+        wrap();
+        expect(loop.range).toEqual({ startTick: 15360, endTick: 19200 });
+        expect(fake.tickPosition).toBe(15360);
+        expect(advance.state).toMatchObject({ repetition: 0, advanced: 1, finished: false });
+    });
+
+    it('keeps looping the last chunk at the end of the score', () => {
+        const { loop, advance, wrap } = run(1);
+        loop.setRange({ startTick: 15360, endTick: 19200 });
+        advance.start();
+        wrap();
+        wrap();
+        expect(loop.range).toEqual({ startTick: 19200, endTick: 23040 });
+        expect(advance.state.finished).toBe(true);
+        wrap();
+        expect(loop.range).toEqual({ startTick: 19200, endTick: 23040 });
+    });
+
+    it('a loop moved by the student restarts the count; loop off stops', () => {
+        const { loop, advance, wrap } = run(3);
+        loop.setRange({ startTick: 0, endTick: 3840 });
+        advance.start();
+        wrap();
+        wrap();
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        expect(advance.state.repetition).toBe(0);
+        loop.setEnabled(false);
+        expect(advance.state.active).toBe(false);
+    });
+});
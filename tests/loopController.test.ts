@@ -0,0 +1,343 @@
+/**
+ * LoopController on FakeAlphaTab — the sole writer of playbackRange /
+ * isLooping and the loop wrap.
+ *
+ *   bar 0  |: 4 × quarter
+ *   bar 1     4 × quarter        volta 1 :|
+ *   bar 2     4 × quarter        volta 2
+ *   bar 3     4 × quarter
+ * Playback order 0 1 0 2 3 → expanded bars at 0, 3840, 7680, 11520, 15360.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import { LOOP_SAFETY_MARGIN, LoopController, LoopEdge, LoopWrapEvent } from '../src/lib/LoopController';
+import { loopKeyCommand, runLoopKeyCommand } from '../src/lib/LoopKeyboard';
+import { getScoreGeometry } from '../src/lib/ScoreGeometry';
+
+function setup() {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    fake.addBar({ beats: [960, 960, 960, 960], repeatOpen: true });
+    fake.addBar({ beats: [960, 960, 960, 960], repeatCount: 2 });
+    fake.addBar({ beats: [960, 960, 960, 960] });
+    fake.addBar({ beats: [960, 960, 960, 960] });
+    fake.setPlaybackOrder([0, 1, 0, 2, 3]);
+    const loop = new LoopController(fake);
+    const geometry = getScoreGeometry(fake);
+    // Surface point a little inside the beat at an expanded tick.
+    const at = (tick: number): [number, number] => {
+        const p = geometry.tickToPoint(tick)!;
+        return [p.x + 2, p.y + 2];
+    };
+    return { fake, loop, at };
+}
+
+describe('LoopController state', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('writes playbackRange / isLooping for a range and drops them on clear', () => {
+        const { fake, loop } = setup();
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        expect(loop.enabled).toBe(true);
+        expect(fake.playbackRange).toEqual({ startTick: 3840, endTick: 7680 });
+        expect(fake.isLooping).toBe(true);
+        loop.clear();
+        expect(fake.playbackRange).toBeNull();
+        expect(fake.isLooping).toBe(false);
+        expect(loop.enabled).toBe(true);
+    });
+
+    it('ignores an empty or inverted range', () => {
+        const { fake, loop } = setup();
+        loop.setRange({ startTick: 3840, endTick: 3840 });
+        loop.setRange({ startTick: 7680, endTick: 3840 });
+        expect(loop.range).toBeNull();
+        expect(fake.playbackRange).toBeNull();
+    });
+
+    it('toggle ON loops the bar occurrence under the transport (pass 2 loops pass 2)', () => {
+        const { fake, loop } = setup();
+        fake.tickPosition = 7680 + 100;
+        loop.setEnabled(true);
+        expect(loop.range).toEqual({ startTick: 7680, endTick: 11520 });
+    });
+});
+
+describe('LoopController wrap', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('wraps LOOP_SAFETY_MARGIN ticks before the end, not earlier', () => {
+        const { fake, loop } = setup();
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        fake.tickPosition = 7680 - LOOP_SAFETY_MARGIN - 1;
+        expect(loop.enforce(7680 - LOOP_SAFETY_MARGIN - 1)).toBe(false);
+        expect(fake.tickPosition).toBe(7680 - LOOP_SAFETY_MARGIN - 1);
+        expect(loop.enforce(7680 - LOOP_SAFETY_MARGIN)).toBe(true);
+        expect(fake.tickPosition).toBe(3840);
+    });
+
+    it('wraps once when several per-track drivers enforce the same engine tick', () => {
+        const { fake, loop } = setup();
+        const wraps: LoopWrapEvent[] = [];
+        loop.on('wrapped', e => wraps.push(e));
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        // Three track cursors see the same playerPositionChanged event.
+        for (let driver = 0; driver < 3; driver++) expect(loop.enforce(7600)).toBe(true);
+        expect(wraps).toEqual([{ fromTick: 7600, range: { startTick: 3840, endTick: 7680 } }]);
+        expect(fake.tickPosition).toBe(3840);
+        // Back inside the loop, the next pass wraps again.
+        expect(loop.enforce(3900)).toBe(false);
+        expect(loop.enforce(7650)).toBe(true);
+        expect(wraps).toHaveLength(2);
+    });
+
+    it('never wraps without a range or while disabled', () => {
+        const { fake, loop } = setup();
+        expect(loop.enforce(7650)).toBe(false);
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        loop.setEnabled(false);
+        fake.tickPosition = 7650;
+        expect(loop.enforce(7650)).toBe(false);
+        expect(fake.tickPosition).toBe(7650);
+    });
+});
+
+describe('LoopController drag across repeat segments', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('a drag from bar 0 onto volta 2 loops pass 2 of bar 0, never the skipped volta 1', () => {
+        const { loop, at } = setup();
+        loop.setEnabled(true);
+        loop.clear();
+        loop.pointerDown(...at(0), 0, 0);
+        loop.pointerMove(...at(11520 + 2880));
+        loop.pointerUp(80, 0);
+        expect(loop.range).toEqual({ startTick: 7680, endTick: 15360 });
+    });
+
+    it('a drag inside one pass stays in that pass', () => {
+        const { loop, at } = setup();
+        loop.setEnabled(true);
+        loop.clear();
+        loop.pointerDown(...at(960), 0, 0);
+        loop.pointerMove(...at(3840 + 960));
+        loop.pointerUp(80, 0);
+        expect(loop.range).toEqual({ startTick: 960, endTick: 5760 });
+    });
+});
+
+describe('LoopController resize handles', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('moves one edge to the snapped beat and commits on pointerUp', () => {
+        const { loop, at } = setup();
+        const sources: string[] = [];
+        loop.on('changed', e => sources.push(e.source));
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        expect(loop.beginResize('end')).toBe(true);
+        loop.pointerMove(...at(3840 + 1920));
+        expect(loop.preview).toEqual({ startTick: 3840, endTick: 6720 });
+        loop.pointerUp();
+        expect(loop.range).toEqual({ startTick: 3840, endTick: 6720 });
+        expect(sources.at(-1)).toBe('resize');
+
+        loop.beginResize('start');
+        loop.pointerMove(...at(960));
+        loop.pointerUp();
+        expect(loop.range).toEqual({ startTick: 960, endTick: 6720 });
+    });
+
+    it('ignores a move that would cross the edges', () => {
+        const { loop, at } = setup();
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        loop.beginResize('end');
+        // Bar 0 resolves against the fixed start's pass — before the start.
+        loop.pointerMove(...at(1920));
+        expect(loop.preview).toBeNull();
+        loop.pointerUp();
+        expect(loop.range).toEqual({ startTick: 3840, endTick: 7680 });
+    });
+
+    it('resolves the moving edge in the fixed edge\'s pass', () => {
+        const { loop, at } = setup();
+        loop.setRange({ startTick: 7680, endTick: 8640 });
+        loop.beginResize('end');
+        // Bar 0's second beat is on screen once — the pass comes from the start edge.
+        loop.pointerMove(...at(1920));
+        loop.pointerUp();
+        expect(loop.range).toEqual({ startTick: 7680, endTick: 7680 + 2880 });
+    });
+
+    it('refuses a resize without a range or during a gesture', () => {
+        const { loop, at } = setup();
+        loop.setEnabled(true);
+        loop.clear();
+        expect(loop.beginResize('end')).toBe(false);
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        loop.pointerDown(...at(960), 0, 0);
+        expect(loop.beginResize('start')).toBe(false);
+        loop.cancelGesture();
+        expect(loop.beginResize('start')).toBe(true);
+    });
+});
+
+describe('LoopController A-B points and nudges', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('[ waits for ], both on the nearest beat boundary', () => {
+        const { loop } = setup();
+        const pending: (number | null)[] = [];
+        loop.on('marked', e => pending.push(e.pendingIn));
+        loop.markIn(1000);
+        expect(loop.pendingIn).toBe(960);
+        expect(loop.markOut(3000)).toBe(true);
+        expect(loop.range).toEqual({ startTick: 960, endTick: 2880 });
+        expect(pending).toEqual([960, null]);
+    });
+
+    it('] without [ or before A does nothing', () => {
+        const { loop } = setup();
+        expect(loop.markOut(3000)).toBe(false);
+        loop.markIn(2900);
+        expect(loop.markOut(1000)).toBe(false);
+        expect(loop.range).toBeNull();
+    });
+
+    it('[ inside a loop moves its start and makes it the active edge', () => {
+        const { loop } = setup();
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        expect(loop.activeEdge).toBe('end');
+        loop.markIn(4900);
+        expect(loop.range).toEqual({ startTick: 4800, endTick: 7680 });
+        expect(loop.activeEdge).toBe('start');
+    });
+
+    it('steps edges in playback order — one bar after the repeat end is pass 2', () => {
+        const { loop } = setup();
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        loop.nudgeEdge('end', 1, 'bar');
+        expect(loop.range).toEqual({ startTick: 3840, endTick: 11520 });
+        loop.nudgeEdge('end', -1, 'beat');
+        expect(loop.range).toEqual({ startTick: 3840, endTick: 10560 });
+        loop.shiftLoop(-1, 'bar');
+        expect(loop.range).toEqual({ startTick: 0, endTick: 6720 });
+    });
+
+    it('clamps nudges that would cross the edges or leave the timeline', () => {
+        const { loop } = setup();
+        loop.setRange({ startTick: 3840, endTick: 4800 });
+        loop.nudgeEdge('start', 1, 'beat');
+        loop.nudgeEdge('end', -1, 'beat');
+        expect(loop.range).toEqual({ startTick: 3840, endTick: 4800 });
+
+        loop.setRange({ startTick: 0, endTick: 960 });
+        loop.nudgeEdge('start', -1, 'beat');
+        loop.shiftLoop(-1, 'bar');
+        expect(loop.range).toEqual({ startTick: 0, endTick: 960 });
+
+        loop.setRange({ startTick: 15360, endTick: 19200 });
+        loop.nudgeEdge('end', 1, 'bar');
+        loop.shiftLoop(1, 'beat');
+        expect(loop.range).toEqual({ startTick: 15360, endTick: 19200 });
+    });
+});
+
+describe('LoopKeyboard', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    const key = (key: string, mods: { shiftKey?: boolean; altKey?: boolean; code?: string } = {}) => ({
+        key, code: mods.code ?? '', shiftKey: !!mods.shiftKey, altKey: !!mods.altKey, ctrlKey: false, metaKey: false,
+    });
+
+    it('maps keys to commands', () => {
+        expect(loopKeyCommand(key('['))).toEqual({ type: 'markIn' });
+        expect(loopKeyCommand(key('ü', { code: 'BracketRight' }))).toEqual({ type: 'markOut' });
+        expect(loopKeyCommand(key('\\'))).toEqual({ type: 'toggleEdge' });
+        expect(loopKeyCommand(key('ArrowUp', { shiftKey: true }))).toEqual({ type: 'nudge', direction: 1, unit: 'bar' });
+        expect(loopKeyCommand(key('ArrowLeft', { altKey: true }))).toEqual({ type: 'shift', direction: -1, unit: 'beat' });
+        expect(loopKeyCommand({ ...key('['), ctrlKey: true })).toBeNull();
+    });
+
+    it('\\ selects the start edge for Shift+arrows without a mouse', () => {
+        const { loop } = setup();
+        const edges: LoopEdge[] = [];
+        loop.on('edge', e => edges.push(e.edge));
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        const run = (k: ReturnType<typeof key>) => runLoopKeyCommand(loop, loopKeyCommand(k)!, 0);
+
+        run(key('ArrowRight', { shiftKey: true }));
+        expect(loop.range).toEqual({ startTick: 3840, endTick: 7680 + 960 });
+        run(key('\\'));
+        expect(loop.activeEdge).toBe('start');
+        run(key('ArrowRight', { shiftKey: true }));
+        expect(loop.range).toEqual({ startTick: 4800, endTick: 8640 });
+        run(key('\\'));
+        expect(edges).toEqual(['start', 'end']);
+    });
+});
+
+describe('LoopController pre-roll', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('widens the engine range to the lead-in, the loop range stays real', () => {
+        const { fake, loop } = setup();
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        loop.setPreRoll({ length: 2, mode: 'every', countIn: false });
+        expect(loop.range).toEqual({ startTick: 3840, endTick: 7680 });
+        expect(loop.preRollStart).toBe(1920);
+        expect(fake.playbackRange).toEqual({ startTick: 1920, endTick: 7680 });
+        loop.setPreRoll(null);
+        expect(fake.playbackRange).toEqual({ startTick: 3840, endTick: 7680 });
+    });
+
+    it("'every' wraps onto the lead-in with a count-in that ends at the loop start", () => {
+        const { fake, loop } = setup();
+        fake.metronomeVolume = 0;
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        loop.setPreRoll({ length: 2, mode: 'every', countIn: true });
+        expect(loop.enforce(7600)).toBe(true);
+        expect(fake.tickPosition).toBe(1920);
+        expect(fake.metronomeVolume).toBe(1);
+        loop.enforce(2000);
+        expect(fake.metronomeVolume).toBe(1);
+        loop.enforce(3840);
+        expect(fake.metronomeVolume).toBe(0);
+    });
+
+    it("'first' leads in on play (cueStart) only — wraps go to the loop start", () => {
+        const { fake, loop } = setup();
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        loop.setPreRoll({ length: 2, mode: 'first', countIn: false });
+        fake.tickPosition = 12000;
+        expect(loop.cueStart()).toBe(1920);
+        expect(fake.tickPosition).toBe(1920);
+        // Mid-loop play keeps its position.
+        fake.tickPosition = 5000;
+        expect(loop.cueStart()).toBeNull();
+        loop.enforce(7600);
+        expect(fake.tickPosition).toBe(3840);
+    });
+
+    it("a 'bar' lead-in is the bar played before the loop — in playback order", () => {
+        const { fake, loop } = setup();
+        loop.setRange({ startTick: 7680, endTick: 11520 });
+        loop.setPreRoll({ length: 'bar', mode: 'every', countIn: false });
+        expect(loop.preRollStart).toBe(3840);
+        loop.enforce(11500);
+        expect(fake.tickPosition).toBe(3840);
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * LoopIntentGate truth table, and the same gate driving LoopController
+ * gestures on FakeAlphaTab geometry.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import { LoopController } from '../src/lib/LoopController';
+import { LoopIntentGate } from '../src/lib/LoopIntentGate';
+import { getScoreGeometry } from '../src/lib/ScoreGeometry';
+
+describe('LoopIntentGate', () => {
+    it('click without a crossed beat is a bar-snap', () => {
+        const gate = new LoopIntentGate();
+        gate.down(960, 100, 100);
+        expect(gate.move(960)).toBe(false);
+        expect(gate.up(104, 100)).toEqual({ intent: 'bar-snap', beatCrossed: false, pixelDist: 4 });
+    });
+
+    it('pixel distance alone (trackpad drift) stays a bar-snap', () => {
+        const gate = new LoopIntentGate();
+        gate.down(960, 0, 0);
+        gate.move(960);
+        const result = gate.up(30, 40);
+        expect(result?.intent).toBe('bar-snap');
+        expect(result?.pixelDist).toBe(50);
+    });
+
+    it('a crossed beat is a range and stays crossed when the pointer comes back', () => {
+        const gate = new LoopIntentGate();
+        gate.down(960, 0, 0);
+        expect(gate.move(1920)).toBe(true);
+        expect(gate.move(960)).toBe(true);
+        expect(gate.up()?.intent).toBe('range');
+    });
+
+    it('up() without down() and after cancel() reports nothing', () => {
+        const gate = new LoopIntentGate();
+        expect(gate.up()).toBeNull();
+        gate.down(0, 0, 0);
+        gate.move(960);
+        gate.cancel();
+        expect(gate.active).toBe(false);
+        expect(gate.beatCrossed).toBe(false);
+        expect(gate.up()).toBeNull();
+    });
+});
+
+describe('LoopController gestures', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    function setup() {
+        const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+        fake.addBar({ beats: [960, 960, 960, 960], repeatOpen: true });
+        fake.addBar({ beats: [1920, 1920], repeatCount: 2 });
+        fake.addBar({ beats: [3840] });
+        const geometry = getScoreGeometry(fake);
+        const loop = new LoopController(fake);
+        const at = (tick: number): [number, number] => {
+            const p = geometry.tickToPoint(tick)!;
+            return [p.x, p.y + 2];
+        };
+        loop.setEnabled(true);
+        return { fake, loop, at };
+    }
+
+    it('click snaps to the bar under the pointer', () => {
+        const { fake, loop, at } = setup();
+        loop.pointerDown(...at(3840 + 1920 + 10), 10, 10);
+        loop.pointerUp(12, 10);
+        expect(loop.range).toEqual({ startTick: 3840, endTick: 7680 });
+        expect(fake.playbackRange).toEqual({ startTick: 3840, endTick: 7680 });
+        expect(fake.isLooping).toBe(true);
+    });
+
+    it('drag across beats commits a beat range', () => {
+        const { loop, at } = setup();
+        loop.pointerDown(...at(960 + 5), 0, 0);
+        loop.pointerMove(...at(3840 + 100));
+        loop.pointerUp(50, 0);
+        expect(loop.range).toEqual({ startTick: 960, endTick: 5760 });
+    });
+
+    it('a relayout mid-gesture drops the gesture', () => {
+        const { fake, loop, at } = setup();
+        loop.pointerDown(...at(100), 0, 0);
+        fake.relayout({});
+        expect(loop.gestureActive).toBe(false);
+    });
+});
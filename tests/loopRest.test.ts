@@ -0,0 +1,116 @@
+/**
+ * LoopRest on FakeAlphaTab (fixed 120 BPM) with fake timers — pause on the
+ * wrap, park on the wrap target, resume, cancel().
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import { LoopController } from '../src/lib/LoopController';
+import { LoopRest, LoopRestEvent, loopRestMs } from '../src/lib/LoopRest';
+
+function setup() {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    for (let i = 0; i < 3; i++) fake.addBar({ beats: [960, 960, 960, 960] });
+    const loop = new LoopController(fake);
+    const park = vi.fn();
+    const rest = new LoopRest(fake, loop, { park });
+    const events: LoopRestEvent[] = [];
+    rest.on('rest', e => events.push(e));
+    loop.setRange({ startTick: 3840, endTick: 7680 });
+    fake.play();
+    const wrap = () => {
+        loop.enforce(4000);
+        loop.enforce(7600);
+    };
+    return { fake, loop, rest, park, events, wrap };
+}
+
+describe('loopRestMs', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('beats are quarters at the score tempo × playbackSpeed; seconds are seconds', () => {
+        const { fake } = setup();
+        expect(loopRestMs({ length: 4, unit: 'beats' }, fake, 0)).toBe(2000);
+        fake.playbackSpeed = 0.5;
+        expect(loopRestMs({ length: 4, unit: 'beats' }, fake, 0)).toBe(4000);
+        expect(loopRestMs({ length: 3, unit: 'seconds' }, fake, 0)).toBe(3000);
+        expect(loopRestMs({ length: 0, unit: 'seconds' }, fake, 0)).toBe(0);
+    });
+});
+
+describe('LoopRest', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('pauses on the wrap, parks on the loop start, resumes after the rest', () => {
+        const { fake, rest, park, events, wrap } = setup();
+        rest.setRest({ length: 4, unit: 'beats' });
+        wrap();
+        expect(fake.playerState).toBe(0);
+        expect(fake.tickPosition).toBe(3840);
+        expect(rest.resting).toBe(true);
+        expect(events.at(-1)).toMatchObject({ active: true, totalMs: 2000 });
+        vi.advanceTimersByTime(0);
+        expect(park).toHaveBeenCalledWith(3840);
+        vi.advanceTimersByTime(1999);
+        expect(fake.playerState).toBe(0);
+        vi.advanceTimersByTime(1);
+        expect(fake.playerState).toBe(1);
+        expect(rest.resting).toBe(false);
+        expect(events.at(-1)).toMatchObject({ active: false, totalMs: 0 });
+    });
+
+    it('parks on the lead-in when a pre-roll plays on every wrap', () => {
+        const { loop, rest, park, wrap } = setup();
+        loop.setPreRoll({ length: 2, mode: 'every', countIn: false });
+        expect(loop.wrapTarget).toBe(1920);
+        rest.setRest({ length: 1, unit: 'seconds' });
+        wrap();
+        vi.advanceTimersByTime(0);
+        expect(park).toHaveBeenCalledWith(1920);
+    });
+
+    it('cancel() ends the rest without resuming', () => {
+        const { fake, rest, wrap } = setup();
+        rest.setRest({ length: 2, unit: 'seconds' });
+        wrap();
+        expect(rest.cancel()).toBe(true);
+        vi.advanceTimersByTime(5000);
+        expect(fake.playerState).toBe(0);
+        expect(rest.cancel()).toBe(false);
+    });
+
+    it('loop off or rest off mid-rest resumes right away', () => {
+        const a = setup();
+        a.rest.setRest({ length: 2, unit: 'seconds' });
+        a.wrap();
+        a.loop.setEnabled(false);
+        expect(a.fake.playerState).toBe(1);
+        expect(a.rest.resting).toBe(false);
+
+        const b = setup();
+        b.rest.setRest({ length: 2, unit: 'seconds' });
+        b.wrap();
+        b.rest.setRest(null);
+        expect(b.fake.playerState).toBe(1);
+    });
+
+    it('no rest for a wrap while paused or without a setting', () => {
+        const { fake, rest, events, wrap } = setup();
+        wrap();
+        expect(fake.playerState).toBe(1);
+        rest.setRest({ length: 2, unit: 'seconds' });
+        fake.pause();
+        wrap();
+        expect(rest.resting).toBe(false);
+        expect(events).toEqual([]);
+    });
+});
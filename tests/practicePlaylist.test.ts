@@ -0,0 +1,123 @@
+/**
+ * PracticePlaylist on FakeAlphaTab — region order, per-region speed, the
+ * end of the list, and the tempo trainer staying out of a running playlist.
+ *
+ *   bars 0–4, whole notes, no repeats → bar n at n × 3840 (end 19200).
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import { LoopController } from '../src/lib/LoopController';
+import { PLAYLIST_COLORS, PracticePlaylist } from '../src/lib/PracticePlaylist';
+import { TempoTrainer } from '../src/lib/TempoTrainer';
+
+const BAR = 3840;
+const bar = (n: number) => ({ startTick: n * BAR, endTick: (n + 1) * BAR });
+
+function setup() {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    for (let i = 0; i < 5; i++) fake.addBar({ beats: [BAR] });
+    fake.playbackSpeed = 1;
+    const loop = new LoopController(fake);
+    const playlist = new PracticePlaylist(fake, loop);
+    const wrap = () => {
+        const range = loop.range!;
+        loop.enforce(range.startTick + 10);
+        loop.enforce(range.endTick - 10);
+    };
+    return { fake, loop, playlist, wrap };
+}
+
+describe('PracticePlaylist', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('plays regions in queue order with their own repeats and speed — backwards too', () => {
+        const { fake, loop, playlist, wrap } = setup();
+        playlist.add(bar(0), 'A', { repeats: 2, speedPercent: 50 });
+        playlist.add(bar(4), 'B', { repeats: 1 });
+        playlist.add(bar(1), 'C', { repeats: 1, speedPercent: 120 });
+
+        expect(playlist.start(0)).toBe(0);
+        expect(loop.range).toEqual(bar(0));
+        expect(fake.playbackSpeed).toBeCloseTo(0.5);
+        wrap();
+        expect(loop.range).toEqual(bar(0));
+        wrap();
+        expect(loop.range).toEqual(bar(4));
+        expect(fake.tickPosition).toBe(4 * BAR);
+        expect(fake.playbackSpeed).toBe(1);
+        wrap();
+        expect(loop.range).toEqual(bar(1));
+        expect(fake.tickPosition).toBe(BAR);
+        expect(fake.playbackSpeed).toBeCloseTo(1.2);
+    });
+
+    it('pauses and restores the speed after the last region', () => {
+        const { fake, playlist, wrap } = setup();
+        const finished: number[] = [];
+        playlist.on('finished', e => finished.push(e.regions));
+        playlist.add(bar(2), 'A', { repeats: 1, speedPercent: 60 });
+        playlist.start();
+        fake.play();
+        wrap();
+        expect(finished).toEqual([1]);
+        expect(fake.playerState).toBe(0);
+        expect(fake.playbackSpeed).toBe(1);
+        expect(playlist.state).toMatchObject({ active: false, finished: true });
+    });
+
+    it('loopPlaylist starts over at region 1', () => {
+        const { loop, playlist, wrap } = setup();
+        playlist.add(bar(0), 'A', { repeats: 1 });
+        playlist.add(bar(3), 'B', { repeats: 1 });
+        playlist.setLoopPlaylist(true);
+        playlist.start();
+        wrap();
+        wrap();
+        expect(loop.range).toEqual(bar(0));
+        expect(playlist.state.active).toBe(true);
+    });
+
+    it('reorders regions; colours follow the queue position when added', () => {
+        const { playlist } = setup();
+        const a = playlist.add(bar(0), 'A')!;
+        playlist.add(bar(1), 'B');
+        playlist.move(a.id, 1);
+        expect(playlist.state.entries.map(e => [e.label, e.color])).toEqual([
+            ['B', PLAYLIST_COLORS[1]],
+            ['A', PLAYLIST_COLORS[0]],
+        ]);
+    });
+
+    it('a loop moved by the student stops the playlist', () => {
+        const { loop, playlist } = setup();
+        playlist.add(bar(0), 'A');
+        playlist.start();
+        loop.setRange(bar(3));
+        expect(playlist.state.active).toBe(false);
+    });
+
+    it('a running tempo trainer stops when a region takes over — region speed wins, wraps never step it', () => {
+        const { fake, loop, playlist, wrap } = setup();
+        const trainer = new TempoTrainer(fake, loop, { repsPerStep: 1 });
+        playlist.add(bar(0), 'A', { repeats: 3, speedPercent: 50 });
+        playlist.add(bar(1), 'B', { repeats: 3, speedPercent: 80 });
+        loop.setRange(bar(0));
+        trainer.start();
+        expect(fake.playbackSpeed).toBeCloseTo(0.7);
+        playlist.start(0);
+        expect(trainer.state.active).toBe(false);
+        expect(fake.playbackSpeed).toBeCloseTo(0.5);
+        wrap();
+        wrap();
+        expect(fake.playbackSpeed).toBeCloseTo(0.5);
+        // Started mid-playlist: the next region change stops it again.
+        trainer.start();
+        wrap();
+        expect(loop.range).toEqual(bar(1));
+        expect(trainer.state.active).toBe(false);
+        expect(fake.playbackSpeed).toBeCloseTo(0.8);
+    });
+});
@@ -0,0 +1,38 @@
+/**
+ * Committed recordings (/recordings) replayed through CursorDriver →
+ * MaestroCursor. A cursor change that moves pixels shows up as golden-drift:
+ * review it, then re-record.
+ */
+
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PositionRecording } from '../src/lib/PositionRecorder';
+import { formatReplayReport, replayRecording } from '../src/lib/PositionReplayer';
+
+function loadRecording(name: string): PositionRecording {
+    const path = fileURLToPath(new URL(`../recordings/${name}`, import.meta.url));
+    return JSON.parse(readFileSync(path, 'utf8')) as PositionRecording;
+}
+
+describe('recording replay', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('fake-repeat-whammy.json replays without violations', () => {
+        const report = replayRecording(loadRecording('fake-repeat-whammy.json'));
+        expect(report.violations, formatReplayReport(report)).toEqual([]);
+        expect(report.samples.length).toBeGreaterThan(500);
+    });
+
+    it('reports golden-drift when a recorded X no longer matches', () => {
+        const recording = loadRecording('fake-repeat-whammy.json');
+        const event = recording.events.find(e => e.type === 'position' && e.x != null);
+        if (event?.type !== 'position' || event.x == null) throw new Error('recording has no cursor X');
+        event.x += 50;
+        const report = replayRecording(recording);
+        expect(report.ok).toBe(false);
+        expect(report.violations.map(v => v.rule)).toEqual(['golden-drift']);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * SavedLoops — labels against the expanded timeline, JSON hand-off and the
+ * in-memory store (Node has no IndexedDB).
+ *
+ *   bar 0  |: whole
+ *   bar 1     whole :|
+ *   bar 2     whole
+ * Playback order 0 1 0 1 2 → expanded bars at 0, 3840, 7680, 11520, 15360.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getExpandedTimeline } from '../src/lib/ExpandedTimeline';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import {
+    createSavedLoop, describeLoopRange, exportLoopSet, fitsTimeline, importLoopSet, parseLoopSet,
+    SavedLoopStore, scoreContentHash,
+} from '../src/lib/SavedLoops';
+
+function setup() {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    fake.addBar({ beats: [3840], repeatOpen: true });
+    fake.addBar({ beats: [3840], repeatCount: 2 });
+    fake.addBar({ beats: [3840] });
+    return fake;
+}
+
+describe('saved loop labels', () => {
+    it('names bars 1-based, with the pass only when a bar is replayed', () => {
+        const timeline = getExpandedTimeline(setup());
+        expect(describeLoopRange({ startTick: 0, endTick: 7680 }, timeline)).toBe('Bars 1–2');
+        expect(describeLoopRange({ startTick: 7680, endTick: 11520 }, timeline)).toBe('Bar 1 (pass 2)');
+        expect(describeLoopRange({ startTick: 11520, endTick: 19200 }, timeline)).toBe('Bars 2 (pass 2)–3');
+        expect(describeLoopRange({ startTick: 0, endTick: 99999 }, timeline)).toBe('ticks 0–99999');
+    });
+
+    it('re-reads the rebuilt timeline (what the panel does on a boundsEpoch bump)', () => {
+        const fake = setup();
+        const range = { startTick: 7680, endTick: 11520 };
+        expect(describeLoopRange(range, getExpandedTimeline(fake))).toBe('Bar 1 (pass 2)');
+        // New expansion (e.g. the score was re-rendered with voltas resolved differently).
+        fake.setPlaybackOrder([0, 1, 2, 0, 1]);
+        expect(describeLoopRange(range, getExpandedTimeline(fake))).toBe('Bar 3');
+    });
+
+    it('fitsTimeline rejects loops outside the expanded timeline', () => {
+        const timeline = getExpandedTimeline(setup());
+        expect(fitsTimeline({ startTick: 3840, endTick: 19200 }, timeline)).toBe(true);
+        expect(fitsTimeline({ startTick: 3840, endTick: 19201 }, timeline)).toBe(false);
+        expect(fitsTimeline({ startTick: 3840, endTick: 3840 }, timeline)).toBe(false);
+    });
+});
+
+describe('saved loop records', () => {
+    it('trims the name and clamps the cursor into the loop', () => {
+        const loop = createSavedLoop('h', '  Solo  ', { startTick: 3840, endTick: 7680 }, 100);
+        expect(loop.name).toBe('Solo');
+        expect(loop.cursorTick).toBe(3840);
+        expect(createSavedLoop('h', ' ', loop, 5000)).toMatchObject({ name: 'Untitled loop', cursorTick: 5000 });
+    });
+
+    it('round-trips a set through JSON, re-keyed with fresh ids', () => {
+        const loops = [createSavedLoop('teacher', 'Riff', { startTick: 0, endTick: 3840 }, 960)];
+        const json = JSON.parse(JSON.stringify(exportLoopSet('teacher', 'Song', loops)));
+        const imported = importLoopSet(parseLoopSet(json), 'student');
+        expect(imported).toHaveLength(1);
+        expect(imported[0]).toMatchObject({ scoreHash: 'student', name: 'Riff', startTick: 0, endTick: 3840, cursorTick: 960 });
+        expect(imported[0].id).not.toBe(loops[0].id);
+    });
+
+    it('rejects foreign or broken files with a readable error', () => {
+        expect(() => parseLoopSet({ format: 'other' })).toThrow('Not a loop set file');
+        expect(() => parseLoopSet({ format: 'maestro-loops', version: 2 })).toThrow('Unsupported loop set version 2');
+        expect(() => parseLoopSet({
+            format: 'maestro-loops', version: 1, scoreHash: 'h',
+            loops: [{ name: 'x', startTick: 10, endTick: 5 }],
+        })).toThrow('Invalid loop in set');
+    });
+
+    it('hashes the same bytes to the same key', async () => {
+        const a = await scoreContentHash(new Uint8Array([1, 2, 3]));
+        expect(a).toBe(await scoreContentHash(new Uint8Array([1, 2, 3])));
+        expect(a).not.toBe(await scoreContentHash(new Uint8Array([1, 2, 4])));
+    });
+});
+
+describe('SavedLoopStore (memory fallback)', () => {
+    it('lists one score\'s loops oldest first; put replaces, remove deletes', async () => {
+        const store = new SavedLoopStore();
+        const a = { ...createSavedLoop('h', 'A', { startTick: 0, endTick: 960 }, 0), createdAt: '2026-01-02' };
+        const b = { ...createSavedLoop('h', 'B', { startTick: 0, endTick: 960 }, 0), createdAt: '2026-01-01' };
+        const other = createSavedLoop('other', 'C', { startTick: 0, endTick: 960 }, 0);
+        await store.put(a, b, other);
+        expect((await store.list('h')).map(l => l.name)).toEqual(['B', 'A']);
+        await store.put({ ...a, name: 'A2' });
+        await store.remove(b.id);
+        expect((await store.list('h')).map(l => l.name)).toEqual(['A2']);
+    });
+});
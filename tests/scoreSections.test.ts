@@ -0,0 +1,65 @@
+/**
+ * ScoreSections on FakeAlphaTab — section bar ranges and one pass per trip
+ * through a section, in playback order.
+ *
+ *   bar 0     (no marker)
+ *   bar 1  |: Verse
+ *   bar 2        :|
+ *   bar 3     Chorus
+ *   bar 4
+ * Playback order 0 1 2 1 2 3 4 2 3 4 (D.S. into the middle of the Verse).
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getExpandedTimeline } from '../src/lib/ExpandedTimeline';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import { getScoreSections } from '../src/lib/ScoreSections';
+
+function sectionsOf(fake: FakeAlphaTab) {
+    return getScoreSections(getExpandedTimeline(fake)!);
+}
+
+function setup() {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    fake.addBar({ beats: [3840] });
+    fake.addBar({ beats: [3840], section: 'Verse' });
+    fake.addBar({ beats: [3840] });
+    fake.addBar({ beats: [3840], section: 'Chorus' });
+    fake.addBar({ beats: [3840] });
+    fake.setPlaybackOrder([0, 1, 2, 1, 2, 3, 4, 2, 3, 4]);
+    return fake;
+}
+
+describe('getScoreSections', () => {
+    it('a section runs from its marker bar to the bar before the next marker', () => {
+        const sections = sectionsOf(setup());
+        expect(sections.map(s => [s.name, s.masterBarIndex, s.lastMasterBarIndex])).toEqual([
+            ['Verse', 1, 2],
+            ['Chorus', 3, 4],
+        ]);
+    });
+
+    it('one pass per trip through the section; a jump past the marker is partial', () => {
+        const [verse, chorus] = sectionsOf(setup());
+        expect(verse.passes).toEqual([
+            { pass: 0, range: { startTick: 3840, endTick: 11520 }, partial: false },
+            { pass: 1, range: { startTick: 11520, endTick: 19200 }, partial: false },
+            { pass: 2, range: { startTick: 26880, endTick: 30720 }, partial: true },
+        ]);
+        expect(chorus.passes.map(p => p.range)).toEqual([
+            { startTick: 19200, endTick: 26880 },
+            { startTick: 30720, endTick: 38400 },
+        ]);
+    });
+
+    it('names an unnamed marker by position; no markers, no sections', () => {
+        const fake = new FakeAlphaTab();
+        fake.addBar({ beats: [3840], section: '' });
+        fake.addBar({ beats: [3840] });
+        expect(sectionsOf(fake).map(s => s.name)).toEqual(['Section 1']);
+
+        const plain = new FakeAlphaTab();
+        plain.addBar({ beats: [3840] });
+        expect(sectionsOf(plain)).toEqual([]);
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * SoundingNotes on FakeAlphaTab — struck vs let-ring vs tie destination, and
+ * the same note heads on repeat pass 2.
+ *
+ *   bar 0  |: s1 let-ring / s2 / s1 / rest
+ *   bar 1     s3 let-ring (half) / s2 tie destination (half) :|
+ *   bar 2     s1 whole
+ * Playback order 0 1 0 1 2 → expanded bars at 0, 3840, 7680, 11520, 15360.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import { getSoundingNotesIndex } from '../src/lib/SoundingNotes';
+
+function setup() {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    fake.addBar({
+        repeatOpen: true,
+        beats: [
+            { duration: 960, notes: [{ string: 1, fret: 0, letRing: true }] },
+            { duration: 960, notes: [{ string: 2, fret: 2 }] },
+            { duration: 960, notes: [{ string: 1, fret: 3 }] },
+            { duration: 960 },
+        ],
+    });
+    fake.addBar({
+        repeatCount: 2,
+        beats: [
+            { duration: 1920, notes: [{ string: 3, fret: 5, letRing: true }] },
+            { duration: 1920, notes: [{ string: 2, fret: 1, tieDestination: true }] },
+        ],
+    });
+    fake.addBar({ beats: [{ duration: 3840, notes: [{ string: 1, fret: 7 }] }] });
+    const index = getSoundingNotesIndex(fake)!;
+    // "string:fret:state", sorted — independent of voice/beat iteration order.
+    const at = (tick: number) => index.at(tick)
+        .map(n => `${n.note.string}:${n.note.fret}:${n.state}`)
+        .sort();
+    return { fake, index, at };
+}
+
+describe('SoundingNotes', () => {
+    it('a struck note is active for its own beat only', () => {
+        const { at } = setup();
+        expect(at(100)).toEqual(['1:0:active']);
+        expect(at(2000)).toEqual(['1:3:active']);
+        expect(at(3000)).toEqual([]);
+    });
+
+    it('let-ring rings until the next note on the same string', () => {
+        const { at } = setup();
+        expect(at(1000)).toEqual(['1:0:ringing', '2:2:active']);
+        expect(at(1919)).toEqual(['1:0:ringing', '2:2:active']);
+        expect(at(1920)).toEqual(['1:3:active']);
+    });
+
+    it('let-ring without a later note rings to the barline; a tie destination rings', () => {
+        const { at } = setup();
+        expect(at(3840 + 100)).toEqual(['3:5:active']);
+        expect(at(3840 + 2000)).toEqual(['2:1:ringing', '3:5:ringing']);
+        expect(at(15360 + 100)).toEqual(['1:7:active']);
+    });
+
+    it('repeat pass 2 lights the same note heads with the same keys', () => {
+        const { index, at } = setup();
+        expect(at(7680 + 1000)).toEqual(at(1000));
+        expect(at(11520 + 2000)).toEqual(at(3840 + 2000));
+        const keys = (tick: number) => index.at(tick).map(n => n.key).sort();
+        expect(keys(7680 + 1000)).toEqual(keys(1000));
+        for (const n of index.at(7680 + 1000)) expect(n.bounds.w).toBeGreaterThan(0);
+    });
+});
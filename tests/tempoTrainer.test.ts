@@ -0,0 +1,86 @@
+/**
+ * TempoTrainer on FakeAlphaTab — speed steps on loop wraps, the target
+ * ceiling, misses and range changes.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAlphaTab } from '../src/lib/FakeAlphaTab';
+import { LoopController } from '../src/lib/LoopController';
+import { TempoTrainer, TempoTrainerSettings } from '../src/lib/TempoTrainer';
+
+function setup(settings: Partial<TempoTrainerSettings> = {}) {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    fake.addBar({ beats: [3840] });
+    fake.addBar({ beats: [3840] });
+    const loop = new LoopController(fake);
+    const trainer = new TempoTrainer(fake, loop, settings);
+    loop.setRange({ startTick: 0, endTick: 3840 });
+    // One repetition = the enforcer's wrap (back inside first, so each one is new).
+    const repeat = (times = 1) => {
+        for (let i = 0; i < times; i++) {
+            loop.enforce(100);
+            loop.enforce(3800);
+        }
+    };
+    return { fake, loop, trainer, repeat };
+}
+
+describe('TempoTrainer', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('starts slow and steps up every repsPerStep clean wraps', () => {
+        const { fake, trainer, repeat } = setup({ startPercent: 60, stepPercent: 10, repsPerStep: 2 });
+        fake.playbackSpeed = 1;
+        trainer.start();
+        expect(fake.playbackSpeed).toBeCloseTo(0.6);
+        repeat();
+        expect(fake.playbackSpeed).toBeCloseTo(0.6);
+        repeat();
+        expect(fake.playbackSpeed).toBeCloseTo(0.7);
+        expect(trainer.state).toMatchObject({ speedPercent: 70, repsAtSpeed: 0, totalReps: 2 });
+    });
+
+    it('never passes the target — the last step is clamped', () => {
+        const { fake, trainer, repeat } = setup({ startPercent: 80, stepPercent: 15, repsPerStep: 1, targetPercent: 100 });
+        const steps: number[] = [];
+        trainer.on('stepped', e => steps.push(e.toPercent));
+        trainer.start();
+        repeat(5);
+        expect(steps).toEqual([95, 100]);
+        expect(fake.playbackSpeed).toBeCloseTo(1);
+        expect(trainer.state.reachedTarget).toBe(true);
+    });
+
+    it('a miss restarts the count at the current speed', () => {
+        const { trainer, repeat } = setup({ repsPerStep: 3 });
+        trainer.start();
+        repeat(2);
+        trainer.markMiss();
+        repeat(2);
+        expect(trainer.state).toMatchObject({ speedPercent: 70, repsAtSpeed: 2, totalReps: 4 });
+        repeat();
+        expect(trainer.state.speedPercent).toBe(75);
+    });
+
+    it('a new range restarts the ramp; toggling the loop off stops and restores the speed', () => {
+        const { fake, loop, trainer, repeat } = setup({ repsPerStep: 1 });
+        fake.playbackSpeed = 0.9;
+        trainer.start();
+        repeat(2);
+        expect(trainer.state.speedPercent).toBe(80);
+        loop.setRange({ startTick: 3840, endTick: 7680 });
+        expect(trainer.state).toMatchObject({ active: true, speedPercent: 70, totalReps: 0 });
+        loop.setEnabled(false);
+        expect(trainer.state.active).toBe(false);
+        expect(fake.playbackSpeed).toBeCloseTo(0.9);
+    });
+
+    it('does nothing on wraps while stopped', () => {
+        const { fake, repeat } = setup({ repsPerStep: 1 });
+        fake.playbackSpeed = 1;
+        repeat(3);
+        expect(fake.playbackSpeed).toBe(1);
+    });
+});
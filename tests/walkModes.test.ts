@@ -0,0 +1,85 @@
+/**
+ * Cursor walk modes — CursorDriver → MaestroCursor against FakeAlphaTab.
+ *
+ * Score (barsPerSystem 2, 200px bars):
+ *   bar 0  |: 4 × quarter            x 0–200,   note heads 10 / 60 / 110 / 160
+ *   bar 1     half + whammy half :|  x 200–400, note heads 210 / 300.5 (vbW 1)
+ *   bar 2     whole                  next row,  note head 10
+ * Playback order 0 1 0 1 2 → expanded bars at 0, 3840, 7680, 11520, 15360.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CursorDriver } from '../src/lib/CursorDriver';
+import { FakeAlphaTab, createStubContainer } from '../src/lib/FakeAlphaTab';
+import { MaestroCursor } from '../src/components/MaestroCursor';
+
+function setup() {
+    const fake = new FakeAlphaTab({ barsPerSystem: 2 });
+    fake.addBar({ beats: [960, 960, 960, 960], repeatOpen: true });
+    fake.addBar({ beats: [1920, { duration: 1920, w: 1 }], repeatCount: 2 });
+    fake.addBar({ beats: [3840] });
+    const driver = new CursorDriver(fake);
+    const cursor = new MaestroCursor(fake, createStubContainer() as unknown as HTMLElement);
+    driver.attach(cursor);
+    fake.playerPositionChanged.on(e => driver.handlePosition(e.currentTick));
+    // Emits every 97 ticks from the last position up to `tick` — a real event cadence.
+    let last = 0;
+    const walkTo = (tick: number) => {
+        for (let t = last; t < tick; t += 97) fake.emitPosition(t);
+        fake.emitPosition(tick);
+        last = tick;
+        return cursor.getPosition()!.x;
+    };
+    fake.play();
+    return { fake, driver, cursor, walkTo };
+}
+
+describe('cursor walk modes', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('Mode A walks note head → next note head in the same bar', () => {
+        const { walkTo } = setup();
+        expect(walkTo(0)).toBeCloseTo(10);
+        expect(walkTo(480)).toBeCloseTo(35);
+        expect(walkTo(959)).toBeLessThanOrEqual(60);
+        // MaestroCursor skips moves < 0.5px — the last step may stay put.
+        expect(walkTo(960)).toBeCloseTo(60, 0);
+    });
+
+    it('Mode B walks the last beat of a bar to the barline', () => {
+        const { walkTo } = setup();
+        expect(walkTo(3360)).toBeCloseTo(180);
+    });
+
+    it('Mode B walks a whammy beat (near-zero vbW) to the barline, not by its width', () => {
+        const { walkTo } = setup();
+        expect(walkTo(5760)).toBeCloseTo(300.5);
+        expect(walkTo(6720)).toBeCloseTo(350.25);
+    });
+
+    it('walks repeat pass 2 from the expanded beat start, not the structural one', () => {
+        const { walkTo } = setup();
+        expect(walkTo(7680 + 480)).toBeCloseTo(35);
+        expect(walkTo(11520 + 960)).toBeCloseTo(255.25);
+    });
+
+    it('X never moves backward inside one beat', () => {
+        const { walkTo } = setup();
+        let prev = walkTo(3840);
+        for (let t = 3840; t < 5760; t += 53) {
+            const x = walkTo(t);
+            expect(x).toBeGreaterThanOrEqual(prev - 0.5);
+            prev = x;
+        }
+    });
+
+    it('parks on the note head, not the barline, when paused after the beat elapsed', () => {
+        const { fake, walkTo } = setup();
+        expect(walkTo(19199)).toBeGreaterThan(190);
+        fake.pause();
+        fake.emitPosition(19199);
+        expect(walkTo(19199)).toBeCloseTo(10);
+    });
+});